@@ -1,10 +1,77 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { RoseExperience } from './components/RoseExperience';
-import { RoseConfig } from './types';
-import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+import { UI } from './components/UI';
+import { PresetPanel } from './components/PresetPanel';
+import { GardenPanel } from './components/GardenPanel';
+import { BudgetPanel } from './components/BudgetPanel';
+import { CapturePanel } from './components/CapturePanel';
+import { SequencePanel, SequenceStatus } from './components/SequencePanel';
+import { CameraOverride } from './components/RoseExperience';
+import { AudioPanel, AudioSourceStatus } from './components/AudioPanel';
+import { SoundPanel } from './components/SoundPanel';
+import { DistortionPanel } from './components/DistortionPanel';
+import { TouchPanel } from './components/TouchPanel';
+import { ConstructionPanel } from './components/ConstructionPanel';
+import { PostProcessingPanel } from './components/PostProcessingPanel';
+import { CalibrationWizard } from './components/CalibrationWizard';
+import { HandFilterPanel } from './components/HandFilterPanel';
+import { GestureBindingsPanel } from './components/GestureBindingsPanel';
+import { RoseConfig, GestureBindings, Handedness, InputMode, GardenSettings, ParticleBudget, QualitySetting, QualityTierId, CameraModeId, AudioRoute, SoundSettings, DistortionSettings, TouchSettings, ConstructionSettings, PostProcessingSettings, HandFilterSettings } from './types';
+import { FilesetResolver, HandLandmarker, HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import type { RootState } from '@react-three/fiber';
+import { GESTURE_LABELS, Point2 } from './utils/gestures';
+import { ControlLevels, HandController, loadGestureBindings, saveGestureBindings } from './utils/handController';
+import { loadDominantHand, saveDominantHand } from './utils/handRoles';
+import { PointerInput } from './utils/pointerInput';
+import { readConfigFromUrl, writeConfigToUrl } from './utils/sceneUrl';
+import { GardenGrowth } from './utils/garden';
+import { loadBudget, saveBudget } from './utils/particleBudget';
+import { QUALITY_SETTINGS, QualityManager, getQualityTier, loadQualitySetting, saveQualitySetting } from './utils/quality';
+import {
+  BuildRecordingOptions,
+  CanvasRecorder,
+  DEFAULT_BUILD_RECORDING,
+  StillOptions,
+  captureStill,
+  downloadBlob,
+  recordBuild,
+} from './utils/capture';
+import { POINT_CLOUD_FORMATS, PointCloudFormat, collectPointCloud, exportPointCloud } from './utils/pointCloudExport';
+import { DEMO_SEQUENCE, Sequence, SequencePlayer, parseSequence, serializeSequence } from './utils/timeline';
+import { clampConfig } from './utils/configSchema';
+import { AudioAnalyzer, AudioFeatures, SILENT_FEATURES } from './utils/audioAnalysis';
+import { AudioModulation, AudioModulator, loadRoutes, saveRoutes } from './utils/audioRouting';
+import { SoundEngine, loadSoundSettings, saveSoundSettings } from './utils/soundDesign';
+import { DEFAULT_EFFECT_BLEND, EffectBlend, EffectMixer, cycleEffect, loadDistortion, saveDistortion } from './utils/distortionEffects';
+import { EFFECTS } from './effects';
+import { Fingertip, FingertipTracker, TrackedFingertip, fingertipFromHand, loadTouch, saveTouch } from './utils/fingertipTouch';
+import { loadConstruction, saveConstruction, scanHeight } from './utils/construction';
+import { ActivePostProcessor, loadPostProcessing, savePostProcessing } from './utils/postProcessing';
+import { loadHandFilter, saveHandFilter } from './utils/landmarkFilter';
+import {
+  CalibrationSession,
+  CalibrationStatus,
+  CalibrationStore,
+  activeProfile,
+  applyCalibration,
+  cycleProfile,
+  loadCalibration,
+  profileFromMeasurements,
+  saveCalibration,
+} from './utils/calibration';
+import { CAMERA_MODES, CameraDirector, cycleCameraMode, getCameraMode } from './utils/cameraDirector';
+import {
+  LandmarkRecorder,
+  ReplayDriver,
+  parseRecording,
+  serializeRecording,
+  toLandmarkerResult,
+} from './utils/landmarkRecording';
+
 
 // Optimal "High Detail" Settings for a Tulip
 const CINEMATIC_CONFIG: RoseConfig = {
+  species: 'tulip',
   color: '#7c00ff', // Rich Purple
   petalCount: 3.0, // Tulips typically show 3 inner + 3 outer
   twist: 0.8,      
@@ -12,6 +79,12 @@ const CINEMATIC_CONFIG: RoseConfig = {
   detail: 0.5,     
   speed: 0.15,     
   particleSize: 0.022, 
+  seed: 1,
+  whorls: 5,
+  petalLength: 1.0,
+  rayCount: 21,
+  centerSize: 0.5,
+  palette: null,   // Classic shading from the main color
 };
 
 // Hand Connections for skeleton drawing
@@ -24,12 +97,64 @@ const CONNECTIONS = [
   [0, 17], [5, 9], [9, 13], [13, 17] // Palm/Base
 ];
 
+const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+// Autopilot restarts the show after this long without a visitor
+const AUTOPILOT_RESUME_MS = 20000;
+
+interface ReplayStatus {
+  playing: boolean;
+  time: number;
+  duration: number;
+  speed: number;
+}
+
 const App: React.FC = () => {
-  const [config] = useState<RoseConfig>(CINEMATIC_CONFIG);
+  const [config, setConfig] = useState<RoseConfig>(() => readConfigFromUrl(CINEMATIC_CONFIG) ?? CINEMATIC_CONFIG);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [panelOpen, setPanelOpen] = useState(false);
+  const [garden, setGarden] = useState<GardenSettings>({
+    enabled: false,
+    layout: 'grid',
+    buildMode: 'together',
+    flowers: [],
+  });
+  const [selectedFlower, setSelectedFlower] = useState(0);
+  const [particleBudget, setParticleBudget] = useState<ParticleBudget>(loadBudget);
   const [loading, setLoading] = useState(true);
   const [permissionError, setPermissionError] = useState(false);
+  const [inputMode, setInputMode] = useState<InputMode>('camera');
   const [isPinching, setIsPinching] = useState(false); // UI State for feedback (Hand 1)
   const [isDistorting, setIsDistorting] = useState(false); // UI State for feedback (Hand 2)
+  const [dominantHand, setDominantHand] = useState<Handedness>(loadDominantHand);
+  const [isRecording, setIsRecording] = useState(false);
+  const [replayStatus, setReplayStatus] = useState<ReplayStatus | null>(null);
+  const [qualitySetting, setQualitySetting] = useState<QualitySetting>(loadQualitySetting);
+  const [autoTier, setAutoTier] = useState<QualityTierId>('ultra');
+  const [captureStatus, setCaptureStatus] = useState<string | null>(null);
+  const [videoRecording, setVideoRecording] = useState(false);
+  const [sequenceStatus, setSequenceStatus] = useState<SequenceStatus | null>(null);
+  const [sequenceError, setSequenceError] = useState<string | null>(null);
+  // Config fields the sequencer currently drives
+  const [sequenceConfig, setSequenceConfig] = useState<Partial<RoseConfig> | null>(null);
+  const [cameraMode, setCameraMode] = useState<CameraModeId>('orbit');
+  const [autoCuts, setAutoCuts] = useState(true);
+  const [isSteering, setIsSteering] = useState(false);
+  const [audioRoutes, setAudioRoutes] = useState<AudioRoute[]>(loadRoutes);
+  const [audioSource, setAudioSource] = useState<AudioSourceStatus | null>(null);
+  const [audioLevels, setAudioLevels] = useState<AudioFeatures>(SILENT_FEATURES);
+  const [audioError, setAudioError] = useState<string | null>(null);
+  const [soundSettings, setSoundSettings] = useState<SoundSettings>(loadSoundSettings);
+  const [soundUnlocked, setSoundUnlocked] = useState(false);
+  const [distortionSettings, setDistortionSettings] = useState<DistortionSettings>(loadDistortion);
+  const [touchSettings, setTouchSettings] = useState<TouchSettings>(loadTouch);
+  const [constructionSettings, setConstructionSettings] = useState<ConstructionSettings>(loadConstruction);
+  const [postSettings, setPostSettings] = useState<PostProcessingSettings>(loadPostProcessing);
+  const [calibration, setCalibration] = useState<CalibrationStore>(loadCalibration);
+  const [calibrationStatus, setCalibrationStatus] = useState<CalibrationStatus | null>(null);
+  const [handFilter, setHandFilter] = useState<HandFilterSettings>(loadHandFilter);
+  const [gestureBindings, setGestureBindings] = useState<GestureBindings>(loadGestureBindings);
+  const sceneRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   
@@ -41,33 +166,391 @@ const App: React.FC = () => {
   const lastVideoTimeRef = useRef<number>(-1);
   const requestRef = useRef<number>(0);
   const handLandmarkerRef = useRef<HandLandmarker | null>(null);
+  const controllerRef = useRef<HandController>(new HandController(gestureBindings));
+  // Running gesture calibration, fed live hand frames
+  const calibrationSessionRef = useRef<CalibrationSession | null>(null);
+  const recorderRef = useRef<LandmarkRecorder>(new LandmarkRecorder());
+  const replayRef = useRef<ReplayDriver | null>(null);
+  const replayFrameRef = useRef<number>(0);
+  const replayClockRef = useRef<number>(0);
+  const pointerInputRef = useRef<PointerInput>(new PointerInput());
+  const qualityRef = useRef<QualityManager>(new QualityManager());
+  const directorRef = useRef<CameraDirector>(new CameraDirector());
+  const audioRef = useRef<AudioAnalyzer>(new AudioAnalyzer());
+  const modulatorRef = useRef<AudioModulator>(new AudioModulator());
+  // Uniform offsets for this frame; null while no audio source runs
+  const modulationRef = useRef<AudioModulation | null>(null);
+  const audioRoutesRef = useRef<AudioRoute[]>(audioRoutes);
+  const audioMeterRef = useRef<number>(0);
+  const soundRef = useRef<SoundEngine>(new SoundEngine(soundSettings));
+  const distortionSettingsRef = useRef<DistortionSettings>(distortionSettings);
+  const effectMixerRef = useRef<EffectMixer>(new EffectMixer());
+  // Distortion effects the flowers mix this frame
+  const effectRef = useRef<EffectBlend>(DEFAULT_EFFECT_BLEND);
+  const constructionSettingsRef = useRef<ConstructionSettings>(constructionSettings);
+  // Index fingertips from the latest hand frame, and as smoothed for the flowers
+  const fingertipsRef = useRef<Fingertip[]>([]);
+  const fingertipTrackerRef = useRef<FingertipTracker>(new FingertipTracker());
+  const trackedFingertipsRef = useRef<TrackedFingertip[]>([]);
+  const qualitySettingRef = useRef<QualitySetting>(qualitySetting);
+  qualitySettingRef.current = qualitySetting;
+  const captureRef = useRef<(() => RootState) | null>(null);
+  const postRef = useRef<ActivePostProcessor | null>(null);
+  const canvasRecorderRef = useRef<CanvasRecorder>(new CanvasRecorder());
+  // Capture runs at fixed sizes and time steps; keep the quality manager, live
+  // input, audio, touches and the camera director out of it
+  const capturingRef = useRef(false);
+
+  // Sequencer: advanced from the render loop, ahead of everything that reads the levels
+  const sequenceRef = useRef<SequencePlayer | null>(null);
+  const sequenceHeldRef = useRef(false); // Paused by the user: keep showing the scrubbed pose
+  const autopilotRef = useRef(false);
+  const interruptedRef = useRef(false);
+  const lastVisitorRef = useRef(0);
+  const sequenceConfigKeyRef = useRef('');
+  const cameraOverrideRef = useRef<CameraOverride | null>(null);
+
+  // Garden: input loops read the latest settings through a ref
+  const gardenRef = useRef<GardenSettings>(garden);
+  gardenRef.current = garden;
+  const gardenGrowthRef = useRef<GardenGrowth>(new GardenGrowth());
+  gardenGrowthRef.current.resize(garden.flowers.length, growthRef.current);
+  const flowerScreenRef = useRef<Point2[]>([]);
+
+  // What's on screen: the sequencer's config tracks layered over the edited config
+  const withSequence = (base: RoseConfig) => (sequenceConfig ? clampConfig({ ...base, ...sequenceConfig }, base) : base);
+  const shownConfig = withSequence(config);
+  const shownGarden = sequenceConfig ? { ...garden, flowers: garden.flowers.map(withSequence) } : garden;
+
+  // The config panel edits the selected garden flower, or the single flower
+  const editedConfig = garden.enabled && garden.flowers[selectedFlower] ? garden.flowers[selectedFlower] : config;
+
+  const applyConfig = (next: RoseConfig) => {
+    if (gardenRef.current.enabled) {
+      setGarden((prev) => ({
+        ...prev,
+        flowers: prev.flowers.map((flower, i) => (i === selectedFlower ? next : flower)),
+      }));
+    } else {
+      setConfig(next);
+    }
+  };
+
+  const handleConfigChange = (key: keyof RoseConfig, value: RoseConfig[keyof RoseConfig]) => {
+    applyConfig({ ...editedConfig, [key]: value });
+  };
+
+  const handleConfigPatch = (patch: Partial<RoseConfig>) => {
+    applyConfig({ ...editedConfig, ...patch });
+  };
+
+  // Hand the controllers' single growth level to the garden's flowers
+  const routeGardenGrowth = (constructing: boolean, anchor: Point2 | null) => {
+    const current = gardenRef.current;
+    if (!current.enabled) return;
+    gardenGrowthRef.current.route(growthRef, current.buildMode, constructing, anchor, flowerScreenRef.current);
+  };
+
+  // Mirror the config into the URL hash so the current bloom is always shareable
+  useEffect(() => {
+    writeConfigToUrl(config);
+  }, [config]);
+
+  // A pasted link in the same tab only changes the hash
+  useEffect(() => {
+    const onHashChange = () => {
+      const shared = readConfigFromUrl(CINEMATIC_CONFIG);
+      if (shared) setConfig(shared);
+    };
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.warn("Could not copy link:", err);
+    }
+  };
+
+  // Keep the role assigner in sync with the left-handed setting
+  useEffect(() => {
+    controllerRef.current.roles.setDominantHand(dominantHand);
+    saveDominantHand(dominantHand);
+  }, [dominantHand]);
+
+  // --- Gesture calibration ---
+  useEffect(() => {
+    applyCalibration(controllerRef.current, activeProfile(calibration));
+    saveCalibration(calibration);
+  }, [calibration]);
+
+  // Filter tuning applies to the next frame; the filter reads its options live
+  useEffect(() => {
+    Object.assign(controllerRef.current.filter.options, handFilter);
+    saveHandFilter(handFilter);
+  }, [handFilter]);
+
+  // The controller reads its bindings every step, so a rebind takes effect on the next frame
+  useEffect(() => {
+    controllerRef.current.bindings = gestureBindings;
+    saveGestureBindings(gestureBindings);
+  }, [gestureBindings]);
+
+  const startCalibration = () => {
+    calibrationSessionRef.current = new CalibrationSession(gestureBindings.construct);
+    setCalibrationStatus({ step: 0, progress: 0, handVisible: false, result: null });
+  };
+
+  const closeCalibration = () => {
+    calibrationSessionRef.current = null;
+    setCalibrationStatus(null);
+  };
+
+  const saveCalibrationProfile = (name: string) => {
+    if (!calibrationStatus?.result) return;
+    const profile = profileFromMeasurements(name, calibrationStatus.result);
+    setCalibration((store) => ({ profiles: [...store.profiles, profile], activeId: profile.id }));
+    closeCalibration();
+  };
+
+  const deleteActiveProfile = () =>
+    setCalibration((store) => ({ profiles: store.profiles.filter((p) => p.id !== store.activeId), activeId: null }));
+
+  useEffect(() => {
+    saveBudget(particleBudget);
+  }, [particleBudget]);
+
+  // A manual tier pauses the manager; returning to auto starts from the top again
+  useEffect(() => {
+    saveQualitySetting(qualitySetting);
+    if (qualitySetting === 'auto') {
+      qualityRef.current.reset();
+      setAutoTier(qualityRef.current.tier.id);
+    }
+  }, [qualitySetting]);
+
+  const sampleFrame = (frameMs: number) => {
+    if (qualitySettingRef.current !== 'auto' || capturingRef.current) return;
+    const manager = qualityRef.current;
+    if (manager.sample(frameMs, performance.now())) setAutoTier(manager.tier.id);
+  };
+
+  const cycleQuality = () => {
+    const next = QUALITY_SETTINGS[(QUALITY_SETTINGS.indexOf(qualitySetting) + 1) % QUALITY_SETTINGS.length];
+    setQualitySetting(next);
+  };
+
+  // --- Camera director ---
+  // Auto cuts happen inside the render loop; mirror them into the HUD
+  useEffect(() => {
+    const director = directorRef.current;
+    director.onModeChange = setCameraMode;
+    return () => {
+      director.onModeChange = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    directorRef.current.autoCuts = autoCuts;
+  }, [autoCuts]);
+
+  const selectCameraMode = (mode: CameraModeId) => directorRef.current.setMode(mode);
+
+  const stepEffect = (step: number) =>
+    setDistortionSettings((settings) => ({ ...settings, effect: cycleEffect(settings.effect, step) }));
+
+  // 1-5 pick a camera mode, C cycles through them, E through the distortion effects
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.target as Element | null)?.closest('input, textarea, select') || e.ctrlKey || e.metaKey || e.altKey) return;
+      const mode = CAMERA_MODES.find((m) => m.key === e.key);
+      if (mode) selectCameraMode(mode.id);
+      else if (e.key.toLowerCase() === 'c') selectCameraMode(cycleCameraMode(directorRef.current.mode));
+      else if (e.key.toLowerCase() === 'e') stepEffect(e.shiftKey ? -1 : 1);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // --- Audio reactive ---
+  useEffect(() => {
+    audioRoutesRef.current = audioRoutes;
+    saveRoutes(audioRoutes);
+  }, [audioRoutes]);
+
+  useEffect(() => () => audioRef.current.dispose(), []);
+
+  const runAudio = (deltaMs: number) => {
+    const analyzer = audioRef.current;
+    if (!analyzer.active) {
+      modulationRef.current = null;
+      return;
+    }
+    const now = performance.now();
+    const features = analyzer.sample(now);
+    modulationRef.current = modulatorRef.current.step(features, audioRoutesRef.current, deltaMs);
+    // Meters only need ~10 updates a second
+    if (now - audioMeterRef.current > 100) {
+      audioMeterRef.current = now;
+      setAudioLevels(features);
+    }
+  };
+
+  const startAudio = async (start: (analyzer: AudioAnalyzer) => Promise<void>) => {
+    const analyzer = audioRef.current;
+    try {
+      await start(analyzer);
+      modulatorRef.current.reset();
+      setAudioError(null);
+      setAudioSource(analyzer.sourceKind ? { kind: analyzer.sourceKind, label: analyzer.sourceLabel } : null);
+    } catch (err) {
+      console.warn("Could not start audio:", err);
+      setAudioError(err instanceof Error ? err.message : 'Audio unavailable');
+      setAudioSource(analyzer.sourceKind ? { kind: analyzer.sourceKind, label: analyzer.sourceLabel } : null);
+    }
+  };
+
+  const stopAudio = () => {
+    audioRef.current.stop();
+    modulationRef.current = null;
+    setAudioSource(null);
+    setAudioLevels(SILENT_FEATURES);
+  };
+
+  // --- Distortion effects ---
+  useEffect(() => {
+    distortionSettingsRef.current = distortionSettings;
+    saveDistortion(distortionSettings);
+  }, [distortionSettings]);
+
+  // --- Fingertip touch ---
+  useEffect(() => {
+    saveTouch(touchSettings);
+  }, [touchSettings]);
+
+  // --- Construction choreography ---
+  useEffect(() => {
+    constructionSettingsRef.current = constructionSettings;
+    directorRef.current.scanMode = constructionSettings.scanMode;
+    saveConstruction(constructionSettings);
+  }, [constructionSettings]);
+
+  // --- Post processing ---
+  useEffect(() => {
+    savePostProcessing(postSettings);
+  }, [postSettings]);
+
+  // --- Sound design ---
+  useEffect(() => {
+    soundRef.current.setSettings(soundSettings);
+    saveSoundSettings(soundSettings);
+  }, [soundSettings]);
+
+  // Autoplay policy: the audio context may only start from a user gesture
+  useEffect(() => {
+    const sound = soundRef.current;
+    const events = ['pointerdown', 'keydown', 'touchend'];
+    const unlock = () => {
+      sound.unlock();
+      setSoundUnlocked(true);
+      events.forEach((type) => window.removeEventListener(type, unlock));
+    };
+    events.forEach((type) => window.addEventListener(type, unlock));
+    return () => {
+      events.forEach((type) => window.removeEventListener(type, unlock));
+      sound.dispose();
+    };
+  }, []);
+
+  // Everything that has to happen before the flowers read their levels
+  const beforeFrame = (deltaMs: number) => {
+    // A capture sets the levels itself; everything else holds still
+    if (capturingRef.current) return;
+    runSequence(deltaMs);
+    runAudio(deltaMs);
+    effectRef.current = effectMixerRef.current.step(distortionSettingsRef.current, deltaMs);
+    trackedFingertipsRef.current = fingertipTrackerRef.current.step(fingertipsRef.current, deltaMs);
+    soundRef.current.update(
+      {
+        growth: growthRef.current,
+        distortion: distortionRef.current,
+        scanY: scanHeight(constructionSettingsRef.current.scanMode, growthRef.current),
+      },
+      deltaMs
+    );
+  };
+
+  const activeTier = getQualityTier(qualitySetting === 'auto' ? autoTier : qualitySetting);
+
+  // Mouse/touch/keyboard drive the flower whenever hand tracking is unavailable
+  useEffect(() => {
+    if (inputMode !== 'pointer' || !sceneRef.current) return;
+    const pointerInput = pointerInputRef.current;
+    const detach = pointerInput.attach(sceneRef.current);
+    let frameId = 0;
+
+    const tick = () => {
+      // A replay or a capture owns the levels while it runs
+      if (!replayRef.current && !capturingRef.current) {
+        const frame = pointerInput.step({ growth: growthRef.current, distortion: distortionRef.current });
+        growthRef.current = frame.growth;
+        distortionRef.current = frame.distortion;
+        routeGardenGrowth(frame.constructing, frame.position);
+        noteVisitor(frame.constructing || frame.distorting);
+        setIsPinching(frame.constructing);
+        setIsDistorting(frame.distorting);
+        fingertipsRef.current = [];
+      }
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      detach();
+    };
+  }, [inputMode]);
+
+  const fallBackToPointer = () => {
+    setInputMode('pointer');
+    setLoading(false);
+    growthRef.current = 1.0; // Fallback to visible
+  };
 
   const startCamera = async () => {
     setPermissionError(false);
     setLoading(true);
     try {
-      if (navigator.mediaDevices && navigator.mediaDevices.getUserMedia) {
-        const stream = await navigator.mediaDevices.getUserMedia({
-          video: { width: 640, height: 480 },
-        });
+      if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+        throw new Error("getUserMedia is not supported");
+      }
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { width: 640, height: 480 },
+      });
 
-        if (videoRef.current) {
-          videoRef.current.srcObject = stream;
-          videoRef.current.addEventListener('loadeddata', () => {
-            setLoading(false);
-            predictWebcam();
-          });
-        }
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        videoRef.current.addEventListener('loadeddata', () => {
+          // The camera may not honor the requested 4:3
+          const video = videoRef.current;
+          if (video && video.videoHeight > 0) controllerRef.current.setAspectRatio(video.videoWidth / video.videoHeight);
+          setLoading(false);
+          setInputMode('camera');
+          predictWebcam();
+        });
       }
     } catch (err) {
       console.warn("Camera permission denied or failed:", err);
       setPermissionError(true);
-      setLoading(false);
-      growthRef.current = 1.0; // Fallback to visible
+      fallBackToPointer();
     }
   };
 
-  const drawHand = (ctx: CanvasRenderingContext2D, landmarks: any[], pinching: boolean, pinchY: number, isDistortHand: boolean) => {
+  const drawHand = (ctx: CanvasRenderingContext2D, landmarks: Point2[], pinching: boolean, anchor: { x: number; y: number }, isDistortHand: boolean) => {
     const width = ctx.canvas.width;
     const height = ctx.canvas.height;
     
@@ -92,22 +575,16 @@ const App: React.FC = () => {
     });
 
     // Draw Joints
-    landmarks.forEach((p: any) => {
+    landmarks.forEach((p) => {
       ctx.beginPath();
       ctx.arc(p.x * width, p.y * height, 2, 0, 2 * Math.PI);
       ctx.fillStyle = pinching ? activeColor : primaryColor;
       ctx.fill();
     });
     
-    // --- PINCH VISUALIZATION ---
-    const thumb = landmarks[4];
-    const index = landmarks[8];
-    const tX = thumb.x * width;
-    const tY = thumb.y * height;
-    const iX = index.x * width;
-    const iY = index.y * height;
-    const midX = (tX + iX) / 2;
-    const midY = (tY + iY) / 2;
+    // --- GESTURE VISUALIZATION ---
+    const midX = anchor.x * width;
+    const midY = anchor.y * height;
 
     if (pinching) {
         // Locked Target Ring
@@ -124,7 +601,7 @@ const App: React.FC = () => {
         
         if (!isDistortHand) {
             // Drag Direction Indicator (Only for control hand)
-            const zoneY = pinchY * height;
+            const zoneY = midY;
             ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
             ctx.fillRect(width - 10, 0, 10, height); 
             ctx.fillStyle = activeColor;
@@ -133,11 +610,418 @@ const App: React.FC = () => {
     }
   };
 
+  const drawGrid = (ctx: CanvasRenderingContext2D) => {
+    const width = ctx.canvas.width;
+    const height = ctx.canvas.height;
+    ctx.clearRect(0, 0, width, height);
+
+    // Tech Grid overlay
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.05)';
+    ctx.lineWidth = 1;
+    const gridSize = width / 8;
+    for(let x=0; x<width; x+=gridSize) { 
+        ctx.beginPath(); ctx.moveTo(x,0); ctx.lineTo(x,height); ctx.stroke(); 
+    }
+    for(let y=0; y<height; y+=gridSize) { 
+        ctx.beginPath(); ctx.moveTo(0,y); ctx.lineTo(width,y); ctx.stroke(); 
+    }
+  };
+
+  // Shared by the live webcam loop and replays: landmarks -> growth/distortion + HUD.
+  // `live` is false while a seek rebuilds state from past frames, so their swipes,
+  // camera steering and visitor notices don't fire again; only the state they
+  // leave behind counts.
+  const applyDetections = (
+    detections: HandLandmarkerResult,
+    timestamp: number,
+    ctx?: CanvasRenderingContext2D | null,
+    live = true
+  ) => {
+    const frame = controllerRef.current.step(detections, timestamp, {
+      growth: growthRef.current,
+      distortion: distortionRef.current,
+    });
+    growthRef.current = frame.growth;
+    distortionRef.current = frame.distortion;
+
+    // Calibration measures the live building hand, never a replay
+    const calibrationSession = calibrationSessionRef.current;
+    if (calibrationSession && !replayRef.current) {
+      setCalibrationStatus(calibrationSession.addSample(frame.construct?.hand ?? frame.gestures.hands[0], timestamp));
+    }
+
+    // The HUD feed is mirrored, so flip x into screen space
+    const anchor = frame.construct ? { x: 1 - frame.construct.anchor.x, y: frame.construct.anchor.y } : null;
+    routeGardenGrowth(!!frame.construct?.active, anchor);
+
+    if (live) noteVisitor(frame.gestures.hands.length > 0);
+
+    // Both hands pinching together steer the camera; released, it glides on
+    if (live) {
+      directorRef.current.steer(frame.twoHand ?? null);
+      setIsSteering(!!frame.twoHand);
+    }
+
+    // Index fingertips touch the particles, except while the hands hold the camera
+    fingertipsRef.current = frame.twoHand ? [] : frame.gestures.hands.map(fingertipFromHand);
+
+    // Horizontal swipes step through the camera modes, vertical ones through the
+    // distortion effects (not mid-grab, where hands move apart fast)
+    for (const event of frame.twoHand || !live ? [] : frame.gestures.events) {
+      if (event.type !== 'swipe') continue;
+      if (event.direction === 'left' || event.direction === 'right') {
+        selectCameraMode(cycleCameraMode(directorRef.current.mode, event.direction === 'right' ? 1 : -1));
+      } else {
+        stepEffect(event.direction === 'down' ? 1 : -1);
+      }
+    }
+    setIsPinching(!!frame.construct?.active);
+    setIsDistorting(!!frame.distort?.active);
+
+    if (ctx) {
+      if (frame.construct) drawHand(ctx, frame.construct.hand.landmarks, frame.construct.active, frame.construct.anchor, false);
+      if (frame.distort) drawHand(ctx, frame.distort.hand.landmarks, frame.distort.active, frame.distort.anchor, true);
+    }
+  };
+
+  // --- Recording ---
+  const downloadText = (text: string, filename: string) => {
+    const url = URL.createObjectURL(new Blob([text], { type: 'application/x-ndjson' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const toggleRecording = () => {
+    const recorder = recorderRef.current;
+    if (recorder.recording) {
+      const recording = recorder.stop();
+      setIsRecording(false);
+      const stamp = recording.createdAt.replace(/[:.]/g, '-');
+      downloadText(serializeRecording(recording), `flora-landmarks-${stamp}.ndjson`);
+    } else {
+      const video = videoRef.current;
+      recorder.start(video && video.videoWidth > 0 ? { width: video.videoWidth, height: video.videoHeight } : undefined);
+      setIsRecording(true);
+    }
+  };
+
+  // --- Capture ---
+  const captureStamp = () => new Date().toISOString().replace(/[:.]/g, '-');
+
+  const takeStill = async (options: Partial<StillOptions>) => {
+    const getState = captureRef.current;
+    if (!getState) return;
+    capturingRef.current = true;
+    setCaptureStatus(`Rendering ${options.width}×${options.height}...`);
+    try {
+      downloadBlob(await captureStill(getState(), options, postRef.current), `flora-still-${captureStamp()}.png`);
+      setCaptureStatus(null);
+    } catch (err) {
+      console.warn("Still capture failed:", err);
+      setCaptureStatus('Still capture failed');
+    } finally {
+      capturingRef.current = false;
+    }
+  };
+
+  const toggleVideo = async () => {
+    const recorder = canvasRecorderRef.current;
+    const getState = captureRef.current;
+    if (recorder.recording) {
+      setVideoRecording(false);
+      setCaptureStatus(null);
+      downloadBlob(await recorder.stop(), `flora-video-${captureStamp()}.webm`);
+      return;
+    }
+    if (!getState) return;
+    try {
+      recorder.start(getState().gl.domElement, DEFAULT_BUILD_RECORDING.fps);
+      setVideoRecording(true);
+      setCaptureStatus('● Recording video');
+    } catch (err) {
+      console.warn("Video recording failed:", err);
+      setCaptureStatus('Video recording unavailable');
+    }
+  };
+
+  // Drives every flower's growth 0 -> 1 with a fixed step, independent of input
+  const recordFullBuild = async (options: Partial<BuildRecordingOptions>) => {
+    const getState = captureRef.current;
+    if (!getState) return;
+    capturingRef.current = true;
+    setCaptureStatus('Recording full build...');
+    // The frame driver stops updating these while capturing, so start from rest
+    modulationRef.current = null;
+    effectRef.current = DEFAULT_EFFECT_BLEND;
+    trackedFingertipsRef.current = [];
+    cameraOverrideRef.current = null;
+    const setLevels = ({ growth, distortion }: ControlLevels) => {
+      growthRef.current = growth;
+      distortionRef.current = distortion;
+      gardenGrowthRef.current.growthRefs.forEach((ref) => { ref.current = growth; });
+    };
+    try {
+      downloadBlob(await recordBuild(getState(), setLevels, options), `flora-build-${captureStamp()}.webm`);
+      setCaptureStatus(null);
+    } catch (err) {
+      console.warn("Build recording failed:", err);
+      setCaptureStatus('Build recording failed');
+    } finally {
+      capturingRef.current = false;
+    }
+  };
+
+  const exportPoints = async (format: PointCloudFormat) => {
+    const getState = captureRef.current;
+    if (!getState) return;
+    const { extension } = POINT_CLOUD_FORMATS.find((f) => f.id === format)!;
+    setCaptureStatus(`Exporting ${extension.toUpperCase()}...`);
+    try {
+      const cloud = collectPointCloud(getState().scene);
+      downloadBlob(await exportPointCloud(cloud, format), `flora-points-${captureStamp()}.${extension}`);
+      setCaptureStatus(null);
+    } catch (err) {
+      console.warn("Point cloud export failed:", err);
+      setCaptureStatus('Point cloud export failed');
+    }
+  };
+
+  // --- Replay ---
+  const publishReplayStatus = () => {
+    const replay = replayRef.current;
+    setReplayStatus(replay
+      ? { playing: replay.isPlaying, time: replay.currentTime, duration: replay.duration, speed: replay.speed }
+      : null);
+  };
+
+  const replayTick = (now: number) => {
+    const replay = replayRef.current;
+    if (!replay) return;
+
+    const delta = now - replayClockRef.current;
+    replayClockRef.current = now;
+    // Captures pause the replay along with the live input
+    const frames = capturingRef.current ? [] : replay.advance(delta);
+    if (frames.length) {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (ctx) drawGrid(ctx);
+      frames.forEach((frame, i) => {
+        // Only draw the newest frame; earlier ones still run through the controller
+        applyDetections(toLandmarkerResult(frame), frame.t, i === frames.length - 1 ? ctx : null);
+      });
+    }
+    publishReplayStatus();
+    replayFrameRef.current = requestAnimationFrame(replayTick);
+  };
+
+  // Rebuild state from the start so a seek lands exactly where straight playback would
+  const seekReplay = (time: number) => {
+    const replay = replayRef.current;
+    if (!replay) return;
+    controllerRef.current.reset();
+    growthRef.current = 0;
+    distortionRef.current = 0;
+    const frames = replay.seek(time);
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) drawGrid(ctx);
+    frames.forEach((frame, i) => {
+      applyDetections(toLandmarkerResult(frame), frame.t, i === frames.length - 1 ? ctx : null, false);
+    });
+    // The levels jumped; don't let the sound or the director read that as a
+    // build, and let go of any grab so the camera stays where it is
+    soundRef.current.resetLevels();
+    directorRef.current.resetLevels();
+    directorRef.current.steer(null);
+    setIsSteering(false);
+    publishReplayStatus();
+  };
+
+  const loadReplay = async (file: File) => {
+    try {
+      const recording = parseRecording(await file.text());
+      stopReplay();
+      const replay = new ReplayDriver(recording);
+      replayRef.current = replay;
+      if (canvasRef.current) {
+        canvasRef.current.width = recording.video.width;
+        canvasRef.current.height = recording.video.height;
+      }
+      controllerRef.current.setAspectRatio(recording.video.width / recording.video.height);
+      seekReplay(0);
+      replay.play();
+      replayClockRef.current = performance.now();
+      replayFrameRef.current = requestAnimationFrame(replayTick);
+    } catch (err) {
+      console.warn("Could not load landmark recording:", err);
+    }
+  };
+
+  const toggleReplayPlayback = () => {
+    const replay = replayRef.current;
+    if (!replay) return;
+    if (replay.isPlaying) {
+      replay.pause();
+    } else {
+      if (replay.ended) seekReplay(0);
+      replay.play();
+    }
+    publishReplayStatus();
+  };
+
+  const setReplaySpeed = (speed: number) => {
+    if (!replayRef.current) return;
+    replayRef.current.speed = speed;
+    publishReplayStatus();
+  };
+
+  const stopReplay = () => {
+    if (replayFrameRef.current) cancelAnimationFrame(replayFrameRef.current);
+    replayRef.current = null;
+    controllerRef.current.reset();
+    const video = videoRef.current;
+    if (video && video.videoHeight > 0) controllerRef.current.setAspectRatio(video.videoWidth / video.videoHeight);
+    directorRef.current.steer(null);
+    setIsSteering(false);
+    publishReplayStatus();
+  };
+
+  // --- Sequencer ---
+  const publishSequenceStatus = () => {
+    const player = sequenceRef.current;
+    setSequenceStatus(player
+      ? {
+          name: player.sequence.name,
+          playing: player.isPlaying,
+          time: player.currentTime,
+          duration: player.duration,
+          loop: player.loop,
+          autopilot: autopilotRef.current,
+          interrupted: interruptedRef.current,
+        }
+      : null);
+  };
+
+  // Any visitor input pauses an autopilot show; idling long enough restarts it
+  const noteVisitor = (active: boolean) => {
+    if (!active) return;
+    lastVisitorRef.current = performance.now();
+    const player = sequenceRef.current;
+    if (player?.isPlaying && autopilotRef.current && !interruptedRef.current) {
+      player.pause();
+      interruptedRef.current = true;
+      publishSequenceStatus();
+    }
+  };
+
+  // Runs first in every rendered frame: active tracks overwrite whatever input wrote
+  const runSequence = (deltaMs: number) => {
+    const player = sequenceRef.current;
+    if (!player) return;
+
+    if (interruptedRef.current && performance.now() - lastVisitorRef.current > AUTOPILOT_RESUME_MS) {
+      interruptedRef.current = false;
+      player.seek(0);
+      player.play();
+    }
+    const wasPlaying = player.isPlaying;
+    player.advance(deltaMs);
+
+    const sample = player.isPlaying || sequenceHeldRef.current ? player.sample() : null;
+    if (sample?.growth !== undefined) {
+      growthRef.current = sample.growth;
+      gardenGrowthRef.current.growthRefs.forEach((ref) => { ref.current = sample.growth!; });
+    }
+    if (sample?.distortion !== undefined) distortionRef.current = sample.distortion;
+    cameraOverrideRef.current = sample ? sample.camera : null;
+
+    // Only re-render when a driven config value actually changes
+    const overrides = sample && Object.keys(sample.config).length ? sample.config : null;
+    const key = overrides ? JSON.stringify(overrides) : '';
+    if (key !== sequenceConfigKeyRef.current) {
+      sequenceConfigKeyRef.current = key;
+      setSequenceConfig(overrides);
+    }
+    if (wasPlaying || player.isPlaying) publishSequenceStatus();
+  };
+
+  const loadSequence = (sequence: Sequence) => {
+    sequenceRef.current = new SequencePlayer(sequence);
+    sequenceHeldRef.current = false;
+    interruptedRef.current = false;
+    setSequenceError(null);
+    sequenceRef.current.play();
+    publishSequenceStatus();
+  };
+
+  const loadSequenceFile = async (file: File) => {
+    try {
+      loadSequence(parseSequence(await file.text()));
+    } catch (err) {
+      console.warn("Could not load sequence:", err);
+      setSequenceError(err instanceof Error ? err.message : 'Not a sequence file');
+    }
+  };
+
+  const exportSequence = () => {
+    const player = sequenceRef.current;
+    if (!player) return;
+    const blob = new Blob([serializeSequence({ ...player.sequence, loop: player.loop })], { type: 'application/json' });
+    downloadBlob(blob, `flora-sequence-${captureStamp()}.json`);
+  };
+
+  const toggleSequencePlayback = () => {
+    const player = sequenceRef.current;
+    if (!player) return;
+    if (player.isPlaying) {
+      player.pause();
+      sequenceHeldRef.current = true;
+    } else {
+      player.play();
+      sequenceHeldRef.current = false;
+      interruptedRef.current = false;
+    }
+    publishSequenceStatus();
+  };
+
+  const seekSequence = (time: number) => {
+    const player = sequenceRef.current;
+    if (!player) return;
+    player.seek(time);
+    // Scrubbing a stopped show holds its pose so the seek is visible
+    if (!player.isPlaying) sequenceHeldRef.current = true;
+    publishSequenceStatus();
+  };
+
+  const toggleSequenceLoop = () => {
+    if (!sequenceRef.current) return;
+    sequenceRef.current.loop = !sequenceRef.current.loop;
+    publishSequenceStatus();
+  };
+
+  const toggleAutopilot = () => {
+    autopilotRef.current = !autopilotRef.current;
+    if (!autopilotRef.current) interruptedRef.current = false;
+    publishSequenceStatus();
+  };
+
+  const unloadSequence = () => {
+    sequenceRef.current = null;
+    sequenceHeldRef.current = false;
+    interruptedRef.current = false;
+    cameraOverrideRef.current = null;
+    sequenceConfigKeyRef.current = '';
+    setSequenceConfig(null);
+    publishSequenceStatus();
+  };
+
   const predictWebcam = () => {
     if (videoRef.current && handLandmarkerRef.current) {
       let startTimeMs = performance.now();
       
-      if (canvasRef.current && videoRef.current.videoWidth > 0) {
+      if (canvasRef.current && videoRef.current.videoWidth > 0 && !replayRef.current) {
           if (canvasRef.current.width !== videoRef.current.videoWidth || 
               canvasRef.current.height !== videoRef.current.videoHeight) {
               canvasRef.current.width = videoRef.current.videoWidth;
@@ -145,78 +1029,17 @@ const App: React.FC = () => {
           }
       }
 
-      if (videoRef.current.currentTime !== lastVideoTimeRef.current) {
+      // A replay or a capture owns the controller while it runs
+      if (!replayRef.current && !capturingRef.current && videoRef.current.currentTime !== lastVideoTimeRef.current) {
         lastVideoTimeRef.current = videoRef.current.currentTime;
         try {
           const detections = handLandmarkerRef.current.detectForVideo(videoRef.current, startTimeMs);
           const ctx = canvasRef.current?.getContext('2d');
-          
-          if (ctx) {
-            const width = ctx.canvas.width;
-            const height = ctx.canvas.height;
-            ctx.clearRect(0, 0, width, height);
-
-            // Tech Grid overlay
-            ctx.strokeStyle = 'rgba(255, 255, 255, 0.05)';
-            ctx.lineWidth = 1;
-            const gridSize = width / 8;
-            for(let x=0; x<width; x+=gridSize) { 
-                ctx.beginPath(); ctx.moveTo(x,0); ctx.lineTo(x,height); ctx.stroke(); 
-            }
-            for(let y=0; y<height; y+=gridSize) { 
-                ctx.beginPath(); ctx.moveTo(0,y); ctx.lineTo(width,y); ctx.stroke(); 
-            }
-          }
+          if (ctx) drawGrid(ctx);
 
           if (detections.landmarks) {
-            // Hand 0: Control Hand (Growth)
-            if (detections.landmarks.length > 0) {
-                const landmarks = detections.landmarks[0];
-                const thumb = landmarks[4];
-                const index = landmarks[8];
-                const aspectRatio = 640 / 480; 
-                const dist = Math.hypot((thumb.x - index.x) * aspectRatio, thumb.y - index.y);
-                const pinching = dist < 0.06;
-                setIsPinching(pinching);
-
-                if (pinching) {
-                    const pinchY = (thumb.y + index.y) / 2;
-                    const minY = 0.2, maxY = 0.8;
-                    const rawProgress = (pinchY - minY) / (maxY - minY);
-                    let targetGrowth = Math.max(0, Math.min(1, rawProgress));
-                    if (targetGrowth > 0.85) targetGrowth = 1.0;
-                    if (targetGrowth < 0.15) targetGrowth = 0.0;
-                    growthRef.current += (targetGrowth - growthRef.current) * 0.15;
-                } else {
-                    if (growthRef.current > 0.85) growthRef.current += (1.0 - growthRef.current) * 0.1;
-                    else if (growthRef.current < 0.15) growthRef.current += (0.0 - growthRef.current) * 0.1;
-                }
-
-                if (ctx) drawHand(ctx, landmarks, pinching, (thumb.y + index.y) / 2, false);
-            } else {
-                setIsPinching(false);
-            }
-
-            // Hand 1: Distortion Hand (Effect)
-            if (detections.landmarks.length > 1) {
-                const landmarks = detections.landmarks[1];
-                const thumb = landmarks[4];
-                const index = landmarks[8];
-                const aspectRatio = 640 / 480;
-                const dist = Math.hypot((thumb.x - index.x) * aspectRatio, thumb.y - index.y);
-                const pinching = dist < 0.06;
-                setIsDistorting(pinching);
-
-                // Update Distortion Ref - smooth lerp to target
-                const targetDistortion = pinching ? 1.0 : 0.0;
-                distortionRef.current += (targetDistortion - distortionRef.current) * 0.1;
-
-                if (ctx) drawHand(ctx, landmarks, pinching, 0, true);
-            } else {
-                setIsDistorting(false);
-                // Smoothly return to normal when hand is gone
-                distortionRef.current += (0.0 - distortionRef.current) * 0.1;
-            }
+            recorderRef.current.addFrame(detections, startTimeMs);
+            applyDetections(detections, startTimeMs, ctx);
           }
         } catch (e) {
           // Ignore transient detection errors
@@ -246,8 +1069,7 @@ const App: React.FC = () => {
 
       } catch (err) {
         console.error("Error initializing MediaPipe:", err);
-        setLoading(false); 
-        growthRef.current = 1.0; 
+        fallBackToPointer();
       }
     };
 
@@ -255,6 +1077,7 @@ const App: React.FC = () => {
 
     return () => {
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
+      if (replayFrameRef.current) cancelAnimationFrame(replayFrameRef.current);
       if (handLandmarkerRef.current) handLandmarkerRef.current.close();
       if (videoRef.current && videoRef.current.srcObject) {
          const tracks = (videoRef.current.srcObject as MediaStream).getTracks();
@@ -267,8 +1090,30 @@ const App: React.FC = () => {
     <div className="relative w-full h-screen bg-black overflow-hidden font-mono">
       
       {/* Full Screen 3D Scene */}
-      <div className="absolute inset-0 z-0">
-        <RoseExperience config={config} growthRef={growthRef} distortionRef={distortionRef} />
+      <div ref={sceneRef} className={`absolute inset-0 z-0 ${inputMode === 'pointer' ? 'touch-none select-none cursor-ns-resize' : ''}`}>
+        <RoseExperience
+          config={shownConfig}
+          growthRef={growthRef}
+          distortionRef={distortionRef}
+          modulationRef={modulationRef}
+          effectRef={effectRef}
+          fingertipsRef={trackedFingertipsRef}
+          touchSettings={touchSettings}
+          construction={constructionSettings}
+          postProcessing={postSettings}
+          particleBudget={particleBudget}
+          quality={activeTier}
+          onFrame={sampleFrame}
+          onBeforeFrame={beforeFrame}
+          cameraOverrideRef={cameraOverrideRef}
+          director={directorRef.current}
+          captureRef={captureRef}
+          postRef={postRef}
+          frozenRef={capturingRef}
+          garden={shownGarden}
+          gardenGrowthRefs={gardenGrowthRef.current.growthRefs}
+          flowerScreenRef={flowerScreenRef}
+        />
       </div>
 
       {/* Main Title Overlay */}
@@ -287,8 +1132,33 @@ const App: React.FC = () => {
       {/* Status Overlay */}
       <div className="absolute top-8 right-8 z-20 text-right space-y-2 pointer-events-none select-none">
           {loading && <div className="text-xs text-cyan-400 animate-pulse">:: INITIALIZING OPTICAL SENSORS ::</div>}
-          {permissionError && <div className="text-xs text-red-500 bg-black/50 px-2 py-1">:: SENSOR ERROR - CHECK PERMISSIONS ::</div>}
-          {!loading && !permissionError && (
+          {replayStatus && <div className="text-xs text-cyan-400">:: REPLAY MODE ::</div>}
+          {!loading && inputMode === 'pointer' && (
+             <div className="text-[10px] text-white/50 tracking-wider space-y-1">
+               <div className="text-xs text-cyan-400">:: INPUT: POINTER / TOUCH / KEYS ::</div>
+               <p className="text-red-500/80">
+                 {permissionError ? 'CAMERA UNAVAILABLE - CHECK PERMISSIONS' : 'HAND TRACKING UNAVAILABLE'}
+               </p>
+               <p className="flex items-center justify-end gap-2">
+                 <span className={`w-1.5 h-1.5 rounded-full ${isPinching ? 'bg-pink-500 animate-ping' : 'bg-green-500'}`}></span>
+                 {isPinching ? 'BUILD: ACTIVE' : 'BUILD: READY'}
+               </p>
+               <p className="flex items-center justify-end gap-2">
+                 <span className={`w-1.5 h-1.5 rounded-full ${isDistorting ? 'bg-yellow-400 animate-ping' : 'bg-yellow-900'}`}></span>
+                 {isDistorting ? 'DISTORT: ACTIVE' : 'DISTORT: IDLE'}
+               </p>
+
+               <div className="flex flex-col gap-1 mt-2 border-r border-white/20 pr-2">
+                   <p className={isPinching ? 'text-white font-bold' : 'text-gray-500'}>1. DRAG UP/DOWN · SCROLL · ↑/↓: BUILD</p>
+                   <p className={isDistorting ? 'text-yellow-400 font-bold' : 'text-gray-500'}>2. RIGHT-DRAG · LONG-PRESS · HOLD SPACE/D: DISTORT</p>
+                   <p className="text-gray-500">3. TOUCH: 1 FINGER BUILD · 2 FINGERS DISTORT</p>
+                   <p className={!isPinching ? 'text-cyan-400 font-bold' : 'text-gray-500'}>4. RELEASE: AUTO-SNAP</p>
+                   <p className="text-gray-500">5. KEYS 1-5 · C: CAMERA MODE</p>
+                   <p className="text-gray-500">6. E / SHIFT+E: DISTORTION EFFECT</p>
+               </div>
+             </div>
+          )}
+          {!loading && inputMode === 'camera' && (
              <div className="text-[10px] text-white/50 tracking-wider space-y-1">
                <p className="flex items-center justify-end gap-2">
                  <span className={`w-1.5 h-1.5 rounded-full ${isPinching ? 'bg-pink-500 animate-ping' : 'bg-green-500'}`}></span>
@@ -299,15 +1169,98 @@ const App: React.FC = () => {
                  {isDistorting ? 'SECONDARY HAND: DISTORTING' : 'SECONDARY HAND: IDLE'}
                </p>
                
+               <button
+                 onClick={() => setDominantHand(dominantHand === 'right' ? 'left' : 'right')}
+                 className="pointer-events-auto text-[10px] tracking-wider text-white/50 hover:text-cyan-400 transition-colors uppercase"
+               >
+                 :: Builder Hand: {dominantHand} ::
+               </button>
+
+               <div className="flex justify-end gap-3 pointer-events-auto text-[10px] tracking-wider text-white/50 uppercase">
+                 <button
+                   onClick={() => setCalibration({ ...calibration, activeId: cycleProfile(calibration) })}
+                   title="Gesture calibration profile"
+                   className="hover:text-cyan-400 transition-colors uppercase"
+                 >
+                   :: Profile: {activeProfile(calibration).name} ::
+                 </button>
+                 {calibration.activeId && (
+                   <button onClick={deleteActiveProfile} className="hover:text-red-400 transition-colors uppercase">
+                     :: Delete ::
+                   </button>
+                 )}
+                 <button onClick={startCalibration} className="hover:text-cyan-400 transition-colors uppercase">
+                   :: Calibrate ::
+                 </button>
+               </div>
+
                <div className="flex flex-col gap-1 mt-2 border-r border-white/20 pr-2">
-                   <p className={isPinching ? 'text-white font-bold' : 'text-gray-500'}>1. PINCH PRIMARY: BUILD</p>
-                   <p className={isDistorting ? 'text-yellow-400 font-bold' : 'text-gray-500'}>2. PINCH SECONDARY: DISTORT</p>
+                   <p className={isPinching ? 'text-white font-bold' : 'text-gray-500'}>1. {GESTURE_LABELS[gestureBindings.construct]} PRIMARY: BUILD</p>
+                   <p className={isDistorting ? 'text-yellow-400 font-bold' : 'text-gray-500'}>2. {GESTURE_LABELS[gestureBindings.distort]} SECONDARY: DISTORT</p>
                    <p className={!isPinching ? 'text-cyan-400 font-bold' : 'text-gray-500'}>3. RELEASE: AUTO-SNAP</p>
+                   <p className="text-gray-500">4. SWIPE SIDEWAYS: CAMERA MODE</p>
+                   <p className={isSteering ? 'text-cyan-400 font-bold' : 'text-gray-500'}>5. BOTH HANDS PINCH: SPREAD ZOOM · TWIST ORBIT</p>
+                   <p className="text-gray-500">6. SWIPE UP/DOWN: DISTORTION EFFECT</p>
+                   {touchSettings.enabled && <p className="text-gray-500">7. INDEX FINGER: {touchSettings.mode.toUpperCase()} PARTICLES</p>}
                </div>
              </div>
           )}
       </div>
 
+      {/* Controls stacked above the hand tracking feed, so none of them overlap */}
+      <div className="absolute bottom-[14.5rem] right-8 z-30 flex flex-col items-end gap-2">
+        {/* Manual Start Button (Error State) */}
+        {permissionError && (
+          <button 
+              onClick={startCamera}
+              className="mb-2 px-6 py-2 bg-red-500/10 border border-red-500/50 text-red-400 text-xs tracking-wider hover:bg-red-500/20 transition-all uppercase backdrop-blur-md"
+          >
+              Retry Connection
+          </button>
+        )}
+
+        {/* Camera Director: click cycles modes, keys 1-5 / C, or swipe sideways */}
+        <div className="flex gap-3 text-[10px] tracking-wider text-white/50 uppercase">
+          <button
+              onClick={() => setSoundSettings({ ...soundSettings, muted: !soundSettings.muted })}
+              title="Mute sound"
+              className="hover:text-cyan-400 transition-colors uppercase"
+          >
+              :: Sound: {soundSettings.muted ? 'Muted' : soundUnlocked ? 'On' : 'Tap to Start'} ::
+          </button>
+          <button
+              onClick={() => stepEffect(1)}
+              title="Distortion effect (E, swipe up/down)"
+              className="hover:text-cyan-400 transition-colors uppercase"
+          >
+              :: Effect: {EFFECTS[distortionSettings.effect].label} ::
+          </button>
+          <button
+              onClick={() => setAutoCuts(!autoCuts)}
+              title="Cut to a new shot on construction and distortion"
+              className={`transition-colors uppercase ${autoCuts ? 'text-cyan-400' : 'hover:text-cyan-400'}`}
+          >
+              :: Auto Cuts: {autoCuts ? 'On' : 'Off'} ::
+          </button>
+          <button
+              onClick={() => selectCameraMode(cycleCameraMode(cameraMode))}
+              title="Camera mode (1-5, C)"
+              className="hover:text-cyan-400 transition-colors uppercase"
+          >
+              :: Camera: {getCameraMode(cameraMode).label} ::
+          </button>
+        </div>
+
+        {/* Render Quality: click cycles Auto -> fixed tiers */}
+        <button
+            onClick={cycleQuality}
+            title="Render quality"
+            className="text-[10px] tracking-wider text-white/50 hover:text-cyan-400 transition-colors uppercase"
+        >
+            :: Quality: {qualitySetting === 'auto' ? `Auto (${activeTier.id})` : activeTier.id} ::
+        </button>
+      </div>
+
       {/* Floating HUD: Hand Tracking Feed */}
       <div className={`absolute bottom-8 right-8 z-30 w-64 h-48 bg-gray-900/90 border rounded-sm backdrop-blur-md shadow-2xl overflow-hidden transition-colors duration-300 ${isPinching ? 'border-pink-500/50 shadow-[0_0_20px_rgba(236,72,153,0.2)]' : isDistorting ? 'border-yellow-400/50 shadow-[0_0_20px_rgba(250,204,21,0.2)]' : 'border-cyan-500/30'}`}>
          
@@ -344,14 +1297,142 @@ const App: React.FC = () => {
          </div>
       </div>
 
-      {/* Manual Start Button (Error State) */}
-      {permissionError && (
-        <button 
-            onClick={startCamera}
-            className="absolute bottom-60 right-8 z-40 px-6 py-2 bg-red-500/10 border border-red-500/50 text-red-400 text-xs tracking-wider hover:bg-red-500/20 transition-all uppercase backdrop-blur-md"
-        >
-            Retry Connection
-        </button>
+      {/* Config Drawer */}
+      <div className={`absolute top-0 left-0 h-full z-40 p-6 space-y-4 overflow-y-auto transition-transform duration-300 ${panelOpen ? 'translate-x-0' : '-translate-x-full'}`}>
+        <UI config={editedConfig} onConfigChange={handleConfigChange} onConfigPatch={handleConfigPatch} />
+        <GardenPanel
+          garden={garden}
+          baseConfig={config}
+          selected={selectedFlower}
+          onChange={setGarden}
+          onSelect={setSelectedFlower}
+        />
+        <BudgetPanel
+          budget={particleBudget}
+          flowers={garden.enabled ? garden.flowers.length : 1}
+          onChange={setParticleBudget}
+        />
+        <CapturePanel
+          status={captureStatus}
+          videoRecording={videoRecording}
+          onStill={takeStill}
+          onToggleVideo={toggleVideo}
+          onRecordBuild={recordFullBuild}
+          onExportPoints={exportPoints}
+        />
+        <DistortionPanel settings={distortionSettings} onChange={setDistortionSettings} />
+        <TouchPanel settings={touchSettings} onChange={setTouchSettings} />
+        <GestureBindingsPanel bindings={gestureBindings} onChange={setGestureBindings} />
+        <HandFilterPanel settings={handFilter} onChange={setHandFilter} />
+        <ConstructionPanel settings={constructionSettings} onChange={setConstructionSettings} />
+        <PostProcessingPanel settings={postSettings} available={activeTier.postProcessing} onChange={setPostSettings} />
+        <SoundPanel settings={soundSettings} unlocked={soundUnlocked} onChange={setSoundSettings} />
+        <AudioPanel
+          source={audioSource}
+          levels={audioLevels}
+          routes={audioRoutes}
+          error={audioError}
+          onMicrophone={() => startAudio((analyzer) => analyzer.useMicrophone())}
+          onFile={(file) => startAudio((analyzer) => analyzer.useFile(file))}
+          onStop={stopAudio}
+          onRoutesChange={setAudioRoutes}
+        />
+        <SequencePanel
+          status={sequenceStatus}
+          error={sequenceError}
+          onLoadFile={loadSequenceFile}
+          onLoadDemo={() => loadSequence(DEMO_SEQUENCE)}
+          onExport={exportSequence}
+          onTogglePlay={toggleSequencePlayback}
+          onSeek={seekSequence}
+          onToggleLoop={toggleSequenceLoop}
+          onToggleAutopilot={toggleAutopilot}
+          onStop={unloadSequence}
+        />
+        <PresetPanel config={editedConfig} defaultConfig={CINEMATIC_CONFIG} onApply={applyConfig} />
+      </div>
+      <button
+          onClick={copyLink}
+          className={`absolute bottom-20 left-8 z-50 px-4 py-2 border text-[10px] tracking-widest uppercase backdrop-blur-md transition-colors ${linkCopied ? 'border-green-500/50 text-green-400 bg-green-500/10' : 'border-white/20 text-white/60 bg-black/40 hover:text-cyan-400 hover:border-cyan-400/50'}`}
+      >
+          {linkCopied ? ':: Link Copied ::' : ':: Copy Link ::'}
+      </button>
+      <button
+          onClick={() => setPanelOpen(!panelOpen)}
+          className={`absolute bottom-8 left-8 z-50 px-4 py-2 border text-[10px] tracking-widest uppercase backdrop-blur-md transition-colors ${panelOpen ? 'border-pink-500/50 text-pink-400 bg-pink-500/10' : 'border-white/20 text-white/60 bg-black/40 hover:text-cyan-400 hover:border-cyan-400/50'}`}
+      >
+          {panelOpen ? ':: Close Config ::' : ':: Config ::'}
+      </button>
+
+      {/* Landmark Recorder & Replay Deck */}
+      <div className="absolute bottom-8 right-[18.5rem] z-30 w-56 bg-gray-900/90 border border-white/10 rounded-sm backdrop-blur-md p-3 space-y-2 text-[9px] tracking-widest text-white/60 uppercase">
+         <div className="flex gap-2">
+            <button
+                onClick={toggleRecording}
+                disabled={loading || permissionError || !!replayStatus}
+                className={`flex-1 px-2 py-1 border transition-colors disabled:opacity-30 ${isRecording ? 'border-red-500 text-red-400 animate-pulse' : 'border-white/20 hover:border-red-500/60 hover:text-red-400'}`}
+            >
+                {isRecording ? '■ Stop & Save' : '● Rec'}
+            </button>
+            <label className="flex-1 px-2 py-1 border border-white/20 hover:border-cyan-400/60 hover:text-cyan-400 transition-colors cursor-pointer text-center">
+                Load Replay
+                <input
+                    type="file"
+                    accept=".ndjson,.json,application/json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) loadReplay(file);
+                      e.target.value = '';
+                    }}
+                />
+            </label>
+         </div>
+
+         {replayStatus && (
+           <div className="space-y-2 border-t border-white/10 pt-2">
+              <div className="flex items-center justify-between">
+                 <button onClick={toggleReplayPlayback} className="text-cyan-400 hover:text-white transition-colors">
+                    {replayStatus.playing ? '❚❚ Pause' : '▶ Play'}
+                 </button>
+                 <span className="font-mono normal-case">
+                    {(replayStatus.time / 1000).toFixed(1)}s / {(replayStatus.duration / 1000).toFixed(1)}s
+                 </span>
+              </div>
+              <input
+                  type="range"
+                  min={0}
+                  max={replayStatus.duration}
+                  step={1}
+                  value={replayStatus.time}
+                  onChange={(e) => seekReplay(parseFloat(e.target.value))}
+                  className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer"
+              />
+              <div className="flex items-center justify-between">
+                 <div className="flex gap-1">
+                    {REPLAY_SPEEDS.map((speed) => (
+                      <button
+                          key={speed}
+                          onClick={() => setReplaySpeed(speed)}
+                          className={replayStatus.speed === speed ? 'text-cyan-400 font-bold' : 'hover:text-white'}
+                      >
+                          {speed}x
+                      </button>
+                    ))}
+                 </div>
+                 <button onClick={stopReplay} className="hover:text-red-400 transition-colors">Exit</button>
+              </div>
+           </div>
+         )}
+      </div>
+
+      {calibrationStatus && (
+        <CalibrationWizard
+          status={calibrationStatus}
+          onSave={saveCalibrationProfile}
+          onRestart={startCalibration}
+          onCancel={closeCalibration}
+        />
       )}
 
     </div>
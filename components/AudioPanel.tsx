@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { AudioFeature, AudioRoute, AudioTarget } from '../types';
+import { AUDIO_FEATURES, AudioFeatures, AudioSourceKind } from '../utils/audioAnalysis';
+import { AUDIO_FEATURE_LABELS, AUDIO_TARGETS, DEFAULT_AUDIO_ROUTES, ROUTE_RANGES, createRouteId } from '../utils/audioRouting';
+import { ControlGroup } from './UI';
+
+export interface AudioSourceStatus {
+  kind: AudioSourceKind;
+  label: string;
+}
+
+interface AudioPanelProps {
+  source: AudioSourceStatus | null;
+  levels: AudioFeatures;
+  routes: AudioRoute[];
+  error: string | null;
+  onMicrophone: () => void;
+  onFile: (file: File) => void;
+  onStop: () => void;
+  onRoutesChange: (routes: AudioRoute[]) => void;
+}
+
+export const AudioPanel: React.FC<AudioPanelProps> = ({
+  source,
+  levels,
+  routes,
+  error,
+  onMicrophone,
+  onFile,
+  onStop,
+  onRoutesChange,
+}) => {
+  const [dragging, setDragging] = useState(false);
+
+  const chip = (active: boolean) =>
+    `px-2 py-1 rounded text-xs transition-colors ${active ? 'bg-gradient-to-r from-pink-500 to-violet-500 text-white' : 'bg-white/5 text-white/60 hover:bg-white/10'}`;
+  const action = 'flex-1 text-center text-xs text-white/50 border border-white/10 rounded py-1 hover:text-white hover:border-white/30 disabled:opacity-30';
+  const select = 'bg-white/5 border border-white/10 rounded px-1 py-0.5 text-xs text-white/80 focus:outline-none';
+
+  const update = (id: string, patch: Partial<AudioRoute>) =>
+    onRoutesChange(routes.map((route) => (route.id === id ? { ...route, ...patch } : route)));
+
+  const addRoute = () =>
+    onRoutesChange([...routes, { id: createRouteId(), source: 'bass', target: 'openness', gain: 1, smoothing: 0.5, enabled: true }]);
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDragging(false);
+        const file = e.dataTransfer.files?.[0];
+        if (file) onFile(file);
+      }}
+      className={`bg-black/60 backdrop-blur-md border p-6 rounded-2xl w-full max-w-sm text-sm shadow-2xl transition-colors ${dragging ? 'border-pink-500/60' : 'border-white/10'}`}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <label className="text-white/80 font-medium">Audio Reactive</label>
+        {source && (
+          <button onClick={onStop} className="text-xs text-white/50 hover:text-red-400 transition-colors">
+            Stop
+          </button>
+        )}
+      </div>
+
+      {/* Source */}
+      <div className="flex gap-2">
+        <button onClick={onMicrophone} className={`${action} ${source?.kind === 'microphone' ? 'text-pink-400 border-pink-500/40' : ''}`}>
+          Microphone
+        </button>
+        <label className={`${action} cursor-pointer ${source?.kind === 'file' ? 'text-pink-400 border-pink-500/40' : ''}`}>
+          Audio File
+          <input
+            type="file"
+            accept="audio/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+      <p className="text-white/30 text-[10px] mt-2 truncate">
+        {source ? `${source.kind === 'file' ? 'Playing' : 'Listening to'}: ${source.label}` : 'Off. Drop an audio file here or pick a source.'}
+      </p>
+
+      {/* Meters */}
+      <div className="grid grid-cols-4 gap-2 mt-3">
+        {AUDIO_FEATURES.map((feature) => (
+          <div key={feature} className="space-y-1">
+            <div className="h-1 bg-white/10 rounded overflow-hidden">
+              <div className="h-full bg-gradient-to-r from-pink-500 to-violet-500" style={{ width: `${Math.min(1, levels[feature]) * 100}%` }} />
+            </div>
+            <p className="text-white/40 text-[10px] text-center uppercase">{AUDIO_FEATURE_LABELS[feature]}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Routing Table */}
+      <div className="flex items-center justify-between mt-4 pt-4 border-t border-white/10">
+        <label className="text-white/80">Routing</label>
+        <div className="flex gap-3">
+          <button onClick={addRoute} className="text-xs text-white/50 hover:text-pink-400 transition-colors">
+            Add
+          </button>
+          <button
+            onClick={() => onRoutesChange(DEFAULT_AUDIO_ROUTES.map((route) => ({ ...route })))}
+            className="text-xs text-white/50 hover:text-pink-400 transition-colors"
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+      <div className="space-y-4 mt-3 max-h-72 overflow-y-auto pr-1">
+        {routes.length === 0 && <p className="text-white/30 text-xs">No routes; audio drives nothing.</p>}
+        {routes.map((route) => (
+          <div key={route.id} className={`space-y-2 ${route.enabled ? '' : 'opacity-50'}`}>
+            <div className="flex items-center gap-1">
+              <select value={route.source} onChange={(e) => update(route.id, { source: e.target.value as AudioFeature })} className={select}>
+                {AUDIO_FEATURES.map((feature) => (
+                  <option key={feature} value={feature}>{AUDIO_FEATURE_LABELS[feature]}</option>
+                ))}
+              </select>
+              <span className="text-white/30 text-xs">→</span>
+              <select value={route.target} onChange={(e) => update(route.id, { target: e.target.value as AudioTarget })} className={`${select} flex-1`}>
+                {AUDIO_TARGETS.map((target) => (
+                  <option key={target.id} value={target.id}>{target.label}</option>
+                ))}
+              </select>
+              <button onClick={() => update(route.id, { enabled: !route.enabled })} className={chip(route.enabled)}>
+                {route.enabled ? 'On' : 'Off'}
+              </button>
+              <button
+                onClick={() => onRoutesChange(routes.filter((r) => r.id !== route.id))}
+                className="text-[10px] text-white/30 hover:text-red-400 px-1"
+              >
+                Delete
+              </button>
+            </div>
+            <ControlGroup label="Gain" value={route.gain} {...ROUTE_RANGES.gain} digits={2} onChange={(v) => update(route.id, { gain: v })} />
+            <ControlGroup label="Smoothing" value={route.smoothing} {...ROUTE_RANGES.smoothing} digits={2} onChange={(v) => update(route.id, { smoothing: v })} />
+          </div>
+        ))}
+      </div>
+      {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { ParticleBudget } from '../types';
+import { BUDGET_RANGES, DEFAULT_PARTICLE_BUDGET, budgetCounts } from '../utils/particleBudget';
+import { ControlGroup } from './UI';
+
+interface BudgetPanelProps {
+  budget: ParticleBudget;
+  // Garden flowers split the total between them
+  flowers: number;
+  onChange: (budget: ParticleBudget) => void;
+}
+
+const PARTS: { key: Exclude<keyof ParticleBudget, 'total'>; label: string }[] = [
+  { key: 'head', label: 'Head Weight' },
+  { key: 'stem', label: 'Stem Weight' },
+  { key: 'leaves', label: 'Leaf Weight' },
+];
+
+export const BudgetPanel: React.FC<BudgetPanelProps> = ({ budget, flowers, onChange }) => {
+  const counts = budgetCounts(budget, flowers);
+
+  return (
+    <div className="bg-black/60 backdrop-blur-md border border-white/10 p-6 rounded-2xl w-full max-w-sm text-sm shadow-2xl">
+      <div className="flex items-center justify-between mb-4">
+        <label className="text-white/80 font-medium">Particle Budget</label>
+        <button
+          onClick={() => onChange({ ...DEFAULT_PARTICLE_BUDGET })}
+          className="text-xs text-white/50 hover:text-pink-400 transition-colors"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="space-y-5">
+        <ControlGroup
+          label="Total Particles"
+          value={budget.total}
+          {...BUDGET_RANGES.total}
+          digits={0}
+          onChange={(v) => onChange({ ...budget, total: v })}
+        />
+        {PARTS.map(({ key, label }) => (
+          <ControlGroup
+            key={key}
+            label={label}
+            value={budget[key]}
+            {...BUDGET_RANGES[key]}
+            digits={0}
+            onChange={(v) => onChange({ ...budget, [key]: v })}
+          />
+        ))}
+        <p className="text-white/40 font-mono text-[10px]">
+          {flowers > 1 ? 'PER FLOWER · ' : ''}HEAD {counts.head.toLocaleString()} · STEM {counts.stem.toLocaleString()} · LEAVES {counts.leaves.toLocaleString()}
+        </p>
+      </div>
+    </div>
+  );
+};
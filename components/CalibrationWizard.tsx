@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { CALIBRATION_STEPS, CalibrationStatus } from '../utils/calibration';
+
+interface CalibrationWizardProps {
+  status: CalibrationStatus;
+  onSave: (name: string) => void;
+  onRestart: () => void;
+  onCancel: () => void;
+}
+
+export const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ status, onSave, onRestart, onCancel }) => {
+  const [name, setName] = useState('');
+  const step = CALIBRATION_STEPS[status.step];
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/40 pointer-events-auto">
+      <div className="bg-black/60 backdrop-blur-md border border-white/10 p-6 rounded-2xl w-full max-w-sm text-sm shadow-2xl space-y-4">
+        <div className="flex items-center justify-between">
+          <label className="text-white/80 font-medium">Gesture Calibration</label>
+          <span className="text-xs text-white/40">
+            {Math.min(status.step + 1, CALIBRATION_STEPS.length)} / {CALIBRATION_STEPS.length}
+          </span>
+        </div>
+
+        {step ? (
+          <>
+            <div className="space-y-1">
+              <p className="text-pink-400 font-bold tracking-wider uppercase text-xs">{step.title}</p>
+              <p className="text-white/70">{step.instruction}</p>
+            </div>
+            <div className="h-1 w-full bg-white/10 rounded">
+              <div
+                className="h-1 bg-gradient-to-r from-pink-500 to-violet-500 rounded transition-[width] duration-100"
+                style={{ width: `${status.progress * 100}%` }}
+              />
+            </div>
+            <p className="text-xs text-white/40">
+              {status.handVisible ? 'Hold still...' : 'No hand in view. Step into the camera frame.'}
+            </p>
+          </>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-white/70">Done. Name this profile to save it.</p>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Profile name"
+              maxLength={32}
+              className="w-full bg-white/5 border border-white/10 rounded px-2 py-1 text-white placeholder-white/30"
+            />
+            <button
+              onClick={() => onSave(name)}
+              className="px-3 py-1 rounded text-xs bg-gradient-to-r from-pink-500 to-violet-500 text-white"
+            >
+              Save Profile
+            </button>
+          </div>
+        )}
+
+        <div className="flex gap-4">
+          <button onClick={onRestart} className="text-xs text-white/50 hover:text-pink-400 transition-colors">
+            Start Over
+          </button>
+          <button onClick={onCancel} className="text-xs text-white/50 hover:text-pink-400 transition-colors">
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
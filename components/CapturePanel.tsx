@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { BuildRecordingOptions, DEFAULT_BUILD_RECORDING, STILL_PRESETS, StillOptions, pickVideoType } from '../utils/capture';
+import { POINT_CLOUD_FORMATS, PointCloudFormat } from '../utils/pointCloudExport';
+
+interface CapturePanelProps {
+  // What the capture tools are doing right now, if anything
+  status: string | null;
+  videoRecording: boolean;
+  onStill: (options: Partial<StillOptions>) => void;
+  onToggleVideo: () => void;
+  onRecordBuild: (options: Partial<BuildRecordingOptions>) => void;
+  onExportPoints: (format: PointCloudFormat) => void;
+}
+
+const BUILD_DURATIONS = [4, 6, 10];
+
+export const CapturePanel: React.FC<CapturePanelProps> = ({
+  status,
+  videoRecording,
+  onStill,
+  onToggleVideo,
+  onRecordBuild,
+  onExportPoints,
+}) => {
+  const [presetId, setPresetId] = useState<string>('4k');
+  const [transparent, setTransparent] = useState(false);
+  const [raw, setRaw] = useState(false);
+  const [duration, setDuration] = useState(DEFAULT_BUILD_RECORDING.duration);
+  const videoSupported = pickVideoType() !== null;
+  const busy = status !== null && !videoRecording;
+
+  const chip = (active: boolean) =>
+    `px-2 py-1 rounded text-xs transition-colors ${active ? 'bg-gradient-to-r from-pink-500 to-violet-500 text-white' : 'bg-white/5 text-white/60 hover:bg-white/10'}`;
+  const action = 'flex-1 text-xs text-white/50 border border-white/10 rounded py-1 hover:text-white hover:border-white/30 disabled:opacity-30';
+
+  const takeStill = () => {
+    const preset = STILL_PRESETS.find((p) => p.id === presetId) ?? STILL_PRESETS[0];
+    onStill({ width: preset.width, height: preset.height, transparent, raw });
+  };
+
+  return (
+    <div className="bg-black/60 backdrop-blur-md border border-white/10 p-6 rounded-2xl w-full max-w-sm text-sm shadow-2xl">
+      <label className="text-white/80 font-medium">Capture</label>
+
+      <div className="space-y-4 mt-4">
+        {/* Still */}
+        <div className="space-y-2">
+          <label className="text-white/80">Still Size</label>
+          <div className="flex flex-wrap gap-1">
+            {STILL_PRESETS.map((preset) => (
+              <button key={preset.id} onClick={() => setPresetId(preset.id)} className={chip(presetId === preset.id)}>
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-xs text-white/60 cursor-pointer">
+            <input type="checkbox" checked={transparent} onChange={(e) => setTransparent(e.target.checked)} />
+            Transparent background
+          </label>
+          <label className="flex items-center gap-2 text-xs text-white/60 cursor-pointer">
+            <input type="checkbox" checked={raw || transparent} disabled={transparent} onChange={(e) => setRaw(e.target.checked)} />
+            Raw (skip bloom + screen effects)
+          </label>
+          <button onClick={takeStill} disabled={busy || videoRecording} className={`${action} w-full`}>
+            Save PNG
+          </button>
+        </div>
+
+        {/* Video */}
+        <div className="space-y-2 pt-4 border-t border-white/10">
+          <label className="text-white/80">Video (WebM)</label>
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-white/50">Build length</span>
+            <div className="flex gap-1">
+              {BUILD_DURATIONS.map((seconds) => (
+                <button key={seconds} onClick={() => setDuration(seconds)} className={chip(duration === seconds)}>
+                  {seconds}s
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={onToggleVideo} disabled={!videoSupported || busy} className={action}>
+              {videoRecording ? 'Stop Recording' : 'Record'}
+            </button>
+            <button onClick={() => onRecordBuild({ duration })} disabled={!videoSupported || busy || videoRecording} className={action}>
+              Record Full Build
+            </button>
+          </div>
+          {!videoSupported && <p className="text-white/30 text-xs">This browser cannot record WebM.</p>}
+        </div>
+
+        {/* Point Cloud */}
+        <div className="space-y-2 pt-4 border-t border-white/10">
+          <label className="text-white/80">Point Cloud</label>
+          <p className="text-white/30 text-xs">The flower as it looks right now, distortion included.</p>
+          <div className="flex gap-2">
+            {POINT_CLOUD_FORMATS.map((format) => (
+              <button key={format.id} onClick={() => onExportPoints(format.id)} disabled={busy} className={action}>
+                {format.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {status && <p className="text-cyan-400 text-xs">{status}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React from 'react';
+import { ConstructionSettings } from '../types';
+import {
+  DEFAULT_CONSTRUCTION_SETTINGS,
+  EMITTER_COUNT_RANGE,
+  EMITTER_LAYOUTS,
+  FLY_IN_EASINGS,
+  SCAN_MODES,
+} from '../utils/construction';
+import { ControlGroup } from './UI';
+
+interface ConstructionPanelProps {
+  settings: ConstructionSettings;
+  onChange: (settings: ConstructionSettings) => void;
+}
+
+export const ConstructionPanel: React.FC<ConstructionPanelProps> = ({ settings, onChange }) => {
+  const chip = (active: boolean) =>
+    `px-2 py-1 rounded text-xs transition-colors ${active ? 'bg-gradient-to-r from-pink-500 to-violet-500 text-white' : 'bg-white/5 text-white/60 hover:bg-white/10'}`;
+
+  return (
+    <div className="bg-black/60 backdrop-blur-md border border-white/10 p-6 rounded-2xl w-full max-w-sm text-sm shadow-2xl">
+      <div className="flex items-center justify-between mb-4">
+        <label className="text-white/80 font-medium">Construction</label>
+        <button
+          onClick={() => onChange({ ...DEFAULT_CONSTRUCTION_SETTINGS })}
+          className="text-xs text-white/50 hover:text-pink-400 transition-colors"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <label className="text-white/80">Scan</label>
+          <div className="flex flex-wrap gap-1">
+            {SCAN_MODES.map((mode) => (
+              <button key={mode.id} onClick={() => onChange({ ...settings, scanMode: mode.id })} className={chip(settings.scanMode === mode.id)}>
+                {mode.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-white/80">Emitters</label>
+          <div className="flex flex-wrap gap-1">
+            {EMITTER_LAYOUTS.map((layout) => (
+              <button
+                key={layout.id}
+                onClick={() => onChange({ ...settings, emitterLayout: layout.id })}
+                className={chip(settings.emitterLayout === layout.id)}
+              >
+                {layout.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <ControlGroup
+          label="Emitter Count"
+          value={settings.emitterCount}
+          {...EMITTER_COUNT_RANGE}
+          digits={0}
+          onChange={(v) => onChange({ ...settings, emitterCount: v })}
+        />
+
+        <div className="space-y-2">
+          <label className="text-white/80">Fly-in</label>
+          <div className="flex flex-wrap gap-1">
+            {FLY_IN_EASINGS.map((easing) => (
+              <button key={easing.id} onClick={() => onChange({ ...settings, easing: easing.id })} className={chip(settings.easing === easing.id)}>
+                {easing.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <label className="text-white/80">Beam Color</label>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-white/50">{settings.beamColor}</span>
+            <input
+              type="color"
+              value={settings.beamColor}
+              onChange={(e) => onChange({ ...settings, beamColor: e.target.value })}
+              className="w-8 h-8 rounded-full border-none cursor-pointer bg-transparent"
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import { DistortionEffectId, DistortionSettings } from '../types';
+import { EFFECTS, EFFECT_IDS } from '../effects';
+import { DEFAULT_DISTORTION_SETTINGS, DISTORTION_RANGES } from '../utils/distortionEffects';
+import { ControlGroup } from './UI';
+
+interface DistortionPanelProps {
+  settings: DistortionSettings;
+  onChange: (settings: DistortionSettings) => void;
+}
+
+export const DistortionPanel: React.FC<DistortionPanelProps> = ({ settings, onChange }) => {
+  const effect = EFFECTS[settings.effect];
+
+  const setParam = (index: number, value: number) => {
+    const values = [...settings.params[settings.effect]];
+    values[index] = value;
+    onChange({ ...settings, params: { ...settings.params, [settings.effect]: values } });
+  };
+
+  const selectEffect = (id: DistortionEffectId) =>
+    onChange({ ...settings, effect: id, blendWith: settings.blendWith === id ? null : settings.blendWith });
+
+  const chip = (active: boolean) =>
+    `px-2 py-1 rounded text-xs transition-colors ${active ? 'bg-gradient-to-r from-pink-500 to-violet-500 text-white' : 'bg-white/5 text-white/60 hover:bg-white/10'}`;
+
+  return (
+    <div className="bg-black/60 backdrop-blur-md border border-white/10 p-6 rounded-2xl w-full max-w-sm text-sm shadow-2xl">
+      <div className="flex items-center justify-between mb-4">
+        <label className="text-white/80 font-medium">Distortion Effect</label>
+        <button
+          onClick={() => onChange({ ...DEFAULT_DISTORTION_SETTINGS })}
+          className="text-xs text-white/50 hover:text-pink-400 transition-colors"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex flex-wrap gap-1">
+          {EFFECT_IDS.map((id) => (
+            <button key={id} onClick={() => selectEffect(id)} className={chip(settings.effect === id)}>
+              {EFFECTS[id].label}
+            </button>
+          ))}
+        </div>
+
+        {/* Tunables of the selected effect */}
+        {effect.params.map((param, i) => (
+          <ControlGroup
+            key={`${effect.id}-${i}`}
+            label={param.label}
+            value={settings.params[settings.effect][i]}
+            {...param}
+            digits={2}
+            onChange={(v) => setParam(i, v)}
+          />
+        ))}
+
+        {/* Hold a mix of two effects */}
+        <div className="space-y-2">
+          <label className="text-white/80">Blend With</label>
+          <div className="flex flex-wrap gap-1">
+            <button onClick={() => onChange({ ...settings, blendWith: null })} className={chip(settings.blendWith === null)}>
+              None
+            </button>
+            {EFFECT_IDS.filter((id) => id !== settings.effect).map((id) => (
+              <button key={id} onClick={() => onChange({ ...settings, blendWith: id })} className={chip(settings.blendWith === id)}>
+                {EFFECTS[id].label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {settings.blendWith && (
+          <ControlGroup
+            label={`Blend (${EFFECTS[settings.blendWith].label})`}
+            value={settings.blend}
+            {...DISTORTION_RANGES.blend}
+            digits={2}
+            onChange={(v) => onChange({ ...settings, blend: v })}
+          />
+        )}
+
+        <ControlGroup
+          label="Crossfade (s)"
+          value={settings.crossfade}
+          {...DISTORTION_RANGES.crossfade}
+          digits={1}
+          onChange={(v) => onChange({ ...settings, crossfade: v })}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React from 'react';
+import { GardenBuildMode, GardenSettings, RoseConfig } from '../types';
+import { GARDEN_LAYOUTS, MAX_GARDEN_FLOWERS, createGardenFlower } from '../utils/garden';
+
+interface GardenPanelProps {
+  garden: GardenSettings;
+  // Template for new flowers
+  baseConfig: RoseConfig;
+  selected: number;
+  onChange: (garden: GardenSettings) => void;
+  onSelect: (index: number) => void;
+}
+
+const BUILD_MODES: { id: GardenBuildMode; label: string }[] = [
+  { id: 'together', label: 'All Together' },
+  { id: 'nearest', label: 'One by One' },
+];
+
+const DEFAULT_GARDEN_SIZE = 4;
+
+export const GardenPanel: React.FC<GardenPanelProps> = ({ garden, baseConfig, selected, onChange, onSelect }) => {
+  const resize = (count: number) => {
+    const flowers = garden.flowers.slice(0, count);
+    while (flowers.length < count) flowers.push(createGardenFlower(baseConfig, flowers.length));
+    onChange({ ...garden, flowers });
+    if (selected >= count) onSelect(count - 1);
+  };
+
+  const toggle = () => {
+    if (!garden.enabled && garden.flowers.length === 0) {
+      const flowers = Array.from({ length: DEFAULT_GARDEN_SIZE }, (_, i) => createGardenFlower(baseConfig, i));
+      onChange({ ...garden, enabled: true, flowers });
+      onSelect(0);
+    } else {
+      onChange({ ...garden, enabled: !garden.enabled });
+    }
+  };
+
+  const chip = (active: boolean) =>
+    `px-2 py-1 rounded text-xs transition-colors capitalize ${active ? 'bg-gradient-to-r from-pink-500 to-violet-500 text-white' : 'bg-white/5 text-white/60 hover:bg-white/10'}`;
+
+  return (
+    <div className="bg-black/60 backdrop-blur-md border border-white/10 p-6 rounded-2xl w-full max-w-sm text-sm shadow-2xl">
+      <div className="flex items-center justify-between">
+        <label className="text-white/80 font-medium">Garden Mode</label>
+        <button onClick={toggle} className={chip(garden.enabled)}>
+          {garden.enabled ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      {garden.enabled && (
+        <div className="space-y-4 mt-4">
+          {/* Flower Count */}
+          <div className="flex items-center justify-between">
+            <label className="text-white/80">Flowers</label>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => resize(garden.flowers.length - 1)}
+                disabled={garden.flowers.length <= 1}
+                className="w-6 h-6 rounded bg-white/5 text-white/60 hover:bg-white/10 disabled:opacity-30"
+              >
+                −
+              </button>
+              <span className="text-white/50 font-mono text-xs w-4 text-center">{garden.flowers.length}</span>
+              <button
+                onClick={() => resize(garden.flowers.length + 1)}
+                disabled={garden.flowers.length >= MAX_GARDEN_FLOWERS}
+                className="w-6 h-6 rounded bg-white/5 text-white/60 hover:bg-white/10 disabled:opacity-30"
+              >
+                +
+              </button>
+            </div>
+          </div>
+
+          {/* Layout */}
+          <div className="space-y-2">
+            <label className="text-white/80">Layout</label>
+            <div className="flex flex-wrap gap-1">
+              {GARDEN_LAYOUTS.map((layout) => (
+                <button key={layout} onClick={() => onChange({ ...garden, layout })} className={chip(garden.layout === layout)}>
+                  {layout}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Build Mode */}
+          <div className="space-y-2">
+            <label className="text-white/80">Construct</label>
+            <div className="flex flex-wrap gap-1">
+              {BUILD_MODES.map((mode) => (
+                <button key={mode.id} onClick={() => onChange({ ...garden, buildMode: mode.id })} className={chip(garden.buildMode === mode.id)}>
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Which flower the config panel edits */}
+          <div className="space-y-2">
+            <label className="text-white/80">Editing Flower</label>
+            <div className="flex flex-wrap gap-1">
+              {garden.flowers.map((flower, i) => (
+                <button
+                  key={i}
+                  onClick={() => onSelect(i)}
+                  className={`w-6 h-6 rounded-full border-2 transition-transform ${selected === i ? 'border-white scale-110' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                  style={{ backgroundColor: flower.color }}
+                  title={`Flower ${i + 1}`}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
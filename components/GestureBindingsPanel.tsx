@@ -0,0 +1,60 @@
+import React from 'react';
+import { GestureBindings, HandRole, HeldGesture } from '../types';
+import { HELD_GESTURES } from '../utils/gestures';
+import { DEFAULT_GESTURE_BINDINGS } from '../utils/handController';
+
+interface GestureBindingsPanelProps {
+  bindings: GestureBindings;
+  onChange: (bindings: GestureBindings) => void;
+}
+
+const ROLES: { id: HandRole; label: string }[] = [
+  { id: 'construct', label: 'Build (primary hand)' },
+  { id: 'distort', label: 'Distort (secondary hand)' },
+];
+
+const GESTURE_NAMES: Record<HeldGesture, string> = {
+  pinch: 'Pinch',
+  fist: 'Fist',
+  openPalm: 'Open Palm',
+  point: 'Point',
+};
+
+export const GestureBindingsPanel: React.FC<GestureBindingsPanelProps> = ({ bindings, onChange }) => {
+  const chip = (active: boolean) =>
+    `px-2 py-1 rounded text-xs transition-colors ${active ? 'bg-gradient-to-r from-pink-500 to-violet-500 text-white' : 'bg-white/5 text-white/60 hover:bg-white/10'}`;
+
+  return (
+    <div className="bg-black/60 backdrop-blur-md border border-white/10 p-6 rounded-2xl w-full max-w-sm text-sm shadow-2xl">
+      <div className="flex items-center justify-between mb-4">
+        <label className="text-white/80 font-medium">Gesture Bindings</label>
+        <button
+          onClick={() => onChange({ ...DEFAULT_GESTURE_BINDINGS })}
+          className="text-xs text-white/50 hover:text-pink-400 transition-colors"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        {ROLES.map((role) => (
+          <div key={role.id} className="space-y-2">
+            <label className="text-white/80">{role.label}</label>
+            <div className="flex flex-wrap gap-1">
+              {HELD_GESTURES.map((gesture) => (
+                <button
+                  key={gesture}
+                  onClick={() => onChange({ ...bindings, [role.id]: gesture })}
+                  className={chip(bindings[role.id] === gesture)}
+                >
+                  {GESTURE_NAMES[gesture]}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+        <p className="text-xs text-white/40">Pinching with both hands at once grabs the camera instead.</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { HandFilterSettings } from '../types';
+import { DEFAULT_HAND_FILTER_SETTINGS, HAND_FILTER_RANGES } from '../utils/landmarkFilter';
+import { ControlGroup } from './UI';
+
+interface HandFilterPanelProps {
+  settings: HandFilterSettings;
+  onChange: (settings: HandFilterSettings) => void;
+}
+
+export const HandFilterPanel: React.FC<HandFilterPanelProps> = ({ settings, onChange }) => {
+  const chip = (active: boolean) =>
+    `px-2 py-1 rounded text-xs transition-colors ${active ? 'bg-gradient-to-r from-pink-500 to-violet-500 text-white' : 'bg-white/5 text-white/60 hover:bg-white/10'}`;
+
+  return (
+    <div className="bg-black/60 backdrop-blur-md border border-white/10 p-6 rounded-2xl w-full max-w-sm text-sm shadow-2xl">
+      <div className="flex items-center justify-between">
+        <label className="text-white/80 font-medium">Hand Smoothing</label>
+        <button onClick={() => onChange({ ...settings, enabled: !settings.enabled })} className={chip(settings.enabled)}>
+          {settings.enabled ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      {settings.enabled && (
+        <div className="space-y-4 mt-4">
+          <ControlGroup
+            label="Min Cutoff (Hz)"
+            value={settings.minCutoff}
+            {...HAND_FILTER_RANGES.minCutoff}
+            digits={1}
+            onChange={(v) => onChange({ ...settings, minCutoff: v })}
+          />
+          <ControlGroup
+            label="Speed Response (Beta)"
+            value={settings.beta}
+            {...HAND_FILTER_RANGES.beta}
+            digits={1}
+            onChange={(v) => onChange({ ...settings, beta: v })}
+          />
+          <p className="text-xs text-white/40">Lower cutoff steadies a still hand; higher beta keeps fast moves from lagging.</p>
+          <button
+            onClick={() => onChange({ ...DEFAULT_HAND_FILTER_SETTINGS })}
+            className="text-xs text-white/50 hover:text-pink-400 transition-colors"
+          >
+            Reset
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import { PostEffectId, PostProcessingSettings } from '../types';
+import { DEFAULT_POST_PROCESSING_SETTINGS, POST_EFFECTS } from '../utils/postProcessing';
+import { ControlGroup } from './UI';
+
+interface PostProcessingPanelProps {
+  settings: PostProcessingSettings;
+  // False on quality tiers that skip post processing
+  available: boolean;
+  onChange: (settings: PostProcessingSettings) => void;
+}
+
+export const PostProcessingPanel: React.FC<PostProcessingPanelProps> = ({ settings, available, onChange }) => {
+  const chip = (active: boolean) =>
+    `px-2 py-1 rounded text-xs transition-colors ${active ? 'bg-gradient-to-r from-pink-500 to-violet-500 text-white' : 'bg-white/5 text-white/60 hover:bg-white/10'}`;
+
+  const setEffect = (id: PostEffectId, patch: Partial<PostProcessingSettings['effects'][PostEffectId]>) =>
+    onChange({ ...settings, effects: { ...settings.effects, [id]: { ...settings.effects[id], ...patch } } });
+
+  return (
+    <div className="bg-black/60 backdrop-blur-md border border-white/10 p-6 rounded-2xl w-full max-w-sm text-sm shadow-2xl">
+      <div className="flex items-center justify-between">
+        <label className="text-white/80 font-medium">Post Processing</label>
+        <button onClick={() => onChange({ ...settings, enabled: !settings.enabled })} className={chip(settings.enabled)}>
+          {settings.enabled ? 'On' : 'Off'}
+        </button>
+      </div>
+      {settings.enabled && !available && (
+        <p className="text-xs text-white/40 mt-2">Paused on this quality tier.</p>
+      )}
+
+      {settings.enabled && (
+        <div className="space-y-4 mt-4">
+          {POST_EFFECTS.map((effect) => {
+            const current = settings.effects[effect.id];
+            return (
+              <div key={effect.id} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="text-white/80">{effect.label}</label>
+                  <button onClick={() => setEffect(effect.id, { enabled: !current.enabled })} className={chip(current.enabled)}>
+                    {current.enabled ? 'On' : 'Off'}
+                  </button>
+                </div>
+                {current.enabled && (
+                  <ControlGroup
+                    label={effect.intensityLabel}
+                    value={current.intensity}
+                    {...effect.range}
+                    digits={2}
+                    onChange={(v) => setEffect(effect.id, { intensity: v })}
+                  />
+                )}
+              </div>
+            );
+          })}
+          <p className="text-xs text-white/40">Aberration and RGB split follow the distortion level.</p>
+          <button
+            onClick={() => onChange(DEFAULT_POST_PROCESSING_SETTINGS)}
+            className="text-xs text-white/50 hover:text-pink-400 transition-colors"
+          >
+            Reset
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
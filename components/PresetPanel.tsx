@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { ConfigPreset, RoseConfig } from '../types';
+import { createPresetId, exportPresets, importPresets, loadPresets, savePresets } from '../utils/presets';
+
+interface PresetPanelProps {
+  config: RoseConfig;
+  defaultConfig: RoseConfig;
+  onApply: (config: RoseConfig) => void;
+}
+
+export const PresetPanel: React.FC<PresetPanelProps> = ({ config, defaultConfig, onApply }) => {
+  const [presets, setPresets] = useState<ConfigPreset[]>(() => loadPresets(defaultConfig));
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Persist every change
+  useEffect(() => {
+    savePresets(presets);
+  }, [presets]);
+
+  const saveCurrent = () => {
+    const name = newName.trim() || `Preset ${presets.length + 1}`;
+    setPresets([...presets, { id: createPresetId(), name, config: { ...config } }]);
+    setNewName('');
+  };
+
+  const commitRename = () => {
+    const name = editingName.trim();
+    if (editingId && name) {
+      setPresets(presets.map((p) => (p.id === editingId ? { ...p, name } : p)));
+    }
+    setEditingId(null);
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportPresets(presets)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'flora-presets.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = importPresets(await file.text(), defaultConfig);
+      setPresets([...presets, ...imported]);
+      setError(null);
+    } catch (err) {
+      console.warn("Could not import presets:", err);
+      setError('Import failed: not a preset file');
+    }
+  };
+
+  return (
+    <div className="bg-black/60 backdrop-blur-md border border-white/10 p-6 rounded-2xl w-full max-w-sm text-sm shadow-2xl">
+      <div className="flex items-center justify-between mb-4">
+        <label className="text-white/80 font-medium">Presets</label>
+        <button
+          onClick={() => onApply({ ...defaultConfig })}
+          className="text-xs text-white/50 hover:text-pink-400 transition-colors"
+        >
+          Reset to Cinematic
+        </button>
+      </div>
+
+      {/* Save Current */}
+      <div className="flex gap-2 mb-4">
+        <input
+          type="text"
+          value={newName}
+          placeholder="Preset name"
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && saveCurrent()}
+          className="flex-1 bg-white/5 border border-white/10 rounded px-2 py-1 text-xs text-white placeholder-white/30 focus:outline-none focus:ring-2 focus:ring-pink-500/50"
+        />
+        <button
+          onClick={saveCurrent}
+          className="px-3 py-1 text-xs rounded bg-gradient-to-r from-pink-500 to-violet-500 text-white hover:opacity-90"
+        >
+          Save
+        </button>
+      </div>
+
+      {/* Preset List */}
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {presets.length === 0 && <p className="text-white/30 text-xs">No saved presets yet.</p>}
+        {presets.map((preset) => (
+          <div key={preset.id} className="flex items-center gap-2 group">
+            <span
+              className="w-3 h-3 rounded-full shrink-0"
+              style={{ backgroundColor: preset.config.color }}
+            />
+            {editingId === preset.id ? (
+              <input
+                autoFocus
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="flex-1 bg-white/5 border border-white/10 rounded px-1 text-xs text-white focus:outline-none"
+              />
+            ) : (
+              <button
+                onClick={() => onApply({ ...preset.config })}
+                className="flex-1 text-left text-xs text-white/70 hover:text-white truncate"
+              >
+                {preset.name}
+              </button>
+            )}
+            <button
+              onClick={() => {
+                setEditingId(preset.id);
+                setEditingName(preset.name);
+              }}
+              className="text-[10px] text-white/30 hover:text-white/80"
+            >
+              Rename
+            </button>
+            <button
+              onClick={() => setPresets(presets.filter((p) => p.id !== preset.id))}
+              className="text-[10px] text-white/30 hover:text-red-400"
+            >
+              Delete
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Import / Export */}
+      <div className="flex gap-2 mt-4 pt-4 border-t border-white/10">
+        <label className="flex-1 text-center text-xs text-white/50 border border-white/10 rounded py-1 cursor-pointer hover:text-white hover:border-white/30">
+          Import JSON
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <button
+          onClick={handleExport}
+          disabled={presets.length === 0}
+          className="flex-1 text-xs text-white/50 border border-white/10 rounded py-1 hover:text-white hover:border-white/30 disabled:opacity-30"
+        >
+          Export JSON
+        </button>
+      </div>
+      {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+    </div>
+  );
+};
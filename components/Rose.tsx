@@ -1,270 +1,47 @@
-import React, { useRef, useMemo } from 'react';
+import React, { useRef, useMemo, useState, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { RoseConfig } from '../types';
+import { ConstructionSettings, RoseConfig } from '../types';
+import { SPECIES, DEFAULT_COUNTS, GeometryBuffers, ParticleCounts } from '../species';
+import { Vec3 } from '../species/glsl';
+import { requestGeometry } from '../utils/geometryBuilder';
+import { AudioModulation } from '../utils/audioRouting';
+import { EFFECTS, effectIndex } from '../effects';
+import { DEFAULT_EFFECT_BLEND, EffectBlend } from '../utils/distortionEffects';
+import { MAX_TOUCHES, SceneTouch, touchModeIndex } from '../utils/fingertipTouch';
+import { classicPalette } from '../utils/palettes';
+import { BLOOM_LAYERS } from '../utils/postProcessing';
+import { FLOWER_FRAGMENT_SHADER, createFlowerVertexShader } from '../utils/flowerShaders';
+import {
+  DEFAULT_CONSTRUCTION_SETTINGS,
+  MAX_EMITTERS,
+  beamTarget,
+  easingIndex,
+  emitterPositions,
+  flyInPositions,
+  scanLevel,
+  scanModeIndex,
+} from '../utils/construction';
 
 interface RoseProps {
   config: RoseConfig;
   growthRef?: React.MutableRefObject<number>;
   distortionRef?: React.MutableRefObject<number>;
+  // Particles for this flower; defaults to the original single-flower split
+  counts?: ParticleCounts;
+  // Quality tier knobs: share of the buffer drawn, laser beam radial segments
+  drawFraction?: number;
+  beamSegments?: number;
+  // Audio-reactive offsets added on top of the config each frame
+  modulationRef?: React.MutableRefObject<AudioModulation | null>;
+  // Which distortion effects run, and how they're mixed
+  effectRef?: React.MutableRefObject<EffectBlend>;
+  // Fingertips in world space that push, pull or swirl nearby particles
+  touchRef?: React.MutableRefObject<SceneTouch>;
+  // Scan mode, emitters, beam color and fly-in easing of the build
+  construction?: ConstructionSettings;
 }
 
-// --- Shader Definitions ---
-
-const vertexShader = `
-  attribute float aRandom;
-  attribute float aType; // 0: Flower, 1: Stem, 2: Leaf
-  attribute vec3 aDirection;
-  
-  varying vec3 vPosition;
-  varying float vDisplacement;
-  varying float vRandom;
-  varying float vType;
-  varying float vProgress;
-
-  uniform float uTime;
-  uniform float uPetalCount;
-  uniform float uTwist;
-  uniform float uOpenness;
-  uniform float uDetail;
-  uniform float uParticleSize;
-  uniform float uDistortion; // 0.0 = normal, 1.0 = fully distorted
-  
-  // uScanY controls the vertical construction plane.
-  // Values: Top (+10.0) -> Bottom (-12.0)
-  uniform float uScanY; 
-
-  // Pseudo-random noise
-  float hash(vec2 p) {
-    return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
-  }
-
-  // Value Noise
-  float noise(vec2 p) {
-    vec2 i = floor(p);
-    vec2 f = fract(p);
-    f = f * f * (3.0 - 2.0 * f);
-    return mix(mix(hash(i), hash(i + vec2(1.0, 0.0)), f.x),
-               mix(hash(i + vec2(0.0, 1.0)), hash(i + vec2(1.0, 1.0)), f.x), f.y);
-  }
-
-  // --- Tulip Logic ---
-  float getTulipDisplacement(vec3 position) {
-    vec3 spherePos = normalize(position);
-    float r = 1.0; 
-    float theta = atan(spherePos.z, spherePos.x);
-    float phi = acos(spherePos.y); 
-
-    float twistedTheta = theta + phi * uTwist;
-    float petals = sin(twistedTheta * uPetalCount);
-    float shape = petals;
-    float bloom = smoothstep(0.0, 1.5, 1.5 - phi) * uOpenness * petals;
-    float surfaceNoise = noise(position.xz * 4.0 + uTime * 0.05) * 0.05 * uDetail;
-
-    return shape * 0.15 + bloom + surfaceNoise;
-  }
-
-  void main() {
-    vRandom = aRandom;
-    vType = aType;
-    vec3 pos = position;
-    float disp = 0.0;
-    
-    // --- SHAPE GENERATION ---
-    if (aType < 0.5) { 
-      // === FLOWER HEAD ===
-      disp = getTulipDisplacement(pos);
-      vec3 normal = normalize(vec3(pos.x, pos.y * 0.5, pos.z)); 
-      pos = pos + normal * disp;
-      pos.x += sin(uTime * 0.3) * 0.1;
-      
-      // === DISTORTION EFFECT (Pinch In Gesture) ===
-      if (uDistortion > 0.01) {
-        // Intense spiral twist distortion
-        float distortAngle = uDistortion * 3.14159 * 4.0 * (1.0 + aRandom * 1.5);
-        float distortRadius = length(pos.xz);
-        float originalAngle = atan(pos.z, pos.x);
-        float newAngle = originalAngle + distortAngle * (1.0 - pos.y * 0.3);
-        
-        // Strong expansion outward with random scatter
-        float expansion = 1.0 + uDistortion * 3.0 * aRandom;
-        pos.x = cos(newAngle) * distortRadius * expansion;
-        pos.z = sin(newAngle) * distortRadius * expansion;
-        
-        // Violent vertical scatter and explosion
-        float verticalChaos = sin(aRandom * 50.0 + uTime * 5.0) * uDistortion * 2.0;
-        pos.y = pos.y * (1.0 - uDistortion * 0.6) + verticalChaos;
-        
-        // Wild chaotic displacement in all directions
-        float chaos1 = sin(uTime * 8.0 + aRandom * 30.0) * uDistortion * 0.8;
-        float chaos2 = cos(uTime * 6.0 + aRandom * 25.0) * uDistortion * 0.8;
-        float chaos3 = sin(uTime * 7.0 + aRandom * 35.0) * uDistortion * 0.8;
-        pos += vec3(chaos1, chaos2, chaos3);
-        
-        // Particle explosion outward
-        pos += normal * uDistortion * (0.5 + aRandom * 1.5);
-      }
-    } else {
-      // === STEM & LEAVES ===
-      float bendFactor = (pos.y + 6.0) / 6.0;
-      bendFactor = pow(bendFactor, 2.0);
-      float windX = sin(uTime * 0.4) * 0.2 * bendFactor;
-      float windZ = cos(uTime * 0.3) * 0.1 * bendFactor;
-      pos.x += windX;
-      pos.z += windZ;
-      if (aType > 1.5) {
-         pos += aDirection * sin(uTime * 0.8 + pos.y) * 0.02;
-      }
-      
-      // === STEM/LEAF DISTORTION ===
-      if (uDistortion > 0.01) {
-        float stemDistort = uDistortion * (1.0 + bendFactor) * 2.0;
-        pos.x += sin(pos.y * 4.0 + uTime * 5.0) * stemDistort * 1.2;
-        pos.z += cos(pos.y * 4.0 + uTime * 5.0 + aRandom * 6.28) * stemDistort * 1.2;
-        
-        // Wild vertical wave
-        pos.y += sin(uTime * 6.0 + aRandom * 20.0) * uDistortion * 0.5;
-        
-        // Explosive leaf scatter
-        if (aType > 1.5) {
-          pos += aDirection * uDistortion * 2.5 * (0.5 + aRandom);
-          // Random jitter
-          pos.x += sin(uTime * 10.0 + aRandom * 40.0) * uDistortion * 0.4;
-          pos.z += cos(uTime * 10.0 + aRandom * 40.0) * uDistortion * 0.4;
-        }
-      }
-    }
-
-    vec3 finalPos = pos;
-
-    // --- CONSTRUCTION SCAN LOGIC ---
-    // We scan from Top (+10) to Bottom (-12).
-    // If uScanY < finalPos.y, the scanner has passed this point (it is built).
-    
-    // Calculate progress based on vertical distance from scan plane
-    float verticalDist = finalPos.y - uScanY;
-    
-    // Add randomness to the edge so it's not a perfect flat plane cut
-    float edgeNoise = (aRandom - 0.5) * 2.0; 
-    
-    // When verticalDist is large positive (particle is above scan plane), it's built (1.0).
-    // When verticalDist is negative (particle is below scan plane), it's hidden (0.0).
-    // The transition happens in a narrow band around the scan plane.
-    
-    float activation = smoothstep(-1.0, 1.0, verticalDist + edgeNoise);
-    vProgress = activation;
-    
-    // "Making" Effect: Fly in from Corners
-    float boxSize = 12.5; 
-    float cornerID = floor(aRandom * 4.0);
-    vec3 cornerPos;
-    if (cornerID < 0.5) cornerPos = vec3(boxSize, boxSize, boxSize);
-    else if (cornerID < 1.5) cornerPos = vec3(-boxSize, boxSize, boxSize);
-    else if (cornerID < 2.5) cornerPos = vec3(-boxSize, boxSize, -boxSize);
-    else cornerPos = vec3(boxSize, boxSize, -boxSize);
-    
-    // Spread source slightly
-    cornerPos += (vec3(hash(vec2(aRandom, 0.1)), hash(vec2(aRandom, 0.2)), hash(vec2(aRandom, 0.3))) - 0.5) * 0.5;
-
-    // Interpolate: 
-    // t=0 (Hidden/At Corner) -> t=1 (At Final)
-    // We only want particles to start moving when they are near the scan line (activation > 0)
-    // Use ease out for impact
-    float t = 1.0 - pow(1.0 - activation, 4.0);
-    
-    pos = mix(cornerPos, finalPos, t);
-
-    vDisplacement = disp;
-    vPosition = pos;
-
-    vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
-    gl_Position = projectionMatrix * mvPosition;
-
-    // Size Attenuation & Pop-in
-    float sizeMult = (aType < 0.5) ? 1.0 : 0.8;
-    
-    // Flash size when arriving
-    // Activation goes 0 -> 1. Arrival is the low end (0.1 - 0.3)
-    float arrivalFlash = smoothstep(0.0, 0.2, activation) * smoothstep(0.4, 0.2, activation);
-    
-    float growSize = sizeMult * activation * (1.0 + arrivalFlash * 1.5); 
-    
-    gl_PointSize = uParticleSize * growSize * (300.0 / -mvPosition.z);
-    gl_PointSize *= (0.8 + 0.2 * sin(uTime * 2.0 + aRandom * 50.0));
-  }
-`;
-
-const fragmentShader = `
-  varying vec3 vPosition;
-  varying float vDisplacement;
-  varying float vRandom;
-  varying float vType;
-  varying float vProgress;
-
-  uniform vec3 uColor;
-  uniform float uDistortion;
-
-  void main() {
-    vec2 coord = gl_PointCoord - vec2(0.5);
-    float d = length(coord);
-    if (d > 0.5) discard;
-    
-    float alpha = smoothstep(0.5, 0.0, d);
-    
-    // Hard clip for unbuilt parts
-    if (vProgress < 0.01) discard;
-    
-    vec3 finalColor;
-
-    if (vType < 0.5) {
-      vec3 deepColor = uColor * 0.4;
-      vec3 tipColor = uColor * 1.8;
-      float mixFactor = smoothstep(-0.1, 0.4, vDisplacement);
-      finalColor = mix(deepColor, tipColor, mixFactor);
-      finalColor *= (0.8 + 0.4 * vRandom);
-    } else {
-      vec3 stemDark = vec3(0.05, 0.15, 0.1);
-      vec3 leafBlue = vec3(0.1, 0.3, 0.25); 
-      finalColor = mix(stemDark, leafBlue, vRandom * 0.8 + 0.2);
-      if (vType > 1.5 && vPosition.y > -2.0) {
-         finalColor *= 1.2;
-      }
-    }
-
-    // === LASER SINTERING FLASH ===
-    // Heat is high when progress is low (just arrived at scan plane)
-    // vProgress represents "how fully built" it is (0 to 1).
-    float heat = smoothstep(0.4, 0.0, vProgress); 
-    
-    // Intense Hot Pink/White
-    vec3 hotColor = vec3(1.0, 0.8, 0.9) * 4.0;
-    
-    finalColor = mix(finalColor, hotColor, heat);
-    alpha = mix(alpha, 1.0, heat * 0.8);
-    
-    // === DISTORTION GLOW EFFECT ===
-    if (uDistortion > 0.01) {
-      // Intense multi-color glitch glow
-      float glitchFlicker = sin(vRandom * 100.0 + vPosition.x * 10.0) * 0.5 + 0.5;
-      vec3 glowColor1 = vec3(1.0, 0.2, 0.8); // Hot pink
-      vec3 glowColor2 = vec3(0.2, 1.0, 1.0); // Cyan
-      vec3 glowColor3 = vec3(1.0, 0.8, 0.0); // Gold
-      
-      vec3 distortGlow = mix(glowColor1, glowColor2, glitchFlicker) * uDistortion * 3.0;
-      distortGlow += glowColor3 * sin(vRandom * 50.0) * uDistortion * 1.5;
-      
-      finalColor += distortGlow;
-      
-      // Flickering alpha for glitch effect
-      float alphaFlicker = 0.7 + 0.3 * sin(vRandom * 80.0 + vPosition.y * 5.0);
-      alpha *= alphaFlicker;
-    }
-
-    alpha = pow(alpha, 1.5);
-    gl_FragColor = vec4(finalColor, alpha);
-  }
-`;
-
 // --- Beam Shader ---
 const beamVertexShader = `
   varying vec2 vUv;
@@ -277,6 +54,7 @@ const beamVertexShader = `
 const beamFragmentShader = `
   varying vec2 vUv;
   uniform float uTime;
+  uniform vec3 uColor;
   
   void main() {
     // Flowing energy
@@ -285,7 +63,7 @@ const beamFragmentShader = `
     core = pow(core, 4.0);
     
     float pulse = smoothstep(0.0, 0.3, flow) * smoothstep(0.6, 0.3, flow);
-    vec3 color = vec3(0.6, 0.8, 1.0) * (2.0 + pulse * 2.0);
+    vec3 color = uColor * (2.0 + pulse * 2.0);
     
     float alpha = core * (0.3 + 0.7 * pulse);
     // Fade at tips slightly
@@ -295,32 +73,37 @@ const beamFragmentShader = `
   }
 `;
 
-// Helper to create a single beam mesh that tracks a target
+// Helper to create a single beam mesh that tracks the scan
 const TrackingBeam: React.FC<{ 
-  start: THREE.Vector3; 
-  growthRef?: React.MutableRefObject<number> 
-}> = ({ start, growthRef }) => {
+  emitter: Vec3;
+  index: number;
+  construction: ConstructionSettings;
+  growthRef?: React.MutableRefObject<number>;
+  segments: number;
+}> = ({ emitter, index, construction, growthRef, segments }) => {
     const meshRef = useRef<THREE.Mesh>(null);
     const materialRef = useRef<THREE.ShaderMaterial>(null);
     const dummy = useMemo(() => new THREE.Object3D(), []);
+    const start = useMemo(() => new THREE.Vector3(emitter.x, emitter.y, emitter.z), [emitter]);
+    const target = useMemo(() => new THREE.Vector3(), []);
+    const uniforms = useMemo(() => ({ uTime: { value: 0 }, uColor: { value: new THREE.Color() } }), []);
 
     useFrame((state) => {
-        // Calculate Target Y based on growth
         const growth = growthRef ? growthRef.current : 1.0;
+        const time = state.clock.getElapsedTime();
         
-        // Match the range in shader: Top (+10) to Bottom (-12)
-        const scanY = THREE.MathUtils.lerp(10.0, -12.0, growth);
+        // Same scan the flower shader reads, so beams always hit the building edge
+        const aim = beamTarget(construction.scanMode, growth, emitter, index, time);
         
         // If fully built (growth ~1), beams can fade or retract, but keeping them active looks cool.
         // Let's fade them out when done.
         const active = growth < 0.99;
 
         if (meshRef.current) {
-            const target = new THREE.Vector3(0, scanY, 0);
+            target.set(aim.x, aim.y, aim.z);
             
             // Position is midpoint
-            const mid = new THREE.Vector3().lerpVectors(start, target, 0.5);
-            meshRef.current.position.copy(mid);
+            meshRef.current.position.lerpVectors(start, target, 0.5);
             
             // Orientation
             dummy.position.copy(start);
@@ -337,18 +120,20 @@ const TrackingBeam: React.FC<{
         }
 
         if (materialRef.current) {
-            materialRef.current.uniforms.uTime.value = state.clock.getElapsedTime();
+            materialRef.current.uniforms.uTime.value = time;
+            // Raw shader value, like the glow colors
+            materialRef.current.uniforms.uColor.value.setStyle(construction.beamColor, THREE.LinearSRGBColorSpace);
         }
     });
 
     return (
-        <mesh ref={meshRef}>
-            <cylinderGeometry args={[0.02, 0.05, 1.0, 8, 1, true]} />
+        <mesh ref={meshRef} layers={BLOOM_LAYERS}>
+            <cylinderGeometry args={[0.02, 0.05, 1.0, segments, 1, true]} />
             <shaderMaterial
                 ref={materialRef}
                 vertexShader={beamVertexShader}
                 fragmentShader={beamFragmentShader}
-                uniforms={{ uTime: { value: 0 } }}
+                uniforms={uniforms}
                 transparent
                 blending={THREE.AdditiveBlending}
                 depthWrite={false}
@@ -359,176 +144,239 @@ const TrackingBeam: React.FC<{
 }
 
 
-const ConstructionZone: React.FC<{ growthRef?: React.MutableRefObject<number> }> = ({ growthRef }) => {
-  const boxSize = 12.5;
-  // Laser Emitters at top corners
-  const topCorners = useMemo(() => [
-      new THREE.Vector3(boxSize, boxSize, boxSize),
-      new THREE.Vector3(-boxSize, boxSize, boxSize),
-      new THREE.Vector3(-boxSize, boxSize, -boxSize),
-      new THREE.Vector3(boxSize, boxSize, -boxSize)
-  ], []);
-
-  // Laser Emitters at bottom corners
-  const bottomCorners = useMemo(() => [
-      new THREE.Vector3(boxSize, -boxSize, boxSize),
-      new THREE.Vector3(-boxSize, -boxSize, boxSize),
-      new THREE.Vector3(-boxSize, -boxSize, -boxSize),
-      new THREE.Vector3(boxSize, -boxSize, -boxSize)
-  ], []);
+// One laser beam per emitter
+const ConstructionZone: React.FC<{
+  growthRef?: React.MutableRefObject<number>;
+  beamSegments: number;
+  construction: ConstructionSettings;
+}> = ({ growthRef, beamSegments, construction }) => {
+  const emitters = useMemo(
+    () => emitterPositions(construction),
+    [construction.emitterLayout, construction.emitterCount]
+  );
 
   return (
     <group>
-       {/* Dynamic Beams from top corners */}
-       {topCorners.map((corner, i) => (
-           <TrackingBeam key={`top-${i}`} start={corner} growthRef={growthRef} />
-       ))}
-       {/* Dynamic Beams from bottom corners */}
-       {bottomCorners.map((corner, i) => (
-           <TrackingBeam key={`bottom-${i}`} start={corner} growthRef={growthRef} />
+       {emitters.map((emitter, i) => (
+           <TrackingBeam
+             key={i}
+             emitter={emitter}
+             index={i}
+             construction={construction}
+             growthRef={growthRef}
+             segments={beamSegments}
+           />
        ))}
     </group>
   );
 };
 
-export const Rose: React.FC<RoseProps> = ({ config, growthRef, distortionRef }) => {
+// Glow colors are raw shader values, so skip the sRGB decode Color.set would apply
+const setGlowColors = (target: THREE.Color[], colors: string[]) =>
+  target.forEach((color, i) => color.setStyle(colors[i], THREE.LinearSRGBColorSpace));
+
+const toGeometry = ({ count, positions, randoms, types, directions }: GeometryBuffers) => {
+  const geo = new THREE.BufferGeometry();
+  geo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geo.setAttribute('aRandom', new THREE.BufferAttribute(randoms, 1));
+  geo.setAttribute('aType', new THREE.BufferAttribute(types, 1));
+  geo.setAttribute('aDirection', new THREE.BufferAttribute(directions, 3));
+  geo.userData.pointCount = count;
+  return geo;
+};
+
+export const Rose: React.FC<RoseProps> = ({
+  config,
+  growthRef,
+  distortionRef,
+  counts = DEFAULT_COUNTS,
+  drawFraction = 1,
+  beamSegments = 8,
+  modulationRef,
+  effectRef,
+  touchRef,
+  construction = DEFAULT_CONSTRUCTION_SETTINGS,
+}) => {
   const pointsRef = useRef<THREE.Points>(null);
   
-  const geometry = useMemo(() => {
-    const geo = new THREE.BufferGeometry();
-    const positions: number[] = [];
-    const randoms: number[] = [];
-    const types: number[] = []; 
-    const directions: number[] = []; 
-
-    // 1. Flower Head
-    const flowerCount = 120000;
-    for(let i=0; i<flowerCount; i++) {
-        const offset = 2 / flowerCount;
-        const increment = Math.PI * (3 - Math.sqrt(5));
-        const yRaw = ((i * offset) - 1) + (offset / 2);
-        const rRaw = Math.sqrt(1 - Math.pow(yRaw, 2));
-        const phi = ((i + 1) % flowerCount) * increment;
-        const x = Math.cos(phi) * rRaw;
-        const z = Math.sin(phi) * rRaw;
-        const y = yRaw * 2.0 + 1.0; 
-        
-        positions.push(x, y, z);
-        randoms.push(Math.random());
-        types.push(0.0);
-        directions.push(x, y, z);
-    }
-
-    // 2. Stem
-    const stemCount = 30000;
-    const stemLength = 7.0;
-    const stemRadius = 0.08; 
-    for(let i=0; i<stemCount; i++) {
-      const t = i / stemCount; 
-      const y = -1.0 - (t * stemLength); 
-      const curveX = Math.sin(y * 0.2) * 0.1; 
-      const theta = Math.random() * Math.PI * 2;
-      const r = stemRadius * (1.0 - t * 0.1); 
-      const x = curveX + Math.cos(theta) * r;
-      const z = Math.sin(theta) * r;
-      positions.push(x, y, z);
-      randoms.push(Math.random());
-      types.push(1.0);
-      directions.push(Math.cos(theta), 0, Math.sin(theta));
-    }
-
-    // 3. Leaves
-    const leafCount = 40000;
-    const leaves = 3; 
-    for(let l=0; l<leaves; l++) {
-        const attachY = -6.0 + (l * 1.0); 
-        const leafAngle = (l * 2.1); 
-        const leafDirX = Math.cos(leafAngle);
-        const leafDirZ = Math.sin(leafAngle);
-        const ptsPerLeaf = Math.floor(leafCount / leaves);
-        for(let i=0; i<ptsPerLeaf; i++) {
-             const u = Math.random(); 
-             const v = (Math.random() * 2 - 1);
-             const width = 0.5 * (1.0 - Math.pow(u, 2.0)) * Math.sin(u * 3.14);
-             const actualWidth = width * v;
-             const h = u * 4.5; 
-             const bendOut = Math.sin(u * 3.14 * 0.5) * 0.8; 
-             const lx = actualWidth; 
-             const lz = 0.1 + bendOut; 
-             const rx = leafDirX;
-             const rz = leafDirZ;
-             const tx = -leafDirZ;
-             const tz = leafDirX;
-             const px = (rx * lz) + (tx * lx);
-             const pz = (rz * lz) + (tz * lx);
-             const py = attachY + h;
-             positions.push(px, py, pz);
-             randoms.push(Math.random());
-             types.push(2.0); 
-             directions.push(px, 0, pz);
-        }
-    }
-    
-    geo.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
-    geo.setAttribute('aRandom', new THREE.Float32BufferAttribute(randoms, 1));
-    geo.setAttribute('aType', new THREE.Float32BufferAttribute(types, 1));
-    geo.setAttribute('aDirection', new THREE.Float32BufferAttribute(directions, 3));
-    return geo;
-  }, []);
+  // Species actually on screen; lags config.species while the swap transition runs
+  const [activeSpecies, setActiveSpecies] = useState(config.species);
+  const species = SPECIES[activeSpecies];
+  const transitionRef = useRef<{ phase: 'idle' | 'out' | 'in'; factor: number }>({ phase: 'idle', factor: 1 });
+  // Growth after the transition is applied; drives both the shader and the beams
+  const scanGrowthRef = useRef<number>(growthRef ? growthRef.current : 1.0);
+
+  // Only regenerate when the seed or a parameter the active species uses changes
+  const paramKey = [config.seed, ...species.params.map((key) => config[key])].join('|');
+
+  const countKey = `${counts.head}|${counts.stem}|${counts.leaves}`;
+
+  // Built in a worker: a sparse preview lands first, then the full cloud.
+  // The previous geometry stays up until its replacement arrives.
+  const [geometry, setGeometry] = useState<THREE.BufferGeometry | null>(null);
+  useEffect(() => {
+    return requestGeometry(activeSpecies, config, counts, (_stage, buffers) => setGeometry(toGeometry(buffers)));
+  }, [activeSpecies, paramKey, countKey]);
+
+  useEffect(() => () => geometry?.dispose(), [geometry]);
+
+  // Points are shuffled, so drawing a prefix thins every part evenly
+  useEffect(() => {
+    if (geometry) geometry.setDrawRange(0, Math.floor(geometry.userData.pointCount * drawFraction));
+  }, [geometry, drawFraction]);
+
+  const vertexShader = useMemo(() => createFlowerVertexShader(species), [species]);
+  const palette = useMemo(() => config.palette ?? classicPalette(config.color), [config.palette, config.color]);
+  const emitters = useMemo(
+    () => flyInPositions(construction),
+    [construction.emitterLayout, construction.emitterCount]
+  );
+  const touchLocal = useMemo(() => new THREE.Vector3(), []);
+  const touchScale = useMemo(() => new THREE.Vector3(), []);
 
   const uniforms = useMemo(
     () => ({
       uTime: { value: 0 },
       uColor: { value: new THREE.Color(config.color) },
+      uPetalBase: { value: new THREE.Color() },
+      uPetalTip: { value: new THREE.Color() },
+      uStemColor: { value: new THREE.Color() },
+      uLeafColor: { value: new THREE.Color() },
+      uFlashColor: { value: new THREE.Color() },
+      uSplitPlant: { value: 0 },
       uPetalCount: { value: config.petalCount },
       uTwist: { value: config.twist },
       uOpenness: { value: config.openness },
       uDetail: { value: config.detail },
       uParticleSize: { value: config.particleSize },
-      uScanY: { value: 10.0 }, // Start at Top
+      uScanLevel: { value: scanLevel(DEFAULT_CONSTRUCTION_SETTINGS.scanMode, 0) },
+      uScanMode: { value: 0 },
+      uEmitters: { value: Array.from({ length: MAX_EMITTERS }, () => new THREE.Vector3()) },
+      uEmitterCount: { value: 1 },
+      uEasing: { value: 0 },
       uDistortion: { value: 0.0 }, // Distortion amount (0-1)
+      uCenterSize: { value: config.centerSize },
+      uEffectA: { value: 0 },
+      uEffectB: { value: 0 },
+      uEffectMix: { value: 0 },
+      uEffectParamsA: { value: new THREE.Vector4() },
+      uEffectParamsB: { value: new THREE.Vector4() },
+      uGlowA: { value: [new THREE.Color(), new THREE.Color(), new THREE.Color()] },
+      uGlowB: { value: [new THREE.Color(), new THREE.Color(), new THREE.Color()] },
+      uTouch: { value: Array.from({ length: MAX_TOUCHES }, () => new THREE.Vector4()) },
+      uTouchMode: { value: 0 },
+      uTouchRadius: { value: 1 },
+      uTouchStrength: { value: 0 },
     }),
     []
   );
 
-  useFrame((state) => {
+  useFrame((state, delta) => {
+    // --- Species Swap: deconstruct, swap geometry, reconstruct ---
+    const transition = transitionRef.current;
+    if (transition.phase === 'idle' && config.species !== activeSpecies) {
+      transition.phase = 'out';
+    }
+    if (transition.phase === 'out') {
+      transition.factor = Math.max(0, transition.factor - delta * 1.5);
+      if (transition.factor === 0) {
+        transition.phase = 'in';
+        setActiveSpecies(config.species);
+      }
+    } else if (transition.phase === 'in') {
+      transition.factor = Math.min(1, transition.factor + delta * 0.8);
+      if (transition.factor === 1) transition.phase = 'idle';
+    }
+    scanGrowthRef.current = (growthRef ? growthRef.current : 1.0) * transition.factor;
+
     if (pointsRef.current) {
       const material = pointsRef.current.material as THREE.ShaderMaterial;
+      const mod = modulationRef?.current;
       material.uniforms.uTime.value = state.clock.getElapsedTime() * config.speed;
       material.uniforms.uColor.value.set(config.color);
+      material.uniforms.uPetalBase.value.set(palette.petalBase);
+      material.uniforms.uPetalTip.value.set(palette.petalTip);
+      if (mod?.hue) {
+        material.uniforms.uColor.value.offsetHSL(mod.hue, 0, 0);
+        material.uniforms.uPetalBase.value.offsetHSL(mod.hue, 0, 0);
+        material.uniforms.uPetalTip.value.offsetHSL(mod.hue, 0, 0);
+      }
+      material.uniforms.uStemColor.value.set(palette.stem);
+      material.uniforms.uLeafColor.value.set(palette.leaf);
+      material.uniforms.uFlashColor.value.set(palette.flash);
+      material.uniforms.uSplitPlant.value = config.palette ? 1 : 0;
       material.uniforms.uPetalCount.value = config.petalCount;
-      material.uniforms.uTwist.value = config.twist;
-      material.uniforms.uOpenness.value = config.openness;
+      material.uniforms.uTwist.value = config.twist + (mod?.twist ?? 0);
+      material.uniforms.uOpenness.value = Math.max(0, config.openness + (mod?.openness ?? 0));
       material.uniforms.uDetail.value = config.detail;
-      material.uniforms.uParticleSize.value = config.particleSize;
+      material.uniforms.uParticleSize.value = Math.max(0.002, config.particleSize + (mod?.particleSize ?? 0));
+      material.uniforms.uCenterSize.value = config.centerSize;
       
-      if (growthRef) {
-          // Map growth 0->1 to Scan Y 10->-12
-          const scanY = THREE.MathUtils.lerp(10.0, -12.0, growthRef.current);
-          material.uniforms.uScanY.value = scanY;
-      }
+      // Map growth 0->1 onto the scan mode's sweep; beams read the same settings
+      material.uniforms.uScanLevel.value = scanLevel(construction.scanMode, scanGrowthRef.current);
+      material.uniforms.uScanMode.value = scanModeIndex(construction.scanMode);
+      material.uniforms.uEasing.value = easingIndex(construction.easing);
+      material.uniforms.uEmitterCount.value = emitters.length;
+      emitters.forEach((emitter, i) => material.uniforms.uEmitters.value[i].set(emitter.x, emitter.y, emitter.z));
       
       // Update distortion from pinch gesture
-      if (distortionRef) {
-          material.uniforms.uDistortion.value = distortionRef.current;
+      const distortion = (distortionRef ? distortionRef.current : 0) + (mod?.distortion ?? 0);
+      material.uniforms.uDistortion.value = THREE.MathUtils.clamp(distortion, 0, 1);
+
+      const blend = effectRef?.current ?? DEFAULT_EFFECT_BLEND;
+      material.uniforms.uEffectA.value = effectIndex(blend.a);
+      material.uniforms.uEffectB.value = effectIndex(blend.b);
+      material.uniforms.uEffectMix.value = blend.mix;
+      material.uniforms.uEffectParamsA.value.fromArray(blend.paramsA);
+      material.uniforms.uEffectParamsB.value.fromArray(blend.paramsB);
+      // A palette's glow replaces every effect's own colors
+      if (config.palette) {
+        material.uniforms.uGlowA.value.forEach((color: THREE.Color, i: number) => color.set(palette.glow[i]));
+        material.uniforms.uGlowB.value.forEach((color: THREE.Color, i: number) => color.set(palette.glow[i]));
+      } else {
+        setGlowColors(material.uniforms.uGlowA.value, EFFECTS[blend.a].colors);
+        setGlowColors(material.uniforms.uGlowB.value, EFFECTS[blend.b].colors);
+      }
+
+      // Fingertips arrive in world space; the shader works in this flower's space
+      const touch = touchRef?.current;
+      const scale = pointsRef.current.getWorldScale(touchScale).x;
+      material.uniforms.uTouch.value.forEach((local: THREE.Vector4, i: number) => {
+        const point = touch?.settings.enabled ? touch.points[i] : undefined;
+        if (!point || point.w === 0) {
+          local.w = 0;
+          return;
+        }
+        touchLocal.set(point.x, point.y, point.z);
+        pointsRef.current!.worldToLocal(touchLocal);
+        local.set(touchLocal.x, touchLocal.y, touchLocal.z, point.w);
+      });
+      if (touch) {
+        material.uniforms.uTouchMode.value = touchModeIndex(touch.settings.mode);
+        material.uniforms.uTouchRadius.value = touch.settings.radius / scale;
+        // Swirl strength is an angle, the others a distance
+        material.uniforms.uTouchStrength.value = touch.settings.strength / (touch.settings.mode === 'swirl' ? 1 : scale);
       }
     }
   });
 
   return (
     <group>
-        <ConstructionZone growthRef={growthRef} />
-        <points ref={pointsRef}>
-          <primitive object={geometry} />
-          <shaderMaterial
-            vertexShader={vertexShader}
-            fragmentShader={fragmentShader}
-            uniforms={uniforms}
-            transparent={true}
-            depthWrite={false}
-            blending={THREE.AdditiveBlending}
-          />
-        </points>
+        <ConstructionZone growthRef={scanGrowthRef} beamSegments={beamSegments} construction={construction} />
+        {geometry && (
+          <points ref={pointsRef} layers={BLOOM_LAYERS} userData={{ species: activeSpecies }}>
+            <primitive object={geometry} />
+            <shaderMaterial
+              key={activeSpecies}
+              vertexShader={vertexShader}
+              fragmentShader={FLOWER_FRAGMENT_SHADER}
+              uniforms={uniforms}
+              transparent={true}
+              depthWrite={false}
+              blending={THREE.AdditiveBlending}
+            />
+          </points>
+        )}
     </group>
   );
 };
@@ -1,63 +1,294 @@
-import React, { Suspense, useRef } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
+import React, { Suspense, useEffect, useMemo, useRef } from 'react';
+import { Canvas, RootState, useFrame, useThree } from '@react-three/fiber';
 import { OrbitControls, Environment, ContactShadows, Edges } from '@react-three/drei';
 import * as THREE from 'three';
 import { Rose } from './Rose';
-import { RoseConfig } from '../types';
+import { ConstructionSettings, GardenSettings, ParticleBudget, PostProcessingSettings, RoseConfig, TouchSettings } from '../types';
+import { layoutGarden } from '../utils/garden';
+import { DEFAULT_PARTICLE_BUDGET, budgetCounts } from '../utils/particleBudget';
+import { QUALITY_TIERS, QualityTier, beamSegmentsFor } from '../utils/quality';
+import { Vec3Tuple } from '../utils/timeline';
+import { CameraDirector } from '../utils/cameraDirector';
+import { AudioModulation } from '../utils/audioRouting';
+import { EffectBlend } from '../utils/distortionEffects';
+import { DEFAULT_TOUCH_SETTINGS, SceneTouch, TrackedFingertip, createSceneTouch } from '../utils/fingertipTouch';
+import { Point2 } from '../utils/gestures';
+import { ActivePostProcessor, DEFAULT_POST_PROCESSING_SETTINGS, PostProcessor, postProcessingActive } from '../utils/postProcessing';
+
+export interface CameraOverride {
+  position?: Vec3Tuple;
+  target?: Vec3Tuple;
+}
 
 interface RoseExperienceProps {
   config: RoseConfig;
   growthRef?: React.MutableRefObject<number>;
   distortionRef?: React.MutableRefObject<number>;
+  // Audio-reactive uniform offsets shared by every flower
+  modulationRef?: React.MutableRefObject<AudioModulation | null>;
+  // Which distortion effects every flower mixes this frame
+  effectRef?: React.MutableRefObject<EffectBlend>;
+  // Tracked fingertips in normalized screen space, placed in the scene each frame
+  fingertipsRef?: React.MutableRefObject<TrackedFingertip[]>;
+  touchSettings?: TouchSettings;
+  // Scan mode, emitters, beam color and easing every flower builds with
+  construction?: ConstructionSettings;
+  // Bloom and screen effects; skipped on tiers without post processing
+  postProcessing?: PostProcessingSettings;
+  particleBudget?: ParticleBudget;
+  quality?: QualityTier;
+  // Called every rendered frame with its duration, for the quality manager
+  onFrame?: (frameMs: number) => void;
+  // Runs at the start of every frame, before anything reads growth/distortion
+  onBeforeFrame?: (deltaMs: number) => void;
+  // Camera position/target the sequencer currently dictates, if any
+  cameraOverrideRef?: React.MutableRefObject<CameraOverride | null>;
+  // Picks the camera shot; a default orbit director is used when omitted
+  director?: CameraDirector;
+  // While true (captures) the director isn't updated and the camera holds its shot
+  frozenRef?: React.MutableRefObject<boolean>;
+  // Receives the canvas state getter for stills and video capture
+  captureRef?: React.MutableRefObject<(() => RootState) | null>;
+  // Receives the post stack while the loop renders through one, so stills can too
+  postRef?: React.MutableRefObject<ActivePostProcessor | null>;
+  garden?: GardenSettings;
+  // Per-flower growth, parallel to garden.flowers
+  gardenGrowthRefs?: React.MutableRefObject<number>[];
+  // Receives each garden flower's head position in normalized screen space
+  flowerScreenRef?: React.MutableRefObject<Point2[]>;
 }
 
-// Camera Controller component to handle target tracking
+// Where the single flower's head sits; fingertips fall back to it without controls
+const FLOWER_CENTER = new THREE.Vector3(0, 2, 0);
+
+// Garden Mode: several independently configured flowers sharing one particle budget
+const Garden: React.FC<{
+  garden: GardenSettings;
+  budget: ParticleBudget;
+  quality: QualityTier;
+  growthRefs?: React.MutableRefObject<number>[];
+  distortionRef?: React.MutableRefObject<number>;
+  modulationRef?: React.MutableRefObject<AudioModulation | null>;
+  effectRef?: React.MutableRefObject<EffectBlend>;
+  touchRef?: React.MutableRefObject<SceneTouch>;
+  construction?: ConstructionSettings;
+  screenRef?: React.MutableRefObject<Point2[]>;
+}> = ({ garden, budget, quality, growthRefs, distortionRef, modulationRef, effectRef, touchRef, construction, screenRef }) => {
+  const count = garden.flowers.length;
+  const placements = useMemo(() => layoutGarden(garden.layout, count), [garden.layout, count]);
+  const counts = budgetCounts(budget, count);
+  const beamSegments = beamSegmentsFor(quality, count);
+  const headRefs = useRef<(THREE.Object3D | null)[]>([]);
+  const projected = useMemo(() => new THREE.Vector3(), []);
+
+  // Track where each flower head lands on screen so gestures can target it
+  useFrame(({ camera }) => {
+    if (!screenRef) return;
+    screenRef.current = placements.map((_, i) => {
+      const head = headRefs.current[i];
+      if (!head) return { x: 0.5, y: 0.5 };
+      head.getWorldPosition(projected).project(camera);
+      return { x: (projected.x + 1) / 2, y: (1 - projected.y) / 2 };
+    });
+  });
+
+  return (
+    <>
+      {placements.map((placement, i) => (
+        <group key={i} position={placement.position} rotation-y={placement.heading}>
+          <group rotation-z={-placement.tilt} scale={placement.scale}>
+            {/* Head sits about one unit above the flower origin */}
+            <object3D ref={(el) => { headRefs.current[i] = el; }} position={[0, 1, 0]} />
+            <Rose
+              config={garden.flowers[i]}
+              growthRef={growthRefs?.[i]}
+              distortionRef={distortionRef}
+              modulationRef={modulationRef}
+              effectRef={effectRef}
+              touchRef={touchRef}
+              construction={construction}
+              counts={counts}
+              drawFraction={quality.drawFraction}
+              beamSegments={beamSegments}
+            />
+          </group>
+        </group>
+      ))}
+    </>
+  );
+};
+
+// Reports each frame's duration from inside the render loop
+const FrameSampler: React.FC<{ onFrame: (frameMs: number) => void }> = ({ onFrame }) => {
+  useFrame((_, delta) => onFrame(delta * 1000));
+  return null;
+};
+
+// Negative priority: runs before OrbitControls (-1) and every flower
+const FrameDriver: React.FC<{ onBeforeFrame: (deltaMs: number) => void }> = ({ onBeforeFrame }) => {
+  useFrame((_, delta) => onBeforeFrame(delta * 1000), -2);
+  return null;
+};
+
+// Places each fingertip on the plane through the orbit target, facing the camera,
+// then moves it along the view direction by its depth. Runs ahead of the flowers
+// with last frame's camera, a frame of lag the hand tracker hides anyway.
+const FingertipProjector: React.FC<{
+  fingertipsRef: React.MutableRefObject<TrackedFingertip[]>;
+  touchRef: React.MutableRefObject<SceneTouch>;
+}> = ({ fingertipsRef, touchRef }) => {
+  const focus = useMemo(() => new THREE.Vector3(), []);
+  const forward = useMemo(() => new THREE.Vector3(), []);
+  const point = useMemo(() => new THREE.Vector3(), []);
+
+  useFrame(({ camera, controls }) => {
+    const { points, settings } = touchRef.current;
+    const tips = fingertipsRef.current;
+    // The default controls are the OrbitControls, the only ones with a target
+    const target = controls && 'target' in controls && controls.target instanceof THREE.Vector3 ? controls.target : FLOWER_CENTER;
+    focus.copy(target).project(camera);
+    camera.getWorldDirection(forward);
+    points.forEach((out, i) => {
+      const tip = tips[i];
+      if (!tip || tip.strength === 0) {
+        out.w = 0;
+        return;
+      }
+      point.set(tip.x * 2 - 1, 1 - tip.y * 2, focus.z).unproject(camera);
+      point.addScaledVector(forward, tip.depth * settings.depth * 0.5);
+      out.set(point.x, point.y, point.z, tip.strength);
+    });
+  }, -1);
+  return null;
+};
+
+// Positive priority: takes over rendering from R3F while mounted
+const PostEffects: React.FC<{
+  settings: PostProcessingSettings;
+  distortionRef?: React.MutableRefObject<number>;
+  postRef?: React.MutableRefObject<ActivePostProcessor | null>;
+}> = ({ settings, distortionRef, postRef }) => {
+  const gl = useThree((state) => state.gl);
+  const clock = useThree((state) => state.clock);
+  const size = useThree((state) => state.size);
+  const dpr = useThree((state) => state.viewport.dpr);
+  const processor = useMemo(() => new PostProcessor(gl), [gl]);
+
+  useEffect(() => () => processor.dispose(), [processor]);
+  useEffect(() => processor.setSize(size.width, size.height, dpr), [processor, size, dpr]);
+
+  useEffect(() => {
+    if (!postRef) return;
+    postRef.current = {
+      processor,
+      render: (scene, camera) =>
+        processor.render(scene, camera, settings, { distortion: distortionRef?.current ?? 0, time: clock.elapsedTime }, 0),
+    };
+    return () => {
+      postRef.current = null;
+    };
+  }, [postRef, processor, settings, distortionRef, clock]);
+
+  useFrame(({ scene, camera, clock }, delta) => {
+    processor.render(scene, camera, settings, { distortion: distortionRef?.current ?? 0, time: clock.elapsedTime }, delta);
+  }, 1);
+  return null;
+};
+
+// Exposes the R3F state (renderer, scene, camera, loop control) to the capture tools
+const CaptureBridge: React.FC<{ captureRef: React.MutableRefObject<(() => RootState) | null> }> = ({ captureRef }) => {
+  const get = useThree((state) => state.get);
+  useEffect(() => {
+    captureRef.current = get;
+    return () => {
+      captureRef.current = null;
+    };
+  }, [get]);
+  return null;
+};
+
+// Applies the director's shot, or hands the camera to OrbitControls in free mode
 const CameraController: React.FC<{ 
+  director: CameraDirector;
   growthRef?: React.MutableRefObject<number>;
-}> = ({ growthRef }) => {
-  const controlsRef = useRef<any>(null);
+  distortionRef?: React.MutableRefObject<number>;
+  overrideRef?: React.MutableRefObject<CameraOverride | null>;
+  frozenRef?: React.MutableRefObject<boolean>;
+}> = ({ director, growthRef, distortionRef, overrideRef, frozenRef }) => {
+  const controlsRef = useRef<React.ComponentRef<typeof OrbitControls>>(null);
 
-  useFrame(() => {
-    if (controlsRef.current) {
-      
-      // --- TRACKING TARGET (Follow Lasers) ---
-      if (growthRef) {
-        const growth = growthRef.current;
-        const scanY = THREE.MathUtils.lerp(10.0, -12.0, growth);
-        let targetY = scanY;
-
-        if (growth > 0.9) {
-            targetY = 2.0; 
-        } else if (growth < 0.05) {
-            targetY = 5.0;
-        }
-
-        const currentTarget = controlsRef.current.target;
-        currentTarget.y = THREE.MathUtils.lerp(currentTarget.y, targetY, 0.08);
-      }
-      
-      controlsRef.current.update();
+  useFrame(({ camera }, delta) => {
+    const controls = controlsRef.current;
+    if (!controls || frozenRef?.current) return;
+
+    // --- SEQUENCER CAMERA ---
+    // The director blends back from wherever the sequencer leaves the camera
+    const override = overrideRef?.current;
+    if (override?.position || override?.target) {
+      if (override.target) controls.target.set(...override.target);
+      if (override.position) camera.position.set(...override.position);
+      camera.lookAt(controls.target);
+      director.startBlend();
+      return;
+    }
+
+    const levels = { growth: growthRef?.current ?? 1, distortion: distortionRef?.current ?? 0 };
+    const shot = director.update(delta, levels, camera, controls.target);
+    // Zoom and pan only make sense while the visitor holds the camera
+    controls.enabled = controls.enableZoom = controls.enablePan = !shot;
+    if (shot) {
+      camera.position.copy(shot.position);
+      controls.target.copy(shot.target);
+      camera.lookAt(shot.target);
+    } else {
+      // Orbit state is rebuilt from the camera here, so free control picks up where the shot left off
+      controls.update();
     }
   });
 
   return (
     <OrbitControls 
         ref={controlsRef}
+        makeDefault
         enablePan={false} 
-        enableZoom={false} // Manual zoom disabled
-        autoRotate 
-        autoRotateSpeed={0.8}
+        enableZoom={false}
+        maxDistance={80}
     />
   );
 };
 
-export const RoseExperience: React.FC<RoseExperienceProps> = ({ config, growthRef, distortionRef }) => {
+export const RoseExperience: React.FC<RoseExperienceProps> = ({
+  config,
+  growthRef,
+  distortionRef,
+  modulationRef,
+  effectRef,
+  fingertipsRef,
+  touchSettings = DEFAULT_TOUCH_SETTINGS,
+  construction,
+  postProcessing = DEFAULT_POST_PROCESSING_SETTINGS,
+  particleBudget = DEFAULT_PARTICLE_BUDGET,
+  quality = QUALITY_TIERS[0],
+  onFrame,
+  onBeforeFrame,
+  cameraOverrideRef,
+  director,
+  frozenRef,
+  captureRef,
+  postRef,
+  garden,
+  gardenGrowthRefs,
+  flowerScreenRef,
+}) => {
+  const fallbackDirector = useMemo(() => new CameraDirector(), []);
+  const sceneTouchRef = useRef<SceneTouch>(createSceneTouch(touchSettings));
+  sceneTouchRef.current.settings = touchSettings;
 
   return (
     <Canvas
       camera={{ position: [0, 5, 35], fov: 40 }}
       gl={{ antialias: true, alpha: true }}
-      dpr={[1, 2]}
+      dpr={[Math.min(1, quality.maxDpr), quality.maxDpr]}
       shadows
     >
       <color attach="background" args={['#111']} />
@@ -75,9 +306,11 @@ export const RoseExperience: React.FC<RoseExperienceProps> = ({ config, growthRe
       <pointLight position={[-5, 0, -5]} intensity={0.5} color="#e6ccff" />
       
       {/* Environment for nice reflections */}
-      <Suspense fallback={null}>
-        <Environment preset="studio" blur={1} />
-      </Suspense>
+      {quality.environment && (
+        <Suspense fallback={null}>
+          <Environment preset="studio" blur={1} />
+        </Suspense>
+      )}
 
       {/* Transparent Cube (Edges Only) */}
       <group position={[0, 2, 0]}>
@@ -92,27 +325,64 @@ export const RoseExperience: React.FC<RoseExperienceProps> = ({ config, growthRe
         </mesh>
       </group>
 
-      {/* The Procedural Rose - Scaled Up */}
-      <group position={[0, 2, 0]} scale={[1.5, 1.5, 1.5]}>
-        <Rose 
-            config={config} 
-            growthRef={growthRef} 
-            distortionRef={distortionRef} 
+      {garden?.enabled && garden.flowers.length > 0 ? (
+        <Garden
+          garden={garden}
+          budget={particleBudget}
+          quality={quality}
+          growthRefs={gardenGrowthRefs}
+          distortionRef={distortionRef}
+          modulationRef={modulationRef}
+          effectRef={effectRef}
+          touchRef={sceneTouchRef}
+          construction={construction}
+          screenRef={flowerScreenRef}
         />
-      </group>
+      ) : (
+        /* The Procedural Rose - Scaled Up */
+        <group position={[0, 2, 0]} scale={[1.5, 1.5, 1.5]}>
+          <Rose 
+              config={config} 
+              growthRef={growthRef} 
+              distortionRef={distortionRef} 
+              modulationRef={modulationRef}
+              effectRef={effectRef}
+              touchRef={sceneTouchRef}
+              construction={construction}
+              counts={budgetCounts(particleBudget)}
+              drawFraction={quality.drawFraction}
+              beamSegments={quality.beamSegments}
+          />
+        </group>
+      )}
 
       {/* Shadows on the floor */}
-      <ContactShadows 
-        position={[0, -8, 0]}
-        opacity={0.6} 
-        scale={20} 
-        blur={2} 
-        far={4.5} 
-        resolution={512} 
-        color="#000000" 
-      />
+      {quality.contactShadows && (
+        <ContactShadows 
+          position={[0, -8, 0]}
+          opacity={0.6} 
+          scale={20} 
+          blur={2} 
+          far={4.5} 
+          resolution={512} 
+          color="#000000" 
+        />
+      )}
 
-      <CameraController growthRef={growthRef} />
+      {onBeforeFrame && <FrameDriver onBeforeFrame={onBeforeFrame} />}
+      <CameraController
+        director={director ?? fallbackDirector}
+        growthRef={growthRef}
+        distortionRef={distortionRef}
+        overrideRef={cameraOverrideRef}
+        frozenRef={frozenRef}
+      />
+      {fingertipsRef && <FingertipProjector fingertipsRef={fingertipsRef} touchRef={sceneTouchRef} />}
+      {quality.postProcessing && postProcessingActive(postProcessing) && (
+        <PostEffects settings={postProcessing} distortionRef={distortionRef} postRef={postRef} />
+      )}
+      {onFrame && <FrameSampler onFrame={onFrame} />}
+      {captureRef && <CaptureBridge captureRef={captureRef} />}
     </Canvas>
   );
 };
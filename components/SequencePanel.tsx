@@ -0,0 +1,112 @@
+import React from 'react';
+
+export interface SequenceStatus {
+  name: string;
+  playing: boolean;
+  time: number;
+  duration: number;
+  loop: boolean;
+  // Exhibition mode: a visitor interrupts the show, idling restarts it
+  autopilot: boolean;
+  interrupted: boolean;
+}
+
+interface SequencePanelProps {
+  status: SequenceStatus | null;
+  error: string | null;
+  onLoadFile: (file: File) => void;
+  onLoadDemo: () => void;
+  onExport: () => void;
+  onTogglePlay: () => void;
+  onSeek: (time: number) => void;
+  onToggleLoop: () => void;
+  onToggleAutopilot: () => void;
+  onStop: () => void;
+}
+
+export const SequencePanel: React.FC<SequencePanelProps> = ({
+  status,
+  error,
+  onLoadFile,
+  onLoadDemo,
+  onExport,
+  onTogglePlay,
+  onSeek,
+  onToggleLoop,
+  onToggleAutopilot,
+  onStop,
+}) => {
+  const chip = (active: boolean) =>
+    `px-2 py-1 rounded text-xs transition-colors ${active ? 'bg-gradient-to-r from-pink-500 to-violet-500 text-white' : 'bg-white/5 text-white/60 hover:bg-white/10'}`;
+  const action = 'flex-1 text-center text-xs text-white/50 border border-white/10 rounded py-1 hover:text-white hover:border-white/30 disabled:opacity-30';
+
+  return (
+    <div className="bg-black/60 backdrop-blur-md border border-white/10 p-6 rounded-2xl w-full max-w-sm text-sm shadow-2xl">
+      <div className="flex items-center justify-between mb-4">
+        <label className="text-white/80 font-medium">Sequencer</label>
+        {status && (
+          <button onClick={onStop} className="text-xs text-white/50 hover:text-red-400 transition-colors">
+            Unload
+          </button>
+        )}
+      </div>
+
+      {status ? (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-white/70 truncate">{status.name}</span>
+            <span className="text-white/50 font-mono">
+              {status.time.toFixed(1)}s / {status.duration.toFixed(1)}s
+            </span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={status.duration}
+            step={0.05}
+            value={status.time}
+            onChange={(e) => onSeek(parseFloat(e.target.value))}
+            className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer"
+          />
+          <div className="flex flex-wrap gap-1">
+            <button onClick={onTogglePlay} className={chip(status.playing)}>
+              {status.playing ? 'Pause' : 'Play'}
+            </button>
+            <button onClick={onToggleLoop} className={chip(status.loop)}>
+              Loop
+            </button>
+            <button onClick={onToggleAutopilot} className={chip(status.autopilot)} title="Visitors interrupt the show; it restarts when they leave">
+              Autopilot
+            </button>
+          </div>
+          {status.interrupted && <p className="text-yellow-400 text-xs">Visitor in control; show resumes when idle.</p>}
+        </div>
+      ) : (
+        <p className="text-white/30 text-xs">No sequence loaded.</p>
+      )}
+
+      <div className="flex gap-2 mt-4 pt-4 border-t border-white/10">
+        <button onClick={onLoadDemo} className={action}>
+          Demo Show
+        </button>
+        <label className={`${action} cursor-pointer`}>
+          Load JSON
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onLoadFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <button onClick={onExport} disabled={!status} className={action}>
+          Export
+        </button>
+      </div>
+      {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { SoundSettings } from '../types';
+import { VOLUME_RANGE } from '../utils/soundDesign';
+import { ControlGroup } from './UI';
+
+interface SoundPanelProps {
+  settings: SoundSettings;
+  // False until the browser lets audio start (first click, key or touch)
+  unlocked: boolean;
+  onChange: (settings: SoundSettings) => void;
+}
+
+export const SoundPanel: React.FC<SoundPanelProps> = ({ settings, unlocked, onChange }) => {
+  const chip = (active: boolean) =>
+    `px-2 py-1 rounded text-xs transition-colors ${active ? 'bg-gradient-to-r from-pink-500 to-violet-500 text-white' : 'bg-white/5 text-white/60 hover:bg-white/10'}`;
+
+  return (
+    <div className="bg-black/60 backdrop-blur-md border border-white/10 p-6 rounded-2xl w-full max-w-sm text-sm shadow-2xl">
+      <div className="flex items-center justify-between mb-4">
+        <label className="text-white/80 font-medium">Sound</label>
+        <button onClick={() => onChange({ ...settings, muted: !settings.muted })} className={chip(!settings.muted)}>
+          {settings.muted ? 'Muted' : 'On'}
+        </button>
+      </div>
+      <ControlGroup
+        label="Master Volume"
+        value={settings.volume}
+        {...VOLUME_RANGE}
+        digits={2}
+        onChange={(v) => onChange({ ...settings, volume: v })}
+      />
+      {!unlocked && <p className="text-white/30 text-[10px] mt-3">Sound starts after your first click or key press.</p>}
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { TouchSettings } from '../types';
+import { DEFAULT_TOUCH_SETTINGS, TOUCH_MODES, TOUCH_RANGES } from '../utils/fingertipTouch';
+import { ControlGroup } from './UI';
+
+interface TouchPanelProps {
+  settings: TouchSettings;
+  onChange: (settings: TouchSettings) => void;
+}
+
+export const TouchPanel: React.FC<TouchPanelProps> = ({ settings, onChange }) => {
+  const chip = (active: boolean) =>
+    `px-2 py-1 rounded text-xs transition-colors ${active ? 'bg-gradient-to-r from-pink-500 to-violet-500 text-white' : 'bg-white/5 text-white/60 hover:bg-white/10'}`;
+
+  return (
+    <div className="bg-black/60 backdrop-blur-md border border-white/10 p-6 rounded-2xl w-full max-w-sm text-sm shadow-2xl">
+      <div className="flex items-center justify-between">
+        <label className="text-white/80 font-medium">Fingertip Touch</label>
+        <button onClick={() => onChange({ ...settings, enabled: !settings.enabled })} className={chip(settings.enabled)}>
+          {settings.enabled ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      {settings.enabled && (
+        <div className="space-y-4 mt-4">
+          <div className="flex flex-wrap gap-1">
+            {TOUCH_MODES.map((mode) => (
+              <button key={mode.id} onClick={() => onChange({ ...settings, mode: mode.id })} className={chip(settings.mode === mode.id)}>
+                {mode.label}
+              </button>
+            ))}
+          </div>
+          <ControlGroup
+            label="Radius"
+            value={settings.radius}
+            {...TOUCH_RANGES.radius}
+            digits={1}
+            onChange={(v) => onChange({ ...settings, radius: v })}
+          />
+          <ControlGroup
+            label="Strength"
+            value={settings.strength}
+            {...TOUCH_RANGES.strength}
+            digits={2}
+            onChange={(v) => onChange({ ...settings, strength: v })}
+          />
+          <ControlGroup
+            label="Depth Range"
+            value={settings.depth}
+            {...TOUCH_RANGES.depth}
+            digits={1}
+            onChange={(v) => onChange({ ...settings, depth: v })}
+          />
+          <button
+            onClick={() => onChange({ ...DEFAULT_TOUCH_SETTINGS })}
+            className="text-xs text-white/50 hover:text-pink-400 transition-colors"
+          >
+            Reset
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
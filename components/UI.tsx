@@ -1,12 +1,30 @@
 import React from 'react';
-import { RoseConfig } from '../types';
+import { ColorPalette, RoseConfig } from '../types';
+import { CONFIG_RANGES, PALETTE_COLOR_KEYS, clampToRange } from '../utils/configSchema';
+import { PALETTE_PRESETS, PALETTE_STOP_LABELS, classicPalette } from '../utils/palettes';
+import { SPECIES, SPECIES_IDS, randomSeed } from '../species';
+
+const SPECIES_PARAM_LABELS: Partial<Record<keyof RoseConfig, string>> = {
+  whorls: 'Petal Whorls',
+  petalLength: 'Tepal Length',
+  rayCount: 'Ray Petals',
+  centerSize: 'Disk Size',
+};
 
 interface UIProps {
   config: RoseConfig;
-  onConfigChange: (key: keyof RoseConfig, value: number | string) => void;
+  onConfigChange: (key: keyof RoseConfig, value: RoseConfig[keyof RoseConfig]) => void;
+  // Several fields at once, e.g. a bundled palette and its main color
+  onConfigPatch: (patch: Partial<RoseConfig>) => void;
 }
 
-export const UI: React.FC<UIProps> = ({ config, onConfigChange }) => {
+const chip = (active: boolean) =>
+  `px-2 py-1 rounded text-xs transition-colors ${active ? 'bg-gradient-to-r from-pink-500 to-violet-500 text-white' : 'bg-white/5 text-white/60 hover:bg-white/10'}`;
+
+export const UI: React.FC<UIProps> = ({ config, onConfigChange, onConfigPatch }) => {
+  const editPalette = (changes: Partial<ColorPalette>) =>
+    onConfigChange('palette', { ...(config.palette ?? classicPalette(config.color)), ...changes });
+
   return (
     <div className="bg-black/60 backdrop-blur-md border border-white/10 p-6 rounded-2xl w-full max-w-sm text-sm shadow-2xl">
       <h1 className="text-2xl font-light mb-1 bg-clip-text text-transparent bg-gradient-to-r from-pink-500 to-violet-500">
@@ -15,6 +33,58 @@ export const UI: React.FC<UIProps> = ({ config, onConfigChange }) => {
       <p className="text-white/50 mb-6 text-xs">Procedural Point Cloud System</p>
 
       <div className="space-y-5">
+
+        {/* Species */}
+        <div className="space-y-2">
+          <label className="text-white/80 font-medium">Species</label>
+          <div className="flex flex-wrap gap-1">
+            {SPECIES_IDS.map((id) => (
+              <button
+                key={id}
+                onClick={() => onConfigChange('species', id)}
+                className={chip(config.species === id)}
+              >
+                {SPECIES[id].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Seed */}
+        <div className="flex items-center justify-between">
+          <label className="text-white/80 font-medium">Seed</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={CONFIG_RANGES.seed.min}
+              max={CONFIG_RANGES.seed.max}
+              step={1}
+              value={config.seed}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                if (Number.isFinite(value)) onConfigChange('seed', clampToRange(value, CONFIG_RANGES.seed));
+              }}
+              className="w-20 bg-white/5 border border-white/10 rounded px-2 py-1 text-xs text-white font-mono focus:outline-none focus:ring-2 focus:ring-pink-500/50"
+            />
+            <button
+              onClick={() => onConfigChange('seed', randomSeed())}
+              className="px-2 py-1 rounded text-xs bg-white/5 text-white/60 hover:bg-white/10 transition-colors"
+            >
+              Reroll
+            </button>
+          </div>
+        </div>
+
+        {/* Species-specific Sliders */}
+        {SPECIES[config.species].params.map((key) => (
+          <ControlGroup
+            key={key}
+            label={SPECIES_PARAM_LABELS[key] ?? key}
+            value={config[key]}
+            {...CONFIG_RANGES[key]}
+            onChange={(v) => onConfigChange(key, v)}
+          />
+        ))}
         
         {/* Color Picker */}
         <div className="flex items-center justify-between">
@@ -30,58 +100,118 @@ export const UI: React.FC<UIProps> = ({ config, onConfigChange }) => {
           </div>
         </div>
 
+        {/* Palette */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-white/80 font-medium">Palette</label>
+            {!config.palette && (
+              <button
+                onClick={() => editPalette({})}
+                className="text-xs text-white/50 hover:text-pink-400 transition-colors"
+              >
+                Customize
+              </button>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-1">
+            <button onClick={() => onConfigChange('palette', null)} className={chip(!config.palette)}>
+              Classic
+            </button>
+            {PALETTE_PRESETS.map(({ color, palette }) => (
+              <button
+                key={palette.name}
+                onClick={() => onConfigPatch({ color, palette: { ...palette, glow: [...palette.glow] } })}
+                className={chip(config.palette?.name === palette.name)}
+              >
+                {palette.name}
+              </button>
+            ))}
+          </div>
+
+          {config.palette && (
+            <div className="space-y-2 pt-1">
+              <input
+                type="text"
+                value={config.palette.name}
+                placeholder="Palette name"
+                onChange={(e) => editPalette({ name: e.target.value })}
+                className="w-full bg-white/5 border border-white/10 rounded px-2 py-1 text-xs text-white placeholder-white/30 focus:outline-none focus:ring-2 focus:ring-pink-500/50"
+              />
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                {PALETTE_COLOR_KEYS.map((key) => (
+                  <label key={key} className="flex items-center justify-between text-xs text-white/60">
+                    {PALETTE_STOP_LABELS[key]}
+                    <input
+                      type="color"
+                      value={config.palette![key]}
+                      onChange={(e) => editPalette({ [key]: e.target.value })}
+                      className="w-6 h-6 rounded-full border-none cursor-pointer bg-transparent"
+                    />
+                  </label>
+                ))}
+              </div>
+              <div className="flex items-center justify-between text-xs text-white/60">
+                <span>Distortion Glow</span>
+                <div className="flex gap-1">
+                  {config.palette.glow.map((hex, i) => (
+                    <input
+                      key={i}
+                      type="color"
+                      value={hex}
+                      onChange={(e) => {
+                        const glow = [...config.palette!.glow] as ColorPalette['glow'];
+                        glow[i] = e.target.value;
+                        editPalette({ glow });
+                      }}
+                      className="w-6 h-6 rounded-full border-none cursor-pointer bg-transparent"
+                    />
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* Sliders */}
         <ControlGroup 
           label="Petal Layers" 
           value={config.petalCount} 
-          min={1} 
-          max={10} 
-          step={0.1}
+          {...CONFIG_RANGES.petalCount}
           onChange={(v) => onConfigChange('petalCount', v)} 
         />
 
         <ControlGroup 
           label="Twist Factor" 
           value={config.twist} 
-          min={0} 
-          max={10} 
-          step={0.1}
+          {...CONFIG_RANGES.twist}
           onChange={(v) => onConfigChange('twist', v)} 
         />
 
         <ControlGroup 
           label="Bloom Openness" 
           value={config.openness} 
-          min={0} 
-          max={3} 
-          step={0.1}
+          {...CONFIG_RANGES.openness}
           onChange={(v) => onConfigChange('openness', v)} 
         />
 
          <ControlGroup 
           label="Scattering Detail" 
           value={config.detail} 
-          min={0} 
-          max={5} 
-          step={0.1}
+          {...CONFIG_RANGES.detail}
           onChange={(v) => onConfigChange('detail', v)} 
         />
 
         <ControlGroup 
           label="Particle Size" 
           value={config.particleSize} 
-          min={0.01} 
-          max={0.2} 
-          step={0.001}
+          {...CONFIG_RANGES.particleSize}
           onChange={(v) => onConfigChange('particleSize', v)} 
         />
 
         <ControlGroup 
           label="Animation Speed" 
           value={config.speed} 
-          min={0} 
-          max={1} 
-          step={0.01}
+          {...CONFIG_RANGES.speed}
           onChange={(v) => onConfigChange('speed', v)} 
         />
 
@@ -91,18 +221,20 @@ export const UI: React.FC<UIProps> = ({ config, onConfigChange }) => {
 };
 
 // Helper Component for Sliders
-const ControlGroup: React.FC<{
+export const ControlGroup: React.FC<{
   label: string;
   value: number;
   min: number;
   max: number;
   step: number;
+  // Decimals shown next to the label
+  digits?: number;
   onChange: (val: number) => void;
-}> = ({ label, value, min, max, step, onChange }) => (
+}> = ({ label, value, min, max, step, digits = 3, onChange }) => (
   <div className="space-y-2">
     <div className="flex justify-between">
       <label className="text-white/80">{label}</label>
-      <span className="text-white/50 font-mono text-xs">{value.toFixed(3)}</span>
+      <span className="text-white/50 font-mono text-xs">{value.toFixed(digits)}</span>
     </div>
     <input
       type="range"
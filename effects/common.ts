@@ -0,0 +1,45 @@
+import { DistortionEffectId } from '../types';
+import { Vec3 } from '../species/glsl';
+import { ConfigRange } from '../utils/configSchema';
+
+export type RGB = [number, number, number];
+
+export interface EffectParam extends ConfigRange {
+  label: string;
+  default: number;
+}
+
+// What the effect functions read besides the point itself
+export interface EffectContext {
+  time: number;
+  distortion: number;
+  random: number;
+  // Always four values (p.x..p.w in the GLSL); unused ones are 0
+  params: number[];
+}
+
+export interface DistortionEffect {
+  id: DistortionEffectId;
+  label: string;
+  // Up to four tunables, read as p.x, p.y, p.z, p.w
+  params: EffectParam[];
+  // Glow colors c0, c1, c2 as raw shader values (not sRGB-decoded)
+  colors: [string, string, string];
+  // GLSL for the vertex shader, defining
+  //   vec3 <id>Head(vec3 pos, vec3 normal, float rnd, float d, vec4 p)
+  //   vec3 <id>Body(vec3 pos, vec3 dir, float rnd, float type, float bend, float d, vec4 p)
+  vertexChunk: string;
+  // GLSL for the fragment shader, defining
+  //   vec4 <id>Glow(vec3 color, vec3 pos, float rnd, float d, vec4 p, vec3 c0, vec3 c1, vec3 c2)
+  // which returns the new color and an alpha multiplier
+  fragmentChunk: string;
+  // The same functions on the CPU, for point-cloud exports; keep in step with the GLSL
+  head: (pos: Vec3, normal: Vec3, ctx: EffectContext) => Vec3;
+  body: (pos: Vec3, direction: Vec3, type: number, bend: number, ctx: EffectContext) => Vec3;
+  glow: (color: RGB, pos: Vec3, ctx: EffectContext, colors: RGB[]) => RGB;
+}
+
+// Parameter values padded to the vec4 the shaders take
+export const padParams = (values: number[]) => [0, 1, 2, 3].map((i) => values[i] ?? 0);
+
+export const defaultParams = (effect: DistortionEffect) => effect.params.map((param) => param.default);
@@ -0,0 +1,58 @@
+import { DistortionEffect, EffectContext, RGB } from './common';
+import { Vec3, fract, mix } from '../species/glsl';
+
+// dustDrift on the CPU
+const dustDrift = (pos: Vec3, { time: t, distortion: d, random: rnd, params: p }: EffectContext): Vec3 => {
+  const lift = d * (0.3 + rnd);
+  return {
+    x: pos.x + lift * p[1] + Math.sin(t * 1.5 + rnd * 40) * 0.5 * d,
+    y: pos.y + lift * p[0] * 0.6,
+    z: pos.z + Math.cos(t * 1.2 + rnd * 33) * 0.5 * d,
+  };
+};
+
+// Dissolve to dust: points lift off and blow away on a breeze, greying and fading out
+export const dust: DistortionEffect = {
+  id: 'dust',
+  label: 'Dust',
+  params: [
+    { label: 'Lift', min: 0, max: 10, step: 0.1, default: 5 },
+    { label: 'Wind', min: -6, max: 6, step: 0.1, default: 2 },
+    { label: 'Fade', min: 0, max: 1, step: 0.01, default: 0.8 },
+  ],
+  colors: ['#b3aba0', '#ff6619', '#ffffff'],
+  vertexChunk: `
+  vec3 dustDrift(vec3 pos, float rnd, float d, vec4 p) {
+    float lift = d * (0.3 + rnd);
+    pos.y += lift * p.x * 0.6;
+    pos.x += lift * p.y + sin(uTime * 1.5 + rnd * 40.0) * 0.5 * d;
+    pos.z += cos(uTime * 1.2 + rnd * 33.0) * 0.5 * d;
+    return pos;
+  }
+
+  vec3 dustHead(vec3 pos, vec3 normal, float rnd, float d, vec4 p) {
+    return dustDrift(pos, rnd, d, p);
+  }
+
+  vec3 dustBody(vec3 pos, vec3 dir, float rnd, float type, float bend, float d, vec4 p) {
+    return dustDrift(pos, rnd, d, p);
+  }
+  `,
+  fragmentChunk: `
+  vec4 dustGlow(vec3 color, vec3 pos, float rnd, float d, vec4 p, vec3 c0, vec3 c1, vec3 c2) {
+    // Ash grey with a few glowing embers
+    float ember = step(0.93, fract(rnd * 37.0));
+    float grey = dot(color, vec3(0.299, 0.587, 0.114));
+    color = mix(color, vec3(grey) * c0, d);
+    color += c1 * ember * d * 3.0 + c2 * (1.0 - ember) * d * 0.1;
+    return vec4(color, max(0.0, 1.0 - d * p.z * (0.3 + 0.7 * rnd)));
+  }
+  `,
+  head: (pos, _normal, ctx) => dustDrift(pos, ctx),
+  body: (pos, _direction, _type, _bend, ctx) => dustDrift(pos, ctx),
+  glow: (color, _pos, { distortion: d, random: rnd }, [c0, c1, c2]) => {
+    const ember = fract(rnd * 37) >= 0.93 ? 1 : 0;
+    const grey = color[0] * 0.299 + color[1] * 0.587 + color[2] * 0.114;
+    return [0, 1, 2].map((i) => mix(color[i], grey * c0[i], d) + c1[i] * ember * d * 3 + c2[i] * (1 - ember) * d * 0.1) as RGB;
+  },
+};
@@ -0,0 +1,55 @@
+import { DistortionEffectId } from '../types';
+import { DistortionEffect } from './common';
+import { vortex } from './vortex';
+import { shatter } from './shatter';
+import { melt } from './melt';
+import { ripple } from './ripple';
+import { voxel } from './voxel';
+import { dust } from './dust';
+
+export type { DistortionEffect, EffectContext, EffectParam, RGB } from './common';
+export { defaultParams, padParams } from './common';
+
+export const EFFECTS: Record<DistortionEffectId, DistortionEffect> = {
+  vortex,
+  shatter,
+  melt,
+  ripple,
+  voxel,
+  dust,
+};
+
+// Order also gives each effect its index in the shaders (uEffectA/uEffectB)
+export const EFFECT_IDS = Object.keys(EFFECTS) as DistortionEffectId[];
+
+export const isEffectId = (value: unknown): value is DistortionEffectId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(EFFECTS, value);
+
+export const effectIndex = (id: DistortionEffectId) => EFFECT_IDS.indexOf(id);
+
+export const effectAt = (index: number) => EFFECTS[EFFECT_IDS[Math.round(index)] ?? 'vortex'];
+
+// `if (id < 0.5) return a(...); if (id < 1.5) return b(...); ...` over every effect
+const dispatch = (signature: string, suffix: string, args: string) => `
+  ${signature} {
+    ${EFFECT_IDS.slice(0, -1).map((id, i) => `if (id < ${i}.5) return ${id}${suffix}(${args});`).join('\n    ')}
+    return ${EFFECT_IDS[EFFECT_IDS.length - 1]}${suffix}(${args});
+  }
+`;
+
+// Every effect's vertex functions plus distortHead/distortBody picking one by index
+export const EFFECT_VERTEX_GLSL = [
+  ...EFFECT_IDS.map((id) => EFFECTS[id].vertexChunk),
+  dispatch('vec3 distortHead(float id, vec3 pos, vec3 normal, float rnd, float d, vec4 p)', 'Head', 'pos, normal, rnd, d, p'),
+  dispatch('vec3 distortBody(float id, vec3 pos, vec3 dir, float rnd, float type, float bend, float d, vec4 p)', 'Body', 'pos, dir, rnd, type, bend, d, p'),
+].join('\n');
+
+// Every effect's glow plus distortGlow picking one by index
+export const EFFECT_FRAGMENT_GLSL = [
+  ...EFFECT_IDS.map((id) => EFFECTS[id].fragmentChunk),
+  dispatch(
+    'vec4 distortGlow(float id, vec3 color, vec3 pos, float rnd, float d, vec4 p, vec3 c0, vec3 c1, vec3 c2)',
+    'Glow',
+    'color, pos, rnd, d, p, c0, c1, c2'
+  ),
+].join('\n');
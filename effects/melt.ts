@@ -0,0 +1,64 @@
+import { DistortionEffect, EffectContext, RGB } from './common';
+import { Vec3, clamp, mix, smoothstep } from '../species/glsl';
+
+// meltFlow on the CPU
+const meltFlow = (pos: Vec3, { time: t, distortion: d, random: rnd, params: p }: EffectContext, rate: number): Vec3 => {
+  const fall = d * p[0] * rate * (0.4 + rnd * p[1]);
+  const floorY = p[2] + rnd * 0.3;
+  const y = pos.y - fall;
+  const spread = 1 + d * 0.2 + clamp((floorY - y) * 0.5, 0, 1) * 1.5;
+  return {
+    x: pos.x * spread + Math.sin(t * 2 + rnd * 10) * 0.05 * d,
+    y: Math.max(y, floorY),
+    z: pos.z * spread,
+  };
+};
+
+// Points slide down at their own rate and pool into a puddle on the floor
+export const melt: DistortionEffect = {
+  id: 'melt',
+  label: 'Melt',
+  params: [
+    { label: 'Gravity', min: 0, max: 15, step: 0.1, default: 8 },
+    { label: 'Drip', min: 0, max: 2, step: 0.05, default: 1 },
+    { label: 'Floor', min: -12, max: 0, step: 0.5, default: -6.5 },
+  ],
+  colors: ['#ff8000', '#cc1a00', '#ffe666'],
+  vertexChunk: `
+  vec3 meltFlow(vec3 pos, float rnd, float d, vec4 p, float rate) {
+    float fall = d * p.x * rate * (0.4 + rnd * p.y);
+    float floorY = p.z + rnd * 0.3;
+    float y = pos.y - fall;
+    // Whatever reaches the floor spreads out
+    float pooled = clamp((floorY - y) * 0.5, 0.0, 1.0);
+    pos.y = max(y, floorY);
+    pos.xz *= 1.0 + d * 0.2 + pooled * 1.5;
+    pos.x += sin(uTime * 2.0 + rnd * 10.0) * 0.05 * d;
+    return pos;
+  }
+
+  vec3 meltHead(vec3 pos, vec3 normal, float rnd, float d, vec4 p) {
+    return meltFlow(pos, rnd, d, p, 1.0);
+  }
+
+  vec3 meltBody(vec3 pos, vec3 dir, float rnd, float type, float bend, float d, vec4 p) {
+    return meltFlow(pos, rnd, d, p, 0.6);
+  }
+  `,
+  fragmentChunk: `
+  vec4 meltGlow(vec3 color, vec3 pos, float rnd, float d, vec4 p, vec3 c0, vec3 c1, vec3 c2) {
+    // Molten bands, hottest where it pools
+    float heat = 0.5 + 0.5 * sin(pos.y * 2.0 + uTime * 3.0 + rnd * 6.28);
+    color = mix(color, mix(c1, c0, heat) * 2.0, d * 0.7);
+    color += c2 * smoothstep(p.z + 2.0, p.z, pos.y) * d * 1.5;
+    return vec4(color, 1.0);
+  }
+  `,
+  head: (pos, _normal, ctx) => meltFlow(pos, ctx, 1),
+  body: (pos, _direction, _type, _bend, ctx) => meltFlow(pos, ctx, 0.6),
+  glow: (color, pos, { time: t, distortion: d, random: rnd, params: p }, [c0, c1, c2]) => {
+    const heat = 0.5 + 0.5 * Math.sin(pos.y * 2 + t * 3 + rnd * 6.28);
+    const pool = smoothstep(p[2] + 2, p[2], pos.y) * d * 1.5;
+    return [0, 1, 2].map((i) => mix(color[i], mix(c1[i], c0[i], heat) * 2, d * 0.7) + c2[i] * pool) as RGB;
+  },
+};
@@ -0,0 +1,55 @@
+import { DistortionEffect, RGB } from './common';
+import { length3, mix } from '../species/glsl';
+
+// Magnetic ripple: rings travel out from the center and push points along their normal
+export const ripple: DistortionEffect = {
+  id: 'ripple',
+  label: 'Ripple',
+  params: [
+    { label: 'Frequency', min: 0.5, max: 10, step: 0.1, default: 3 },
+    { label: 'Amplitude', min: 0, max: 3, step: 0.05, default: 1.2 },
+    { label: 'Speed', min: 0, max: 12, step: 0.1, default: 4 },
+  ],
+  colors: ['#9933ff', '#3380ff', '#ffffff'],
+  vertexChunk: `
+  vec3 rippleHead(vec3 pos, vec3 normal, float rnd, float d, vec4 p) {
+    float wave = sin(length(pos) * p.x - uTime * p.z);
+    pos += normal * wave * p.y * d;
+    // Field lines: a slow saddle across the head
+    pos.y += cos(atan(pos.z, pos.x) * 2.0 + uTime) * 0.3 * d;
+    return pos;
+  }
+
+  vec3 rippleBody(vec3 pos, vec3 dir, float rnd, float type, float bend, float d, vec4 p) {
+    float radius = max(length(pos.xz), 1e-3);
+    float wave = sin((radius + pos.y * 0.5) * p.x - uTime * p.z);
+    pos.xz += pos.xz / radius * wave * p.y * 0.5 * d;
+    return pos;
+  }
+  `,
+  fragmentChunk: `
+  vec4 rippleGlow(vec3 color, vec3 pos, float rnd, float d, vec4 p, vec3 c0, vec3 c1, vec3 c2) {
+    // Electric bands riding the wave, white-hot at the crests
+    float band = sin(length(pos) * p.x - uTime * p.z) * 0.5 + 0.5;
+    color += mix(c0, c1, band) * d * 2.5 + c2 * pow(band, 8.0) * d * 2.0;
+    return vec4(color, 0.8 + 0.2 * band);
+  }
+  `,
+  head: (pos, normal, { time: t, distortion: d, params: p }) => {
+    const wave = Math.sin(length3(pos) * p[0] - t * p[2]) * p[1] * d;
+    const x = pos.x + normal.x * wave;
+    const z = pos.z + normal.z * wave;
+    const y = pos.y + normal.y * wave + Math.cos(Math.atan2(z, x) * 2 + t) * 0.3 * d;
+    return { x, y, z };
+  },
+  body: (pos, _direction, _type, _bend, { time: t, distortion: d, params: p }) => {
+    const radius = Math.max(Math.hypot(pos.x, pos.z), 1e-3);
+    const push = Math.sin((radius + pos.y * 0.5) * p[0] - t * p[2]) * p[1] * 0.5 * d / radius;
+    return { x: pos.x + pos.x * push, y: pos.y, z: pos.z + pos.z * push };
+  },
+  glow: (color, pos, { time: t, distortion: d, params: p }, [c0, c1, c2]) => {
+    const band = Math.sin(length3(pos) * p[0] - t * p[2]) * 0.5 + 0.5;
+    const crest = Math.pow(band, 8) * d * 2;
+    return [0, 1, 2].map((i) => color[i] + mix(c0[i], c1[i], band) * d * 2.5 + c2[i] * crest) as RGB;
+  },
+};
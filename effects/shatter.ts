@@ -0,0 +1,70 @@
+import { DistortionEffect, EffectContext, RGB } from './common';
+import { Vec3, hash, mix, normalize, smoothstep } from '../species/glsl';
+
+// shatterShard on the CPU
+const shatterShard = (pos: Vec3, { distortion: d, random: rnd, params: p }: EffectContext, reach: number): Vec3 => {
+  const shard = Math.floor(rnd * p[0]);
+  const dir = normalize({
+    x: hash(shard, 1) - 0.5 + 1e-4,
+    y: hash(shard, 2) - 0.5 + 1e-4,
+    z: hash(shard, 3) - 0.5 + 1e-4,
+  });
+  const spin = (hash(shard, 4) - 0.5) * 4 * d;
+  const c = Math.cos(spin);
+  const s = Math.sin(spin);
+  const push = d * p[1] * reach * (0.5 + hash(shard, 5));
+  return {
+    x: c * pos.x + s * pos.z + dir.x * push,
+    y: pos.y + dir.y * push - d * d * p[2] * (0.5 + hash(shard, 6)),
+    z: -s * pos.x + c * pos.z + dir.z * push,
+  };
+};
+
+// Points grouped by aRandom into shards that fly apart, tumble and fall
+export const shatter: DistortionEffect = {
+  id: 'shatter',
+  label: 'Shatter',
+  params: [
+    { label: 'Shards', min: 2, max: 64, step: 1, default: 24 },
+    { label: 'Distance', min: 0, max: 10, step: 0.1, default: 4 },
+    { label: 'Fall', min: 0, max: 5, step: 0.1, default: 1.5 },
+  ],
+  colors: ['#e6f2ff', '#4dd9ff', '#1a3380'],
+  vertexChunk: `
+  vec3 shatterShard(vec3 pos, float rnd, float d, vec4 p, float reach) {
+    float shard = floor(rnd * p.x);
+    vec3 dir = normalize(vec3(hash(vec2(shard, 1.0)), hash(vec2(shard, 2.0)), hash(vec2(shard, 3.0))) - 0.5 + 1e-4);
+    float spin = (hash(vec2(shard, 4.0)) - 0.5) * 4.0 * d;
+    float c = cos(spin);
+    float s = sin(spin);
+    pos.xz = vec2(c * pos.x + s * pos.z, -s * pos.x + c * pos.z);
+    pos += dir * d * p.y * reach * (0.5 + hash(vec2(shard, 5.0)));
+    pos.y -= d * d * p.z * (0.5 + hash(vec2(shard, 6.0)));
+    return pos;
+  }
+
+  vec3 shatterHead(vec3 pos, vec3 normal, float rnd, float d, vec4 p) {
+    return shatterShard(pos, rnd, d, p, 1.0);
+  }
+
+  vec3 shatterBody(vec3 pos, vec3 dir, float rnd, float type, float bend, float d, vec4 p) {
+    return shatterShard(pos, rnd, d, p, 0.5);
+  }
+  `,
+  fragmentChunk: `
+  vec4 shatterGlow(vec3 color, vec3 pos, float rnd, float d, vec4 p, vec3 c0, vec3 c1, vec3 c2) {
+    // Icy tint with bright edges: points near either end of their shard's slice
+    float edge = smoothstep(0.7, 1.0, abs(fract(rnd * p.x) - 0.5) * 2.0);
+    color = mix(color, c2, d * 0.5);
+    color += mix(c1, c0, edge) * d * 2.0;
+    return vec4(color, 1.0);
+  }
+  `,
+  head: (pos, _normal, ctx) => shatterShard(pos, ctx, 1),
+  body: (pos, _direction, _type, _bend, ctx) => shatterShard(pos, ctx, 0.5),
+  glow: (color, _pos, { distortion: d, random: rnd, params: p }, [c0, c1, c2]) => {
+    const rawEdge = Math.abs(rnd * p[0] - Math.floor(rnd * p[0]) - 0.5) * 2;
+    const edge = smoothstep(0.7, 1, rawEdge);
+    return [0, 1, 2].map((i) => mix(color[i], c2[i], d * 0.5) + mix(c1[i], c0[i], edge) * d * 2) as RGB;
+  },
+};
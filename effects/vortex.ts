@@ -0,0 +1,100 @@
+import { DistortionEffect, RGB } from './common';
+import { mix } from '../species/glsl';
+
+// The original effect: spiral twist, outward explosion and chaotic jitter
+export const vortex: DistortionEffect = {
+  id: 'vortex',
+  label: 'Vortex',
+  params: [
+    { label: 'Spin', min: 0, max: 3, step: 0.05, default: 1 },
+    { label: 'Burst', min: 0, max: 3, step: 0.05, default: 1 },
+    { label: 'Chaos', min: 0, max: 3, step: 0.05, default: 1 },
+  ],
+  colors: ['#ff33cc', '#33ffff', '#ffcc00'],
+  vertexChunk: `
+  vec3 vortexHead(vec3 pos, vec3 normal, float rnd, float d, vec4 p) {
+    // Intense spiral twist distortion
+    float distortAngle = d * 3.14159 * 4.0 * p.x * (1.0 + rnd * 1.5);
+    float distortRadius = length(pos.xz);
+    float originalAngle = atan(pos.z, pos.x);
+    float newAngle = originalAngle + distortAngle * (1.0 - pos.y * 0.3);
+
+    // Strong expansion outward with random scatter
+    float expansion = 1.0 + d * 3.0 * p.y * rnd;
+    pos.x = cos(newAngle) * distortRadius * expansion;
+    pos.z = sin(newAngle) * distortRadius * expansion;
+
+    // Violent vertical scatter and explosion
+    float verticalChaos = sin(rnd * 50.0 + uTime * 5.0) * d * 2.0 * p.z;
+    pos.y = pos.y * (1.0 - d * 0.6) + verticalChaos;
+
+    // Wild chaotic displacement in all directions
+    pos += vec3(sin(uTime * 8.0 + rnd * 30.0), cos(uTime * 6.0 + rnd * 25.0), sin(uTime * 7.0 + rnd * 35.0)) * d * 0.8 * p.z;
+
+    // Particle explosion outward
+    return pos + normal * d * p.y * (0.5 + rnd * 1.5);
+  }
+
+  vec3 vortexBody(vec3 pos, vec3 dir, float rnd, float type, float bend, float d, vec4 p) {
+    float stemDistort = d * (1.0 + bend) * 2.0 * p.z;
+    pos.x += sin(pos.y * 4.0 + uTime * 5.0) * stemDistort * 1.2;
+    pos.z += cos(pos.y * 4.0 + uTime * 5.0 + rnd * 6.28) * stemDistort * 1.2;
+
+    // Wild vertical wave
+    pos.y += sin(uTime * 6.0 + rnd * 20.0) * d * 0.5 * p.z;
+
+    // Explosive leaf scatter with jitter
+    if (type > 1.5) {
+      pos += dir * d * 2.5 * p.y * (0.5 + rnd);
+      pos.x += sin(uTime * 10.0 + rnd * 40.0) * d * 0.4 * p.z;
+      pos.z += cos(uTime * 10.0 + rnd * 40.0) * d * 0.4 * p.z;
+    }
+    return pos;
+  }
+  `,
+  fragmentChunk: `
+  vec4 vortexGlow(vec3 color, vec3 pos, float rnd, float d, vec4 p, vec3 c0, vec3 c1, vec3 c2) {
+    // Multi-color glitch glow with flickering alpha
+    float flicker = sin(rnd * 100.0 + pos.x * 10.0) * 0.5 + 0.5;
+    color += mix(c0, c1, flicker) * d * 3.0;
+    color += c2 * sin(rnd * 50.0) * d * 1.5;
+    return vec4(color, 0.7 + 0.3 * sin(rnd * 80.0 + pos.y * 5.0));
+  }
+  `,
+  head: (pos, normal, { time: t, distortion: d, random: rnd, params: p }) => {
+    const distortAngle = d * 3.14159 * 4 * p[0] * (1 + rnd * 1.5);
+    const distortRadius = Math.hypot(pos.x, pos.z);
+    const newAngle = Math.atan2(pos.z, pos.x) + distortAngle * (1 - pos.y * 0.3);
+    const expansion = 1 + d * 3 * p[1] * rnd;
+    let x = Math.cos(newAngle) * distortRadius * expansion;
+    let z = Math.sin(newAngle) * distortRadius * expansion;
+    let y = pos.y * (1 - d * 0.6) + Math.sin(rnd * 50 + t * 5) * d * 2 * p[2];
+
+    const chaos = d * 0.8 * p[2];
+    x += Math.sin(t * 8 + rnd * 30) * chaos;
+    y += Math.cos(t * 6 + rnd * 25) * chaos;
+    z += Math.sin(t * 7 + rnd * 35) * chaos;
+
+    const burst = d * p[1] * (0.5 + rnd * 1.5);
+    return { x: x + normal.x * burst, y: y + normal.y * burst, z: z + normal.z * burst };
+  },
+  body: (pos, dir, type, bend, { time: t, distortion: d, random: rnd, params: p }) => {
+    let { x, y, z } = pos;
+    const stemDistort = d * (1 + bend) * 2 * p[2];
+    x += Math.sin(y * 4 + t * 5) * stemDistort * 1.2;
+    z += Math.cos(y * 4 + t * 5 + rnd * 6.28) * stemDistort * 1.2;
+    y += Math.sin(t * 6 + rnd * 20) * d * 0.5 * p[2];
+    if (type > 1.5) {
+      const scatter = d * 2.5 * p[1] * (0.5 + rnd);
+      x += dir.x * scatter + Math.sin(t * 10 + rnd * 40) * d * 0.4 * p[2];
+      y += dir.y * scatter;
+      z += dir.z * scatter + Math.cos(t * 10 + rnd * 40) * d * 0.4 * p[2];
+    }
+    return { x, y, z };
+  },
+  glow: (color, pos, { distortion: d, random: rnd }, [c0, c1, c2]) => {
+    const flicker = Math.sin(rnd * 100 + pos.x * 10) * 0.5 + 0.5;
+    const gold = Math.sin(rnd * 50) * d * 1.5;
+    return [0, 1, 2].map((i) => color[i] + mix(c0[i], c1[i], flicker) * d * 3 + c2[i] * gold) as RGB;
+  },
+};
@@ -0,0 +1,64 @@
+import { DistortionEffect, EffectContext, RGB } from './common';
+import { Vec3, fract, hash, mix, smoothstep } from '../species/glsl';
+
+// voxelSnap on the CPU
+const voxelSnap = (pos: Vec3, { distortion: d, params: p }: EffectContext): Vec3 => {
+  const cell = mix(0.05, p[0], d);
+  const sx = (Math.floor(pos.x / cell) + 0.5) * cell;
+  const sy = (Math.floor(pos.y / cell) + 0.5) * cell;
+  const sz = (Math.floor(pos.z / cell) + 0.5) * cell;
+  const snap = smoothstep(0, 0.3, d);
+  const scatter = d * p[1];
+  return {
+    x: mix(pos.x, sx, snap) + (hash(sx, sy) - 0.5) * scatter,
+    y: mix(pos.y, sy, snap) + (hash(sy, sz) - 0.5) * scatter,
+    z: mix(pos.z, sz, snap) + (hash(sz, sx) - 0.5) * scatter,
+  };
+};
+
+// Pixelate: points lock onto a grid that coarsens with distortion, then cells drift apart
+export const voxel: DistortionEffect = {
+  id: 'voxel',
+  label: 'Voxel',
+  params: [
+    { label: 'Voxel Size', min: 0.1, max: 2, step: 0.05, default: 0.6 },
+    { label: 'Scatter', min: 0, max: 3, step: 0.05, default: 0.5 },
+    { label: 'Blink', min: 0, max: 20, step: 0.5, default: 6 },
+  ],
+  colors: ['#33ff66', '#ff33cc', '#66ffff'],
+  vertexChunk: `
+  vec3 voxelSnap(vec3 pos, float d, vec4 p) {
+    float cell = mix(0.05, p.x, d);
+    vec3 snapped = (floor(pos / cell) + 0.5) * cell;
+    vec3 jitter = vec3(hash(snapped.xy), hash(snapped.yz), hash(snapped.zx)) - 0.5;
+    return mix(pos, snapped, smoothstep(0.0, 0.3, d)) + jitter * d * p.y;
+  }
+
+  vec3 voxelHead(vec3 pos, vec3 normal, float rnd, float d, vec4 p) {
+    return voxelSnap(pos, d, p);
+  }
+
+  vec3 voxelBody(vec3 pos, vec3 dir, float rnd, float type, float bend, float d, vec4 p) {
+    return voxelSnap(pos, d, p);
+  }
+  `,
+  fragmentChunk: `
+  vec4 voxelGlow(vec3 color, vec3 pos, float rnd, float d, vec4 p, vec3 c0, vec3 c1, vec3 c2) {
+    // Retro checkerboard per cell, with random cells blinking
+    float cell = mix(0.05, p.x, d);
+    float checker = mod(floor(pos.x / cell) + floor(pos.y / cell) + floor(pos.z / cell), 2.0);
+    color = mix(color, mix(c0, c1, checker), d * 0.6);
+    color += c2 * step(0.95, fract(rnd * 13.0 + floor(uTime * p.z))) * d * 2.0;
+    return vec4(color, 1.0);
+  }
+  `,
+  head: (pos, _normal, ctx) => voxelSnap(pos, ctx),
+  body: (pos, _direction, _type, _bend, ctx) => voxelSnap(pos, ctx),
+  glow: (color, pos, { time: t, distortion: d, random: rnd, params: p }, [c0, c1, c2]) => {
+    const cell = mix(0.05, p[0], d);
+    const sum = Math.floor(pos.x / cell) + Math.floor(pos.y / cell) + Math.floor(pos.z / cell);
+    const checker = sum - 2 * Math.floor(sum / 2);
+    const blink = fract(rnd * 13 + Math.floor(t * p[2])) >= 0.95 ? d * 2 : 0;
+    return [0, 1, 2].map((i) => mix(color[i], mix(c0[i], c1[i], checker), d * 0.6) + c2[i] * blink) as RGB;
+  },
+};
@@ -0,0 +1,173 @@
+import { RoseConfig, SpeciesId } from '../types';
+import { ShapeUniforms, Vec3 } from './glsl';
+import { Random, createRandom } from './random';
+import type { NumericKey } from '../utils/configSchema';
+
+// Attribute arrays for the point cloud, in the layout Rose uploads. Sized up
+// front from the particle counts; `count` is how many points were written.
+export interface GeometryBuffers {
+  count: number;
+  positions: Float32Array;
+  randoms: Float32Array;
+  types: Float32Array; // 0: Flower, 1: Stem, 2: Leaf
+  directions: Float32Array;
+}
+
+// Buffers plus the seeded generator every random choice while filling them draws from
+export interface GeometryBuilder extends GeometryBuffers {
+  random: Random;
+}
+
+export interface ParticleCounts {
+  head: number;
+  stem: number;
+  leaves: number;
+}
+
+export interface FlowerSpecies {
+  id: SpeciesId;
+  label: string;
+  // Species-specific numeric RoseConfig fields, shown as sliders in the config panel
+  params: NumericKey[];
+  // Builds head, stem and leaves with the given particle counts
+  generate: (config: RoseConfig, counts: ParticleCounts) => GeometryBuffers;
+  // GLSL defining `float getHeadDisplacement(vec3 position)` and
+  // `vec3 getHeadNormal(vec3 position)` for head particles
+  displacementChunk: string;
+  // The same two functions on the CPU, for point-cloud exports; keep in step with the GLSL
+  headShape: (position: Vec3, direction: Vec3, uniforms: ShapeUniforms) => HeadShape;
+}
+
+export interface HeadShape {
+  displacement: number;
+  normal: Vec3;
+}
+
+// The original single-flower split (~190k points)
+export const DEFAULT_COUNTS: ParticleCounts = {
+  head: 120000,
+  stem: 30000,
+  leaves: 40000,
+};
+
+export const totalCount = (counts: ParticleCounts) => counts.head + counts.stem + counts.leaves;
+
+// Divide a total particle budget by head/stem/leaf weights (default proportions if omitted)
+export const splitBudget = (budget: number, weights: ParticleCounts = DEFAULT_COUNTS): ParticleCounts => {
+  const sum = totalCount(weights);
+  const share = sum > 0 ? weights : DEFAULT_COUNTS;
+  const factor = budget / totalCount(share);
+  return {
+    head: Math.floor(share.head * factor),
+    stem: Math.floor(share.stem * factor),
+    leaves: Math.floor(share.leaves * factor),
+  };
+};
+
+export const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+export const createBuffers = (counts: ParticleCounts, seed: number): GeometryBuilder => {
+  const capacity = totalCount(counts);
+  return {
+    random: createRandom(seed),
+    count: 0,
+    positions: new Float32Array(capacity * 3),
+    randoms: new Float32Array(capacity),
+    types: new Float32Array(capacity),
+    directions: new Float32Array(capacity * 3),
+  };
+};
+
+export const pushPoint = (
+  buf: GeometryBuilder,
+  x: number, y: number, z: number,
+  type: number,
+  dx: number, dy: number, dz: number
+) => {
+  const i = buf.count;
+  if (i >= buf.randoms.length) return;
+  buf.positions[i * 3] = x;
+  buf.positions[i * 3 + 1] = y;
+  buf.positions[i * 3 + 2] = z;
+  buf.randoms[i] = buf.random();
+  buf.types[i] = type;
+  buf.directions[i * 3] = dx;
+  buf.directions[i * 3 + 1] = dy;
+  buf.directions[i * 3 + 2] = dz;
+  buf.count = i + 1;
+};
+
+// Fisher-Yates over whole points so any prefix of the buffers is an even
+// sample of head, stem and leaves (lower quality tiers draw only a prefix)
+export const shufflePoints = (buf: GeometryBuffers, seed: number): GeometryBuffers => {
+  const { positions, randoms, types, directions } = buf;
+  const random = createRandom(seed ^ 0x5f3759df);
+  const swap3 = (arr: Float32Array, a: number, b: number) => {
+    for (let k = 0; k < 3; k++) {
+      const tmp = arr[a * 3 + k];
+      arr[a * 3 + k] = arr[b * 3 + k];
+      arr[b * 3 + k] = tmp;
+    }
+  };
+  const swap1 = (arr: Float32Array, a: number, b: number) => {
+    const tmp = arr[a];
+    arr[a] = arr[b];
+    arr[b] = tmp;
+  };
+  for (let i = buf.count - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    swap3(positions, i, j);
+    swap3(directions, i, j);
+    swap1(randoms, i, j);
+    swap1(types, i, j);
+  }
+  return buf;
+};
+
+// Shared stem: a thin, slightly curved cylinder hanging down from `top`
+export const addStem = (buf: GeometryBuilder, count: number, top = -1.0, bottom = -8.0) => {
+  const stemLength = top - bottom;
+  const stemRadius = 0.08;
+  for(let i=0; i<count; i++) {
+    const t = i / count;
+    const y = top - (t * stemLength);
+    const curveX = Math.sin(y * 0.2) * 0.1;
+    const theta = buf.random() * Math.PI * 2;
+    const r = stemRadius * (1.0 - t * 0.1);
+    const x = curveX + Math.cos(theta) * r;
+    const z = Math.sin(theta) * r;
+    pushPoint(buf, x, y, z, 1.0, Math.cos(theta), 0, Math.sin(theta));
+  }
+};
+
+// Shared long vertical leaves wrapping the base of the stem
+export const addLeaves = (buf: GeometryBuilder, count: number, leaves = 3) => {
+  for(let l=0; l<leaves; l++) {
+    const attachY = -6.0 + (l * 1.0);
+    const leafAngle = (l * 2.1);
+    const leafDirX = Math.cos(leafAngle);
+    const leafDirZ = Math.sin(leafAngle);
+    const ptsPerLeaf = Math.floor(count / leaves);
+    for(let i=0; i<ptsPerLeaf; i++) {
+      const u = buf.random();
+      const v = (buf.random() * 2 - 1);
+      const width = 0.5 * (1.0 - Math.pow(u, 2.0)) * Math.sin(u * 3.14);
+      const actualWidth = width * v;
+      const h = u * 4.5;
+      const bendOut = Math.sin(u * 3.14 * 0.5) * 0.8;
+      const lx = actualWidth;
+      const lz = 0.1 + bendOut;
+      const rx = leafDirX;
+      const rz = leafDirZ;
+      const tx = -leafDirZ;
+      const tz = leafDirX;
+      const px = (rx * lz) + (tx * lx);
+      const pz = (rz * lz) + (tz * lx);
+      const py = attachY + h;
+      pushPoint(buf, px, py, pz, 2.0, px, 0, pz);
+    }
+  }
+};
+
+// Shared surface noise term so every species shimmers the same way
+export const SURFACE_NOISE_GLSL = `noise(position.xz * 4.0 + uTime * 0.05) * 0.05 * uDetail`;
@@ -0,0 +1,117 @@
+import { RoseConfig } from '../types';
+import { GOLDEN_ANGLE, GeometryBuilder, HeadShape, SURFACE_NOISE_GLSL, pushPoint } from './common';
+import { ShapeUniforms, Vec3, dot3, length3, mix, smoothstep, surfaceNoise } from './glsl';
+
+// Daisy-family heads: a domed disk of florets ringed by ray petals,
+// tilted toward the camera so the face reads from the front
+export interface CompositeOptions {
+  // Disk radius = config.centerSize * diskScale
+  diskScale: number;
+  // Share of head particles spent on the disk
+  diskShare: number;
+  petalLength: number;
+  petalWidth: number;
+  // Rings of ray petals, each offset by half a petal
+  rows: number;
+  // Face tilt toward +Z, in radians
+  tilt: number;
+}
+
+export const COMPOSITE_CENTER = { x: 0, y: 0.4, z: 0 };
+
+export const buildCompositeHead = (buf: GeometryBuilder, config: RoseConfig, headCount: number, options: CompositeOptions) => {
+  const { diskScale, diskShare, petalLength, petalWidth, rows, tilt } = options;
+  const diskRadius = config.centerSize * diskScale;
+  const rayCount = Math.max(3, Math.round(config.rayCount));
+  const cosT = Math.cos(tilt);
+  const sinT = Math.sin(tilt);
+  const normal = [0, cosT, sinT];
+
+  // Local frame has the face in XZ with +Y out of the flower; rotate about X
+  const place = (x: number, y: number, z: number) => {
+    pushPoint(
+      buf,
+      COMPOSITE_CENTER.x + x,
+      COMPOSITE_CENTER.y + y * cosT - z * sinT,
+      COMPOSITE_CENTER.z + y * sinT + z * cosT,
+      0.0,
+      normal[0], normal[1], normal[2]
+    );
+  };
+
+  // --- Disk (Vogel spiral, like real seed heads) ---
+  const diskCount = Math.floor(headCount * diskShare);
+  for(let i=0; i<diskCount; i++) {
+    const r = diskRadius * Math.sqrt((i + 0.5) / diskCount);
+    const theta = i * GOLDEN_ANGLE;
+    const dome = (1 - Math.pow(r / diskRadius, 2)) * diskRadius * 0.35;
+    place(Math.cos(theta) * r, dome, Math.sin(theta) * r);
+  }
+
+  // --- Ray Petals ---
+  const ptsPerPetal = Math.floor((headCount - diskCount) / (rayCount * rows));
+  for(let row=0; row<rows; row++) {
+    for(let k=0; k<rayCount; k++) {
+      const angle = ((k + row * 0.5) / rayCount) * Math.PI * 2;
+      const dirX = Math.cos(angle);
+      const dirZ = Math.sin(angle);
+      const rowLift = -row * 0.05;
+      for(let i=0; i<ptsPerPetal; i++) {
+        const u = buf.random();
+        const v = buf.random() * 2 - 1;
+        const width = petalWidth * Math.pow(Math.sin(Math.PI * (0.15 + 0.85 * u)), 0.6);
+        const along = diskRadius * 0.95 + u * petalLength;
+        const y = rowLift + u * 0.15 - u * u * 0.1;
+        place(dirX * along - dirZ * v * width, y, dirZ * along + dirX * v * width);
+      }
+    }
+  }
+};
+
+export const compositeDisplacementChunk = (diskScale: number) => `
+  const vec3 HEAD_CENTER = vec3(${COMPOSITE_CENTER.x.toFixed(1)}, ${COMPOSITE_CENTER.y.toFixed(1)}, ${COMPOSITE_CENTER.z.toFixed(1)});
+
+  float getHeadDisplacement(vec3 position) {
+    // Radial distance measured in the tilted face plane
+    vec3 local = position - HEAD_CENTER;
+    vec3 n = aDirection;
+    float radial = length(local - dot(local, n) * n);
+    float diskRadius = uCenterSize * ${diskScale.toFixed(2)};
+    float disk = 1.0 - smoothstep(diskRadius * 0.9, diskRadius * 1.1, radial);
+
+    // Openness past ~0.6 bends the rays back, below it cups them forward
+    float reach = max(radial - diskRadius, 0.0);
+    float cup = reach * reach * (uOpenness - 0.6) * 0.25;
+    float sway = sin(atan(local.z, local.x) * uPetalCount + uTime * 0.5 + radial * uTwist) * 0.04 * reach;
+    float surfaceNoise = ${SURFACE_NOISE_GLSL};
+
+    // Disk florets sit slightly sunken and take the deep color
+    return mix(cup + sway + surfaceNoise, -0.12, disk);
+  }
+
+  vec3 getHeadNormal(vec3 position) {
+    return aDirection;
+  }
+`;
+
+// CPU port of compositeDisplacementChunk
+export const compositeHeadShape = (diskScale: number) => (position: Vec3, direction: Vec3, u: ShapeUniforms): HeadShape => {
+  const local = { x: position.x - COMPOSITE_CENTER.x, y: position.y - COMPOSITE_CENTER.y, z: position.z - COMPOSITE_CENTER.z };
+  const along = dot3(local, direction);
+  const radial = length3({
+    x: local.x - along * direction.x,
+    y: local.y - along * direction.y,
+    z: local.z - along * direction.z,
+  });
+  const diskRadius = u.centerSize * diskScale;
+  const disk = 1 - smoothstep(diskRadius * 0.9, diskRadius * 1.1, radial);
+
+  const reach = Math.max(radial - diskRadius, 0);
+  const cup = reach * reach * (u.openness - 0.6) * 0.25;
+  const sway = Math.sin(Math.atan2(local.z, local.x) * u.petalCount + u.time * 0.5 + radial * u.twist) * 0.04 * reach;
+
+  return {
+    displacement: mix(cup + sway + surfaceNoise(position, u), -0.12, disk),
+    normal: direction,
+  };
+};
@@ -0,0 +1,26 @@
+import { FlowerSpecies, addLeaves, addStem, createBuffers } from './common';
+import { buildCompositeHead, compositeDisplacementChunk, compositeHeadShape } from './composite';
+
+const DISK_SCALE = 1.0;
+
+export const daisy: FlowerSpecies = {
+  id: 'daisy',
+  label: 'Daisy',
+  params: ['rayCount', 'centerSize'],
+  generate: (config, counts) => {
+    const buf = createBuffers(counts, config.seed);
+    buildCompositeHead(buf, config, counts.head, {
+      diskScale: DISK_SCALE,
+      diskShare: 0.3,
+      petalLength: 1.7,
+      petalWidth: 0.13,
+      rows: 1,
+      tilt: 0.9,
+    });
+    addStem(buf, counts.stem, 0.2);
+    addLeaves(buf, counts.leaves);
+    return buf;
+  },
+  displacementChunk: compositeDisplacementChunk(DISK_SCALE),
+  headShape: compositeHeadShape(DISK_SCALE),
+};
@@ -0,0 +1,62 @@
+// CPU equivalents of the GLSL built-ins and noise the flower shaders use, so
+// exports can reproduce what the vertex shader draws. Arithmetic is rounded
+// to float32 where the shader's precision changes the result (the hash).
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export const fract = (x: number) => x - Math.floor(x);
+export const clamp = (x: number, min: number, max: number) => Math.min(max, Math.max(min, x));
+export const mix = (a: number, b: number, t: number) => a + (b - a) * t;
+
+export const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = clamp((x - edge0) / (edge1 - edge0), 0, 1);
+  return t * t * (3 - 2 * t);
+};
+
+export const length3 = (v: Vec3) => Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z);
+
+export const normalize = (v: Vec3): Vec3 => {
+  const len = length3(v);
+  return len > 0 ? { x: v.x / len, y: v.y / len, z: v.z / len } : { x: 0, y: 0, z: 0 };
+};
+
+export const dot3 = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
+
+const f32 = Math.fround;
+
+// float hash(vec2 p)
+export const hash = (px: number, py: number) =>
+  fract(f32(f32(Math.sin(f32(f32(px * 12.9898) + f32(py * 78.233)))) * 43758.5453));
+
+// float noise(vec2 p)
+export const noise = (px: number, py: number) => {
+  const ix = Math.floor(px);
+  const iy = Math.floor(py);
+  let fx = px - ix;
+  let fy = py - iy;
+  fx = fx * fx * (3 - 2 * fx);
+  fy = fy * fy * (3 - 2 * fy);
+  return mix(
+    mix(hash(ix, iy), hash(ix + 1, iy), fx),
+    mix(hash(ix, iy + 1), hash(ix + 1, iy + 1), fx),
+    fy
+  );
+};
+
+// Uniform values the head shapes read
+export interface ShapeUniforms {
+  time: number;
+  petalCount: number;
+  twist: number;
+  openness: number;
+  detail: number;
+  centerSize: number;
+}
+
+// SURFACE_NOISE_GLSL
+export const surfaceNoise = (position: Vec3, u: ShapeUniforms) =>
+  noise(position.x * 4 + u.time * 0.05, position.z * 4 + u.time * 0.05) * 0.05 * u.detail;
@@ -0,0 +1,31 @@
+import { RoseConfig, SpeciesId } from '../types';
+import { FlowerSpecies, GeometryBuffers, ParticleCounts, shufflePoints } from './common';
+import { tulip } from './tulip';
+import { rose } from './rose';
+import { lily } from './lily';
+import { daisy } from './daisy';
+import { sunflower } from './sunflower';
+
+export type { FlowerSpecies, GeometryBuffers, ParticleCounts } from './common';
+export { DEFAULT_COUNTS, splitBudget, totalCount } from './common';
+export { MAX_SEED, randomSeed } from './random';
+
+export const SPECIES: Record<SpeciesId, FlowerSpecies> = {
+  tulip,
+  rose,
+  lily,
+  daisy,
+  sunflower,
+};
+
+export const SPECIES_IDS = Object.keys(SPECIES) as SpeciesId[];
+
+export const isSpeciesId = (value: unknown): value is SpeciesId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(SPECIES, value);
+
+// Generate a species' points in draw order (shuffled, see shufflePoints).
+// Returns only the arrays so the result can be posted out of the worker.
+export const buildPointCloud = (id: SpeciesId, config: RoseConfig, counts: ParticleCounts): GeometryBuffers => {
+  const { count, positions, randoms, types, directions } = shufflePoints(SPECIES[id].generate(config, counts), config.seed);
+  return { count, positions, randoms, types, directions };
+};
@@ -0,0 +1,92 @@
+import { FlowerSpecies, SURFACE_NOISE_GLSL, addLeaves, addStem, createBuffers, pushPoint } from './common';
+import { normalize, surfaceNoise } from './glsl';
+
+const TEPALS = 6;
+const STAMENS = 6;
+
+// Six long tepals that rise and then recurve, around a spray of stamens
+export const lily: FlowerSpecies = {
+  id: 'lily',
+  label: 'Lily',
+  params: ['petalLength'],
+  generate: (config, counts) => {
+    const buf = createBuffers(counts, config.seed);
+    const length = 2.4 * config.petalLength;
+    const baseY = -0.8;
+
+    const stamenCount = Math.floor(counts.head * 0.08);
+    const ptsPerTepal = Math.floor((counts.head - stamenCount) / TEPALS);
+
+    for(let k=0; k<TEPALS; k++) {
+      const angle = (k / TEPALS) * Math.PI * 2;
+      const dirX = Math.cos(angle);
+      const dirZ = Math.sin(angle);
+      // Inner whorl of three is slightly narrower
+      const widthScale = k % 2 === 0 ? 1.0 : 0.8;
+
+      for(let i=0; i<ptsPerTepal; i++) {
+        const u = buf.random();
+        const v = buf.random() * 2 - 1;
+        const width = 0.38 * Math.pow(Math.sin(u * Math.PI), 0.8) * (1 - 0.4 * u) * widthScale;
+        const along = 0.1 + u * length * 0.85;
+        // Midrib rises then curls back down; edges lift into a shallow V
+        const y = baseY + Math.sin(u * Math.PI * 0.8) * length * 0.45 - u * u * length * 0.35
+          + Math.abs(v) * width * 0.25;
+        const x = dirX * along - dirZ * v * width;
+        const z = dirZ * along + dirX * v * width;
+        pushPoint(buf, x, y, z, 0.0, dirX, 0.5, dirZ);
+      }
+    }
+
+    // Stamens: filaments arching out of the throat, tipped with anthers
+    const ptsPerStamen = Math.floor(stamenCount / STAMENS);
+    for(let s=0; s<STAMENS; s++) {
+      const angle = (s / STAMENS) * Math.PI * 2 + Math.PI / STAMENS;
+      const dirX = Math.cos(angle);
+      const dirZ = Math.sin(angle);
+      for(let i=0; i<ptsPerStamen; i++) {
+        const anther = i < ptsPerStamen * 0.3;
+        const t = anther ? 1.0 : buf.random();
+        const reach = t * 0.7 * config.petalLength;
+        const jitter = anther ? 0.06 : 0.015;
+        const x = dirX * reach + (buf.random() - 0.5) * jitter;
+        const y = baseY + t * 1.4 * config.petalLength - t * t * 0.3 + (buf.random() - 0.5) * jitter;
+        const z = dirZ * reach + (buf.random() - 0.5) * jitter;
+        pushPoint(buf, x, y, z, 0.0, dirX, 1.0, dirZ);
+      }
+    }
+
+    addStem(buf, counts.stem);
+    addLeaves(buf, counts.leaves);
+    return buf;
+  },
+  displacementChunk: `
+  float getHeadDisplacement(vec3 position) {
+    float radial = length(position.xz);
+    float theta = atan(position.z, position.x);
+
+    // Openness past ~0.4 curls the tepal tips further back
+    float recurve = radial * radial * (uOpenness - 0.4) * 0.12;
+    float ripple = sin(theta * uPetalCount * 2.0 + radial * uTwist) * 0.03;
+    float surfaceNoise = ${SURFACE_NOISE_GLSL};
+
+    return recurve + ripple + surfaceNoise;
+  }
+
+  vec3 getHeadNormal(vec3 position) {
+    return normalize(vec3(position.x, -0.8, position.z));
+  }
+  `,
+  headShape: (position, _direction, u) => {
+    const radial = Math.hypot(position.x, position.z);
+    const theta = Math.atan2(position.z, position.x);
+
+    const recurve = radial * radial * (u.openness - 0.4) * 0.12;
+    const ripple = Math.sin(theta * u.petalCount * 2 + radial * u.twist) * 0.03;
+
+    return {
+      displacement: recurve + ripple + surfaceNoise(position, u),
+      normal: normalize({ x: position.x, y: -0.8, z: position.z }),
+    };
+  },
+};
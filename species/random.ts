@@ -0,0 +1,21 @@
+export type Random = () => number;
+
+// Largest seed the config accepts; small enough to read out and type back in
+export const MAX_SEED = 999999;
+
+/**
+ * mulberry32: a tiny 32-bit PRNG. The same seed always gives the same
+ * sequence, so a config reproduces its point cloud exactly.
+ */
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * (MAX_SEED + 1));
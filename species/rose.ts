@@ -0,0 +1,82 @@
+import { FlowerSpecies, SURFACE_NOISE_GLSL, addLeaves, addStem, createBuffers, pushPoint } from './common';
+import { clamp, normalize, surfaceNoise } from './glsl';
+
+const PETALS_PER_WHORL = 5;
+
+// Concentric whorls of cupped petals; outer whorls are taller and flare further
+export const rose: FlowerSpecies = {
+  id: 'rose',
+  label: 'Rose',
+  params: ['whorls'],
+  generate: (config, counts) => {
+    const buf = createBuffers(counts, config.seed);
+    const whorls = Math.max(1, Math.round(config.whorls));
+
+    // Tight bud at the core
+    const coreCount = Math.floor(counts.head * 0.08);
+    for(let i=0; i<coreCount; i++) {
+      const u = buf.random();
+      const theta = buf.random() * Math.PI * 2;
+      const r = 0.12 * Math.sqrt(u);
+      const y = 0.6 + u * 1.0;
+      pushPoint(buf, Math.cos(theta) * r, y, Math.sin(theta) * r, 0.0, Math.cos(theta), 0.2, Math.sin(theta));
+    }
+
+    const ptsPerPetal = Math.floor((counts.head - coreCount) / (whorls * PETALS_PER_WHORL));
+    for(let w=0; w<whorls; w++) {
+      const f = (w + 1) / whorls;
+      const halfWidth = 0.5 + 0.45 * f;
+      const height = 1.4 + 1.1 * f;
+      const baseR = 0.08 + 0.55 * f;
+      const flare = 0.3 + 1.1 * f * f;
+
+      for(let k=0; k<PETALS_PER_WHORL; k++) {
+        // Offset each whorl so petals overlap the gaps of the one inside
+        const angle = (k / PETALS_PER_WHORL) * Math.PI * 2 + w * 2.4;
+        for(let i=0; i<ptsPerPetal; i++) {
+          const u = buf.random();
+          const v = buf.random() * 2 - 1;
+          const span = halfWidth * Math.sin(0.35 + u * 2.4);
+          const theta = angle + v * span;
+          const r = baseR + Math.pow(u, 2) * flare - (1 - v * v) * 0.06 * f;
+          const y = -0.3 + u * height - Math.pow(u, 3) * flare * 0.25 * f;
+          pushPoint(buf, Math.cos(theta) * r, y, Math.sin(theta) * r, 0.0, Math.cos(theta), 0.3, Math.sin(theta));
+        }
+      }
+    }
+
+    addStem(buf, counts.stem);
+    addLeaves(buf, counts.leaves);
+    return buf;
+  },
+  displacementChunk: `
+  float getHeadDisplacement(vec3 position) {
+    float radial = length(position.xz);
+    float theta = atan(position.z, position.x);
+    float lift = clamp((position.y + 0.3) / 2.5, 0.0, 1.0);
+
+    float spiral = sin(theta * uPetalCount + radial * uTwist * 2.0) * 0.04;
+    float bloom = radial * lift * lift * uOpenness * 0.5;
+    float surfaceNoise = ${SURFACE_NOISE_GLSL};
+
+    return bloom + spiral + surfaceNoise;
+  }
+
+  vec3 getHeadNormal(vec3 position) {
+    return normalize(vec3(position.x, 0.2, position.z));
+  }
+  `,
+  headShape: (position, _direction, u) => {
+    const radial = Math.hypot(position.x, position.z);
+    const theta = Math.atan2(position.z, position.x);
+    const lift = clamp((position.y + 0.3) / 2.5, 0, 1);
+
+    const spiral = Math.sin(theta * u.petalCount + radial * u.twist * 2) * 0.04;
+    const bloom = radial * lift * lift * u.openness * 0.5;
+
+    return {
+      displacement: bloom + spiral + surfaceNoise(position, u),
+      normal: normalize({ x: position.x, y: 0.2, z: position.z }),
+    };
+  },
+};
@@ -0,0 +1,27 @@
+import { FlowerSpecies, addLeaves, addStem, createBuffers } from './common';
+import { buildCompositeHead, compositeDisplacementChunk, compositeHeadShape } from './composite';
+
+// Big seed disk, two overlapping rows of broad rays
+const DISK_SCALE = 1.8;
+
+export const sunflower: FlowerSpecies = {
+  id: 'sunflower',
+  label: 'Sunflower',
+  params: ['rayCount', 'centerSize'],
+  generate: (config, counts) => {
+    const buf = createBuffers(counts, config.seed);
+    buildCompositeHead(buf, config, counts.head, {
+      diskScale: DISK_SCALE,
+      diskShare: 0.6,
+      petalLength: 1.3,
+      petalWidth: 0.28,
+      rows: 2,
+      tilt: 1.1,
+    });
+    addStem(buf, counts.stem, 0.2);
+    addLeaves(buf, counts.leaves, 4);
+    return buf;
+  },
+  displacementChunk: compositeDisplacementChunk(DISK_SCALE),
+  headShape: compositeHeadShape(DISK_SCALE),
+};
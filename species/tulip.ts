@@ -0,0 +1,61 @@
+import { FlowerSpecies, SURFACE_NOISE_GLSL, addLeaves, addStem, createBuffers, pushPoint } from './common';
+import { clamp, normalize, smoothstep, surfaceNoise } from './glsl';
+
+// Fibonacci sphere head; the cup shape comes entirely from the displacement shader
+export const tulip: FlowerSpecies = {
+  id: 'tulip',
+  label: 'Tulip',
+  params: [],
+  generate: (config, counts) => {
+    const buf = createBuffers(counts, config.seed);
+
+    for(let i=0; i<counts.head; i++) {
+      const offset = 2 / counts.head;
+      const increment = Math.PI * (3 - Math.sqrt(5));
+      const yRaw = ((i * offset) - 1) + (offset / 2);
+      const rRaw = Math.sqrt(1 - Math.pow(yRaw, 2));
+      const phi = ((i + 1) % counts.head) * increment;
+      const x = Math.cos(phi) * rRaw;
+      const z = Math.sin(phi) * rRaw;
+      const y = yRaw * 2.0 + 1.0;
+      pushPoint(buf, x, y, z, 0.0, x, y, z);
+    }
+
+    addStem(buf, counts.stem);
+    addLeaves(buf, counts.leaves);
+    return buf;
+  },
+  displacementChunk: `
+  float getHeadDisplacement(vec3 position) {
+    vec3 spherePos = normalize(position);
+    float theta = atan(spherePos.z, spherePos.x);
+    float phi = acos(spherePos.y); 
+
+    float twistedTheta = theta + phi * uTwist;
+    float petals = sin(twistedTheta * uPetalCount);
+    float shape = petals;
+    float bloom = smoothstep(0.0, 1.5, 1.5 - phi) * uOpenness * petals;
+    float surfaceNoise = ${SURFACE_NOISE_GLSL};
+
+    return shape * 0.15 + bloom + surfaceNoise;
+  }
+
+  vec3 getHeadNormal(vec3 position) {
+    return normalize(vec3(position.x, position.y * 0.5, position.z));
+  }
+  `,
+  headShape: (position, _direction, u) => {
+    const spherePos = normalize(position);
+    const theta = Math.atan2(spherePos.z, spherePos.x);
+    const phi = Math.acos(clamp(spherePos.y, -1, 1));
+
+    const twistedTheta = theta + phi * u.twist;
+    const petals = Math.sin(twistedTheta * u.petalCount);
+    const bloom = smoothstep(0, 1.5, 1.5 - phi) * u.openness * petals;
+
+    return {
+      displacement: petals * 0.15 + bloom + surfaceNoise(position, u),
+      normal: normalize({ x: position.x, y: position.y * 0.5, z: position.z }),
+    };
+  },
+};
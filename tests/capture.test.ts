@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BUILD_RECORDING, buildFrames } from '../utils/capture';
+
+describe('build recording frames', () => {
+  it('come out the same on every run', () => {
+    expect(buildFrames()).toEqual(buildFrames());
+    expect(buildFrames({ fps: 60, duration: 2, hold: 0.5 })).toEqual(buildFrames({ fps: 60, duration: 2, hold: 0.5 }));
+  });
+
+  it('step the clock by exactly one frame', () => {
+    const { fps } = DEFAULT_BUILD_RECORDING;
+    buildFrames().forEach((frame, i) => expect(frame.time).toBeCloseTo((i + 1) / fps, 10));
+  });
+
+  it('grow from 0 to 1 over the duration, then hold the finished flower undistorted', () => {
+    const fps = 30;
+    const frames = buildFrames({ fps, duration: 2, hold: 1 });
+    expect(frames).toHaveLength(2 * fps + fps + 1);
+    expect(frames[0].growth).toBe(0);
+    expect(frames[2 * fps].growth).toBe(1);
+    frames.slice(1).forEach((frame, i) => expect(frame.growth).toBeGreaterThanOrEqual(frames[i].growth));
+    frames.slice(2 * fps).forEach((frame) => expect(frame.growth).toBe(1));
+    frames.forEach((frame) => expect(frame.distortion).toBe(0));
+  });
+});
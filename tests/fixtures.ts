@@ -0,0 +1,18 @@
+import { RoseConfig } from '../types';
+
+export const TEST_CONFIG: RoseConfig = {
+  species: 'tulip',
+  color: '#7c00ff',
+  petalCount: 3,
+  twist: 0.8,
+  openness: 0.6,
+  detail: 0.5,
+  speed: 0.15,
+  particleSize: 0.022,
+  seed: 1,
+  whorls: 5,
+  petalLength: 1,
+  rayCount: 21,
+  centerSize: 0.5,
+  palette: null,
+};
@@ -0,0 +1,244 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { SpeciesId } from '../types';
+import { SPECIES, SPECIES_IDS, buildPointCloud } from '../species';
+import { EFFECTS, EFFECT_IDS, RGB, defaultParams, padParams } from '../effects';
+import { createFlowerVertexShader, FLOWER_FRAGMENT_SHADER } from '../utils/flowerShaders';
+import { FlowerUniforms, deformPoint, pointColor } from '../utils/pointCloudExport';
+import {
+  CONSTRUCTION_GLSL,
+  DEFAULT_CONSTRUCTION_SETTINGS,
+  FLY_IN_EASINGS,
+  MAX_EMITTERS,
+  SCAN_MODES,
+  flyInEase,
+  flyInPositions,
+  scanKey,
+  scanLevel,
+} from '../utils/construction';
+import { MAX_TOUCHES } from '../utils/fingertipTouch';
+import { GlslInputs, compileShader } from './glslRunner';
+import { classicPalette } from '../utils/palettes';
+import { TEST_CONFIG } from './fixtures';
+
+const TOLERANCE = 1e-4;
+const COUNTS = { head: 24, stem: 8, leaves: 8 };
+const IDENTITY = new THREE.Matrix4().toArray();
+
+const color = (hex: string) => new THREE.Color().setStyle(hex, THREE.LinearSRGBColorSpace);
+const glow = (hexes: string[]) => hexes.map((hex) => color(hex).toArray() as RGB);
+
+const baseUniforms = (overrides: Partial<FlowerUniforms> = {}): FlowerUniforms => ({
+  time: 3.7,
+  petalCount: TEST_CONFIG.petalCount,
+  twist: TEST_CONFIG.twist,
+  openness: TEST_CONFIG.openness,
+  detail: TEST_CONFIG.detail,
+  centerSize: TEST_CONFIG.centerSize,
+  distortion: 0,
+  // Well past the end of a top-down scan: everything built
+  scanLevel: -20,
+  scanMode: 0,
+  emitters: flyInPositions(DEFAULT_CONSTRUCTION_SETTINGS),
+  easing: 0,
+  color: color('#7c00ff'),
+  petalBase: color('#3a0080'),
+  petalTip: color('#ff80ff'),
+  stemColor: color('#0a2a1a'),
+  leafColor: color('#1e5a3c'),
+  flashColor: color('#99ccff'),
+  splitPlant: 0,
+  effectA: 0,
+  effectB: 1,
+  effectMix: 0,
+  effectParamsA: padParams(defaultParams(EFFECTS.vortex)),
+  effectParamsB: padParams(defaultParams(EFFECTS.shatter)),
+  glowA: glow(EFFECTS.vortex.colors),
+  glowB: glow(EFFECTS.shatter.colors),
+  touches: Array.from({ length: MAX_TOUCHES }, () => [0, 0, 0, 0]),
+  touchMode: 0,
+  touchRadius: 1.2,
+  touchStrength: 0.6,
+  ...overrides,
+});
+
+// The material uniforms Rose sets for the same values
+const shaderUniforms = (u: FlowerUniforms): GlslInputs => ({
+  modelViewMatrix: IDENTITY,
+  projectionMatrix: IDENTITY,
+  uTime: u.time,
+  uPetalCount: u.petalCount,
+  uTwist: u.twist,
+  uOpenness: u.openness,
+  uDetail: u.detail,
+  uCenterSize: u.centerSize,
+  uParticleSize: TEST_CONFIG.particleSize,
+  uDistortion: u.distortion,
+  uEffectA: u.effectA,
+  uEffectB: u.effectB,
+  uEffectMix: u.effectMix,
+  uEffectParamsA: u.effectParamsA,
+  uEffectParamsB: u.effectParamsB,
+  uTouch: Array.from({ length: MAX_TOUCHES }, (_, i) => u.touches[i] ?? [0, 0, 0, 0]),
+  uTouchMode: u.touchMode,
+  uTouchRadius: u.touchRadius,
+  uTouchStrength: u.touchStrength,
+  uScanLevel: u.scanLevel,
+  uScanMode: u.scanMode,
+  uEmitters: Array.from({ length: MAX_EMITTERS }, (_, i) => {
+    const emitter = u.emitters[i] ?? { x: 0, y: 0, z: 0 };
+    return [emitter.x, emitter.y, emitter.z];
+  }),
+  uEmitterCount: u.emitters.length,
+  uEasing: u.easing,
+  uColor: u.color.toArray(),
+  uPetalBase: u.petalBase.toArray(),
+  uPetalTip: u.petalTip.toArray(),
+  uStemColor: u.stemColor.toArray(),
+  uLeafColor: u.leafColor.toArray(),
+  uFlashColor: u.flashColor.toArray(),
+  uSplitPlant: u.splitPlant,
+  uGlowA: u.glowA,
+  uGlowB: u.glowB,
+});
+
+const expectClose = (actual: number[], expected: number[], label: string) => {
+  actual.forEach((value, i) => {
+    expect(Math.abs(value - expected[i]), `${label} [${i}]: ${value} vs ${expected[i]}`).toBeLessThan(TOLERANCE);
+  });
+};
+
+const vertexShaders = new Map<SpeciesId, ReturnType<typeof compileShader>>();
+const vertexShader = (species: SpeciesId) => {
+  if (!vertexShaders.has(species)) {
+    vertexShaders.set(species, compileShader(createFlowerVertexShader(SPECIES[species]), 'vertex'));
+  }
+  return vertexShaders.get(species)!;
+};
+const fragmentShader = compileShader(FLOWER_FRAGMENT_SHADER, 'fragment');
+
+// Runs every point of a small cloud through the CPU port and the shaders;
+// returns how many points were drawn out of how many
+const compare = (species: SpeciesId, u: FlowerUniforms) => {
+  const cloud = buildPointCloud(species, { ...TEST_CONFIG, species }, COUNTS);
+  const uniforms = shaderUniforms(u);
+  let drawn = 0;
+
+  for (let i = 0; i < cloud.count; i++) {
+    const position = { x: cloud.positions[i * 3], y: cloud.positions[i * 3 + 1], z: cloud.positions[i * 3 + 2] };
+    const direction = { x: cloud.directions[i * 3], y: cloud.directions[i * 3 + 1], z: cloud.directions[i * 3 + 2] };
+    const random = cloud.randoms[i];
+    const type = cloud.types[i];
+    const label = `${species} point ${i} (type ${type})`;
+
+    const cpu = deformPoint(species, position, direction, random, type, u);
+    const varyings = vertexShader(species)({
+      ...uniforms,
+      position: [position.x, position.y, position.z],
+      aDirection: [direction.x, direction.y, direction.z],
+      aRandom: random,
+      aType: type,
+    })!;
+    expectClose(varyings.vPosition as number[], [cpu.position.x, cpu.position.y, cpu.position.z], `${label} position`);
+    expectClose([varyings.vDisplacement as number, varyings.vProgress as number], [cpu.displacement, cpu.activation], `${label} displacement/progress`);
+
+    const fragment = fragmentShader({ ...uniforms, ...varyings, gl_PointCoord: [0.5, 0.5] });
+    // The fragment shader discards unbuilt points; exports skip them the same way
+    expect(fragment === null, `${label} discarded`).toBe(cpu.activation < 0.01);
+    if (!fragment) continue;
+    drawn++;
+    const rgb = (fragment.gl_FragColor as number[]).slice(0, 3).map((v) => Math.min(1, Math.max(0, v)));
+    expectClose(pointColor(cpu, random, type, u), rgb, `${label} color`);
+  }
+  return [drawn, cloud.count];
+};
+
+describe('flower shader CPU port parity', () => {
+  it.each(SPECIES_IDS)('matches the shaders for a built %s', (species) => {
+    const [drawn, count] = compare(species, baseUniforms());
+    expect(drawn).toBe(count);
+  });
+
+  it.each(EFFECT_IDS.map((id, i) => [id, i] as const))('matches the shaders under %s distortion', (id, index) => {
+    const next = EFFECT_IDS[(index + 1) % EFFECT_IDS.length];
+    const u = baseUniforms({
+      distortion: 0.8,
+      effectA: index,
+      effectB: (index + 1) % EFFECT_IDS.length,
+      effectMix: 0.3,
+      effectParamsA: padParams(defaultParams(EFFECTS[id])),
+      effectParamsB: padParams(defaultParams(EFFECTS[next])),
+      glowA: glow(EFFECTS[id].colors),
+      glowB: glow(EFFECTS[next].colors),
+    });
+    compare('rose', u);
+    compare('daisy', u);
+  });
+
+  it('matches the shaders with a palette splitting stems from leaves', () => {
+    compare('rose', baseUniforms({ splitPlant: 1 }));
+  });
+
+  it.each([0, 1, 2])('matches the shaders with touch mode %i', (touchMode) => {
+    compare('tulip', baseUniforms({ touchMode, touches: [[0.2, 0.4, 0.1, 1], [0, -3, 0, 0.5]] }));
+  });
+
+  it.each(SCAN_MODES.map((mode, i) => [mode.id, i] as const))('matches the shaders halfway through a %s build', (id, scanMode) => {
+    FLY_IN_EASINGS.forEach((_, easing) => {
+      compare('lily', baseUniforms({ scanMode, easing, scanLevel: scanLevel(id, 0.5) }));
+    });
+  });
+});
+
+describe('classic plant shading', () => {
+  // The stem and leaf ends before palettes, as raw shader values
+  const STEM_DARK = [0.05, 0.15, 0.1];
+  const LEAF_BLUE = [0.1, 0.3, 0.25];
+
+  it('spreads stems and leaves over the whole gradient without a palette', () => {
+    const classic = classicPalette(TEST_CONFIG.color);
+    // Rose sets the hex colors, which converts them from sRGB
+    const u = baseUniforms({ stemColor: new THREE.Color(classic.stem), leafColor: new THREE.Color(classic.leaf) });
+    const point = { position: { x: 0, y: -5, z: 0 }, displacement: 0, activation: 1 };
+    [1, 2].forEach((type) => {
+      [0, 0.5, 1].forEach((random) => {
+        const shade = random * 0.8 + 0.2;
+        const expected = STEM_DARK.map((stem, i) => stem + (LEAF_BLUE[i] - stem) * shade);
+        pointColor(point, random, type, u).forEach((value, i) => expect(value).toBeCloseTo(expected[i], 2));
+      });
+    });
+  });
+});
+
+describe('construction GLSL parity', () => {
+  const probe = compileShader(
+    `
+    uniform float uMode;
+    uniform vec3 uPos;
+    uniform float uRnd;
+    uniform float uA;
+    float hash(vec2 p) {
+      return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+    }
+    ${CONSTRUCTION_GLSL}
+    void main() {
+      gl_FragColor = vec4(scanKey(uMode, uPos, uRnd), flyInEase(uMode, uA), 0.0, 1.0);
+    }
+    `,
+    'fragment'
+  );
+
+  it('scanKey and flyInEase match their GLSL for every mode', () => {
+    const modes = Math.max(SCAN_MODES.length, FLY_IN_EASINGS.length);
+    for (let mode = 0; mode < modes; mode++) {
+      for (let i = 0; i <= 10; i++) {
+        const pos = { x: Math.cos(i) * 2, y: i - 5, z: Math.sin(i * 1.3) * 2 };
+        const random = i / 10;
+        const a = i / 10;
+        const [key, ease] = probe({ uMode: mode, uPos: [pos.x, pos.y, pos.z], uRnd: random, uA: a })!.gl_FragColor as number[];
+        if (mode < SCAN_MODES.length) expectClose([scanKey(mode, pos, random)], [key], `scanKey mode ${mode}`);
+        if (mode < FLY_IN_EASINGS.length) expectClose([flyInEase(mode, a)], [ease], `flyInEase mode ${mode}`);
+      }
+    }
+  });
+});
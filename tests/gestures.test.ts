@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { GestureEngine, GestureEvent } from '../utils/gestures';
+import { DEFAULT_GESTURE_BINDINGS, HandController, sanitizeGestureBindings } from '../utils/handController';
+import { HandPose, frameTimes, syntheticResult, syntheticHand } from './syntheticHands';
+
+const OPEN: HandPose = { x: 0.5, y: 0.6, palmSize: 0.12, pinch: 1 };
+
+// Runs one hand through the engine, a pose per timestamp, and collects the events
+const run = (engine: GestureEngine, times: number[], pose: (t: number) => HandPose) =>
+  times.flatMap((t) => engine.process(syntheticResult([{ landmarks: syntheticHand(pose(t)) }]), t).events);
+
+const pinchEvents = (events: GestureEvent[]) =>
+  events.flatMap((event) => ((event.type === 'start' || event.type === 'end') && event.gesture === 'pinch' ? [event.type] : []));
+
+describe('GestureEngine', () => {
+  it('reports an open hand as an open palm, not a pinch or fist', () => {
+    const [hand] = new GestureEngine({ debounceMs: 0 }).process(syntheticResult([{ landmarks: syntheticHand(OPEN) }]), 0).hands;
+    expect(hand.gestures.openPalm.active).toBe(true);
+    expect(hand.gestures.pinch.active).toBe(false);
+    expect(hand.gestures.fist.active).toBe(false);
+  });
+
+  it('holds a pinch through the hysteresis band', () => {
+    // Enters below 0.4 of palm size, leaves above 0.48
+    const ratios = [1, 0.3, 0.45, 0.47, 0.45, 0.6];
+    const events = run(new GestureEngine({ debounceMs: 0 }), ratios.map((_, i) => i * 33), (t) => ({
+      ...OPEN,
+      pinch: ratios[Math.round(t / 33)],
+    }));
+    expect(pinchEvents(events)).toEqual(['start', 'end']);
+  });
+
+  it('keeps the pinch measure scale-free', () => {
+    const engine = new GestureEngine({ debounceMs: 0 });
+    const near = engine.process(syntheticResult([{ landmarks: syntheticHand({ ...OPEN, palmSize: 0.25, pinch: 0.3 }) }]), 0);
+    engine.reset();
+    const far = engine.process(syntheticResult([{ landmarks: syntheticHand({ ...OPEN, palmSize: 0.06, pinch: 0.3 }) }]), 0);
+    expect(near.hands[0].gestures.pinch.active).toBe(true);
+    expect(far.hands[0].gestures.pinch.active).toBe(true);
+  });
+
+  it('debounces a pinch shorter than debounceMs', () => {
+    const engine = new GestureEngine({ debounceMs: 50 });
+    const events = run(engine, frameTimes(60, 500), (t) => ({ ...OPEN, pinch: t >= 100 && t < 130 ? 0.2 : 1 }));
+    expect(pinchEvents(events)).toEqual([]);
+  });
+
+  it('ends held gestures when the hand leaves', () => {
+    const engine = new GestureEngine({ debounceMs: 0 });
+    engine.process(syntheticResult([{ landmarks: syntheticHand({ ...OPEN, pinch: 0.2 }) }]), 0);
+    const { events } = engine.process(syntheticResult([]), 33);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'end', gesture: 'pinch' }));
+  });
+
+  it('reports a fast sideways move as one mirrored swipe', () => {
+    const engine = new GestureEngine();
+    // Right in camera space, so left in the mirrored view the user sees
+    const events = run(engine, frameTimes(30, 800), (t) => ({ ...OPEN, x: 0.3 + 0.3 * Math.min(1, t / 200) }));
+    const swipes = events.filter((event) => event.type === 'swipe');
+    expect(swipes).toHaveLength(1);
+    expect(swipes[0]).toMatchObject({ direction: 'left' });
+  });
+
+  it('unwraps rotation deltas through ±π', () => {
+    const engine = new GestureEngine();
+    // Turning from 2.9 rad on through π to -2.9 rad (0.48 rad in all)
+    const times = frameTimes(30, 1000);
+    const events = run(engine, times, (t) => ({ ...OPEN, rotation: 2.9 + (0.48 * t) / 1000 }));
+    const rotations = events.flatMap((event) => (event.type === 'rotate' ? [event] : []));
+    expect(rotations.length).toBeGreaterThan(2);
+    rotations.slice(1).forEach((event) => {
+      expect(event.delta).toBeGreaterThan(0);
+      expect(event.delta).toBeLessThan(0.2);
+    });
+    const total = rotations.reduce((sum, event) => sum + event.delta, 0);
+    expect(total).toBeGreaterThan(0.4);
+    expect(rotations[rotations.length - 1].angle).toBeLessThan(0);
+  });
+});
+
+describe('gesture bindings', () => {
+  // Holds the pose past the debounce and returns the last frame
+  const hold = (controller: HandController, pose: HandPose) => {
+    const frames = frameTimes(30, 200).map((t) =>
+      controller.step(syntheticResult([{ landmarks: syntheticHand(pose) }]), t, { growth: 0, distortion: 0 })
+    );
+    return frames[frames.length - 1];
+  };
+
+  it('activates the construct hand with whatever gesture it is bound to', () => {
+    expect(hold(new HandController({ construct: 'openPalm', distort: 'fist' }), OPEN).construct?.active).toBe(true);
+    expect(hold(new HandController({ construct: 'pinch', distort: 'fist' }), OPEN).construct?.active).toBe(false);
+  });
+
+  it('picks up a rebind on the next step', () => {
+    const controller = new HandController({ construct: 'pinch', distort: 'fist' });
+    expect(hold(controller, OPEN).construct?.active).toBe(false);
+    controller.bindings = { ...controller.bindings, construct: 'openPalm' };
+    const frame = controller.step(syntheticResult([{ landmarks: syntheticHand(OPEN) }]), 233, { growth: 0, distortion: 0 });
+    expect(frame.construct?.active).toBe(true);
+  });
+
+  it('keeps valid stored bindings and defaults the rest', () => {
+    expect(sanitizeGestureBindings({ construct: 'fist', distort: 'wave' })).toEqual({
+      construct: 'fist',
+      distort: DEFAULT_GESTURE_BINDINGS.distort,
+    });
+    expect(sanitizeGestureBindings(null)).toEqual(DEFAULT_GESTURE_BINDINGS);
+    expect(sanitizeGestureBindings(['pinch'])).toEqual(DEFAULT_GESTURE_BINDINGS);
+  });
+});
@@ -0,0 +1,9 @@
+declare module 'glsl-transpiler' {
+  interface TranspilerOptions {
+    uniform?: (name: string) => string;
+    attribute?: (name: string) => string;
+    varying?: (name: string) => string;
+  }
+  const GLSL: (options?: TranspilerOptions) => (source: string) => string;
+  export default GLSL;
+}
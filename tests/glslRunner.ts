@@ -0,0 +1,78 @@
+import GLSL from 'glsl-transpiler';
+import { hash } from '../species/glsl';
+
+// Uniform, attribute and varying values: floats, vectors as arrays, arrays of vectors
+export type GlslValue = number | number[] | number[][];
+export type GlslInputs = Record<string, GlslValue>;
+
+export interface ShaderOutputs {
+  // gl_Position / gl_PointSize or gl_FragColor, plus the vertex shader's varyings
+  [name: string]: GlslValue;
+}
+
+const DISCARDED = Symbol('discard');
+
+// What the WebGL program gets from three.js before the shader source
+const VERTEX_PRELUDE = `
+  attribute vec3 position;
+  uniform mat4 modelViewMatrix;
+  uniform mat4 projectionMatrix;
+`;
+const FRAGMENT_PRELUDE = 'precision highp float;\n';
+
+const names = (source: string, qualifier: string) =>
+  [...source.matchAll(new RegExp(`${qualifier}\\s+\\w+\\s+(\\w+)`, 'g'))].map((match) => match[1]);
+
+/**
+ * Runs a GLSL shader's main() in JS through glsl-transpiler. Vectors are kept
+ * in doubles like the CPU ports, and `hash` is the CPU's float32 hash: the
+ * GPU's result depends on its sin() precision, so the hash itself can't be
+ * compared, only everything built on it. `mod` is replaced too, since the
+ * transpiler's uses JS `%`, which differs from GLSL for negative values.
+ */
+export const compileShader = (
+  source: string,
+  stage: 'vertex' | 'fragment'
+): ((inputs: GlslInputs) => ShaderOutputs | null) => {
+  const full = (stage === 'vertex' ? VERTEX_PRELUDE : FRAGMENT_PRELUDE) + source;
+  const input = (name: string) => `inputs.${name}`;
+  const js = GLSL({
+    uniform: input,
+    attribute: input,
+    ...(stage === 'fragment' ? { varying: input } : {}),
+  })(full);
+
+  const outputs = stage === 'vertex'
+    ? ['gl_Position', 'gl_PointSize', ...names(source, 'varying')]
+    : ['gl_FragColor'];
+  const body = `
+    var Float32Array = function (values) {
+      return typeof values === 'number' ? new Array(values).fill(0) : Array.from(values);
+    };
+    var add = function (out, a, b) { return a.map(function (v, i) { return v + b[i]; }); };
+    var subtract = function (out, a, b) { return a.map(function (v, i) { return v - b[i]; }); };
+    var vec2 = { add: add, subtract: subtract }, vec3 = vec2, vec4 = vec2;
+    var gl_Position = [0, 0, 0, 0], gl_PointSize = 0, gl_FragColor = [0, 0, 0, 0];
+    var gl_PointCoord = inputs.gl_PointCoord || [0.5, 0.5];
+    function discard() { throw DISCARDED; }
+    ${js}
+    function hash(p) { return cpuHash(p[0], p[1]); }
+    function mod(x, y) {
+      if (x.length) return x.map(function (v, i) { return mod(v, y.length ? y[i] : y); });
+      return x - y * Math.floor(x / y);
+    }
+    main();
+    return { ${outputs.map((name) => `${name}: ${name}`).join(', ')} };
+  `;
+  const run = new Function('inputs', 'DISCARDED', 'cpuHash', body);
+
+  return (inputs) => {
+    try {
+      // main() writes into attribute and uniform arrays in place
+      return run(structuredClone(inputs), DISCARDED, hash);
+    } catch (err) {
+      if (err === DISCARDED) return null;
+      throw err;
+    }
+  };
+};
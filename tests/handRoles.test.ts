@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { HandRoleAssigner } from '../utils/handRoles';
+import { HandPose, LEFT_HAND, RIGHT_HAND, syntheticHand, syntheticResult } from './syntheticHands';
+
+const OPEN: HandPose = { x: 0.5, y: 0.6, palmSize: 0.12, pinch: 1 };
+
+type Label = { categoryName: string; score: number };
+
+const hands = (...entries: [number, Label][]) =>
+  syntheticResult(entries.map(([x, handedness]) => ({ landmarks: syntheticHand({ ...OPEN, x }), handedness })));
+
+const roles = (assigner: HandRoleAssigner, result: ReturnType<typeof hands>, t: number) =>
+  assigner.assign(result, t).map((assignment) => assignment.role);
+
+describe('HandRoleAssigner', () => {
+  it('gives the dominant hand the construct role', () => {
+    expect(roles(new HandRoleAssigner(), hands([0.3, LEFT_HAND], [0.7, RIGHT_HAND]), 0)).toEqual(['distort', 'construct']);
+    expect(roles(new HandRoleAssigner({ dominantHand: 'left' }), hands([0.3, LEFT_HAND], [0.7, RIGHT_HAND]), 0)).toEqual([
+      'construct',
+      'distort',
+    ]);
+  });
+
+  it('keeps a hand on its role when its handedness label flips', () => {
+    const assigner = new HandRoleAssigner();
+    const first = assigner.assign(hands([0.5, RIGHT_HAND]), 0);
+    const next = assigner.assign(hands([0.52, LEFT_HAND]), 33);
+    expect(next).toEqual([{ index: 0, id: first[0].id, role: 'construct' }]);
+  });
+
+  it('follows hands by wrist position when the result order swaps', () => {
+    const assigner = new HandRoleAssigner();
+    const [left, right] = assigner.assign(hands([0.3, LEFT_HAND], [0.7, RIGHT_HAND]), 0);
+    const swapped = assigner.assign(hands([0.71, RIGHT_HAND], [0.31, LEFT_HAND]), 33);
+    expect(swapped).toEqual([
+      { index: 0, id: right.id, role: 'construct' },
+      { index: 1, id: left.id, role: 'distort' },
+    ]);
+  });
+
+  it('ignores low-confidence labels and takes whichever role is free', () => {
+    const assigner = new HandRoleAssigner();
+    assigner.assign(hands([0.3, RIGHT_HAND]), 0);
+    const shaky = { ...RIGHT_HAND, score: 0.5 };
+    expect(roles(assigner, hands([0.3, RIGHT_HAND], [0.7, shaky]), 33)).toEqual(['construct', 'distort']);
+  });
+
+  it('holds a role through a short dropout and releases it after the grace period', () => {
+    const assigner = new HandRoleAssigner({ graceMs: 150 });
+    const [hand] = assigner.assign(hands([0.5, LEFT_HAND]), 0);
+    assigner.assign(hands(), 100);
+    expect(assigner.assign(hands([0.5, RIGHT_HAND]), 140)[0]).toMatchObject({ id: hand.id, role: 'distort' });
+
+    assigner.assign(hands(), 200);
+    expect(assigner.assign(hands([0.5, RIGHT_HAND]), 400)[0].role).toBe('construct');
+  });
+
+  it('re-derives roles when the dominant hand changes', () => {
+    const assigner = new HandRoleAssigner();
+    expect(roles(assigner, hands([0.5, RIGHT_HAND]), 0)).toEqual(['construct']);
+    assigner.setDominantHand('left');
+    expect(roles(assigner, hands([0.5, RIGHT_HAND]), 33)).toEqual(['distort']);
+  });
+
+  it('assigns no more than two roles', () => {
+    const result = hands([0.2, RIGHT_HAND], [0.5, LEFT_HAND], [0.8, RIGHT_HAND]);
+    expect(roles(new HandRoleAssigner(), result, 0).sort()).toEqual(['construct', 'distort']);
+  });
+});
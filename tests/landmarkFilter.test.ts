@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { LandmarkFilter, OneEuroFilter, DEFAULT_LANDMARK_FILTER_OPTIONS } from '../utils/landmarkFilter';
+import { HandController } from '../utils/handController';
+import { GestureEngine } from '../utils/gestures';
+import { toLandmarkerResult } from '../utils/landmarkRecording';
+import { createRandom } from '../species/random';
+import { frameTimes, syntheticFrame, syntheticHand, syntheticResult } from './syntheticHands';
+
+const FRAME_RATES = [24, 30, 60];
+// Per-coordinate landmark noise, about what HandLandmarker shows on a still hand
+const JITTER = 0.005;
+
+const standardDeviation = (values: number[]) => {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return Math.sqrt(values.reduce((a, b) => a + (b - mean) ** 2, 0) / values.length);
+};
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * Math.max(0, Math.min(1, t));
+
+// Open hand, firm pinch, then relaxed to sit inside the hysteresis band
+// (enter below 0.4 of palm size, leave above 0.48) before opening again
+const pinchAt = (t: number) => {
+  if (t < 500) return 1;
+  if (t < 800) return lerp(1, 0.3, (t - 500) / 300);
+  if (t < 1300) return 0.3;
+  if (t < 1600) return lerp(0.3, 0.46, (t - 1300) / 300);
+  if (t < 4600) return 0.46;
+  return lerp(0.46, 1, (t - 4600) / 300);
+};
+
+const pinchSequence = (fps: number, seed = 7) => {
+  const random = createRandom(seed);
+  return frameTimes(fps, 5500).map((t) =>
+    syntheticFrame(t, [{ landmarks: syntheticHand({ x: 0.5, y: 0.6, palmSize: 0.12, pinch: pinchAt(t) }, random, JITTER) }])
+  );
+};
+
+describe('OneEuroFilter', () => {
+  const options = { minCutoff: 1.5, beta: 10, derivativeCutoff: 1 };
+
+  it('passes the first value through', () => {
+    expect(new OneEuroFilter(options).filter(0.42, 0)).toBe(0.42);
+  });
+
+  it('ignores repeated and out-of-order timestamps', () => {
+    const filter = new OneEuroFilter(options);
+    filter.filter(0, 0);
+    const value = filter.filter(1, 33);
+    expect(filter.filter(5, 33)).toBe(value);
+    expect(filter.filter(5, 20)).toBe(value);
+  });
+
+  it.each(FRAME_RATES)('steadies a still, jittery value at %i fps', (fps) => {
+    const random = createRandom(fps);
+    const filter = new OneEuroFilter(options);
+    const raw: number[] = [];
+    const filtered: number[] = [];
+    frameTimes(fps, 3000).forEach((t) => {
+      const value = 0.5 + (random() * 2 - 1) * JITTER;
+      raw.push(value);
+      filtered.push(filter.filter(value, t));
+    });
+    // Skip the first second while the filter settles
+    const settled = Math.floor(fps);
+    expect(standardDeviation(filtered.slice(settled))).toBeLessThan(standardDeviation(raw.slice(settled)) / 2);
+  });
+
+  it.each(FRAME_RATES)('catches up with a fast move at %i fps', (fps) => {
+    const filter = new OneEuroFilter(options);
+    let value = 0;
+    frameTimes(fps, 500).forEach((t) => {
+      value = filter.filter(t < 100 ? 0 : 0.3, t);
+    });
+    expect(value).toBeCloseTo(0.3, 2);
+  });
+
+  it('gives the same curve at different frame rates', () => {
+    const signal = (t: number) => 0.5 + 0.2 * Math.sin((t / 1000) * Math.PI);
+    const at30 = new OneEuroFilter(options);
+    const at60 = new OneEuroFilter(options);
+    const times = frameTimes(60, 2000);
+    const sampled30 = new Map<number, number>();
+    times.forEach((t, i) => {
+      if (i % 2 === 0) sampled30.set(t, at30.filter(signal(t), t));
+    });
+    times.forEach((t) => {
+      const value = at60.filter(signal(t), t);
+      if (sampled30.has(t)) expect(Math.abs(value - sampled30.get(t)!)).toBeLessThan(0.01);
+    });
+  });
+});
+
+describe('LandmarkFilter', () => {
+  const hand = (x: number) => syntheticHand({ x, y: 0.6, palmSize: 0.12, pinch: 1 });
+
+  it('keeps separate filters per hand id', () => {
+    const filter = new LandmarkFilter();
+    filter.apply(syntheticResult([{ landmarks: hand(0.3) }, { landmarks: hand(0.7) }]), 0, [1, 2]);
+    // MediaPipe swaps the order; the ids follow the hands
+    const result = filter.apply(syntheticResult([{ landmarks: hand(0.7) }, { landmarks: hand(0.3) }]), 33, [2, 1]);
+    expect(result.landmarks[0][0].x).toBeCloseTo(0.7, 6);
+    expect(result.landmarks[1][0].x).toBeCloseTo(0.3, 6);
+  });
+
+  it('starts a returning hand fresh', () => {
+    const filter = new LandmarkFilter();
+    filter.apply(syntheticResult([{ landmarks: hand(0.3) }]), 0, [1]);
+    filter.apply(syntheticResult([]), 33, []);
+    const result = filter.apply(syntheticResult([{ landmarks: hand(0.8) }]), 66, [1]);
+    expect(result.landmarks[0][0].x).toBeCloseTo(0.8, 6);
+  });
+
+  it('passes results through when disabled', () => {
+    const filter = new LandmarkFilter({ enabled: false });
+    const input = syntheticResult([{ landmarks: hand(0.3) }]);
+    expect(filter.apply(input, 0, [1])).toBe(input);
+  });
+});
+
+describe('pinch stability under jitter', () => {
+  // Start/end transitions of the pinch over the sequence. Debounce is off, so
+  // the filter alone has to keep the state from flickering.
+  const pinchTransitions = (fps: number, filtered: boolean) => {
+    const filter = new LandmarkFilter({ ...DEFAULT_LANDMARK_FILTER_OPTIONS, enabled: filtered });
+    const engine = new GestureEngine({ debounceMs: 0 });
+    return pinchSequence(fps).flatMap((frame) =>
+      engine
+        .process(filter.apply(toLandmarkerResult(frame), frame.t, [0]), frame.t, [0])
+        .events.filter((event) => (event.type === 'start' || event.type === 'end') && event.gesture === 'pinch')
+        .map((event) => event.type)
+    );
+  };
+
+  it.each(FRAME_RATES)('flickers without the filter at %i fps', (fps) => {
+    // Guards the sequence itself: the jitter has to be enough to matter
+    expect(pinchTransitions(fps, false).length).toBeGreaterThan(2);
+  });
+
+  it.each(FRAME_RATES)('starts and ends once with the filter at %i fps', (fps) => {
+    expect(pinchTransitions(fps, true)).toEqual(['start', 'end']);
+  });
+
+  it.each(FRAME_RATES)('holds the construct hand steady through HandController.step at %i fps', (fps) => {
+    const controller = new HandController({ construct: 'pinch', distort: 'fist' });
+    let levels = { growth: 0, distortion: 0 };
+    let wasActive = false;
+    const changes: boolean[] = [];
+    pinchSequence(fps).forEach((frame) => {
+      const result = controller.step(toLandmarkerResult(frame), frame.t, levels);
+      levels = { growth: result.growth, distortion: result.distortion };
+      const active = !!result.construct?.active;
+      if (active !== wasActive) changes.push(active);
+      wasActive = active;
+    });
+    expect(changes).toEqual([true, false]);
+  });
+});
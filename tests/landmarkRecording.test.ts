@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import {
+  LandmarkRecorder,
+  LandmarkRecording,
+  RECORDING_FORMAT,
+  RECORDING_VERSION,
+  RecordingFormatError,
+  ReplayDriver,
+  parseRecording,
+  serializeRecording,
+  toLandmarkerResult,
+} from '../utils/landmarkRecording';
+import { HandPose, LEFT_HAND, frameTimes, syntheticFrame, syntheticHand, syntheticResult } from './syntheticHands';
+
+const OPEN: HandPose = { x: 0.5, y: 0.6, palmSize: 0.12, pinch: 1 };
+
+const recording = (fps = 30, durationMs = 1000): LandmarkRecording => ({
+  format: RECORDING_FORMAT,
+  version: RECORDING_VERSION,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  video: { width: 1280, height: 720 },
+  frames: frameTimes(fps, durationMs).map((t) =>
+    syntheticFrame(t, [{ landmarks: syntheticHand({ ...OPEN, x: 0.3 + (0.4 * t) / durationMs }) }])
+  ),
+});
+
+describe('recording format', () => {
+  it('records frames relative to the first timestamp', () => {
+    const recorder = new LandmarkRecorder();
+    recorder.start({ width: 1280, height: 720 });
+    recorder.addFrame(syntheticResult([{ landmarks: syntheticHand(OPEN), handedness: LEFT_HAND }]), 5000);
+    recorder.addFrame(syntheticResult([]), 5033.3);
+    const result = recorder.stop();
+    expect(result.video).toEqual({ width: 1280, height: 720 });
+    expect(result.frames.map((frame) => frame.t)).toEqual([0, 33.3]);
+    expect(result.frames[0].handedness).toEqual([[LEFT_HAND]]);
+    expect(result.frames[1].landmarks).toEqual([]);
+  });
+
+  it.each(['ndjson', 'json'] as const)('round-trips through %s', (as) => {
+    const original = recording();
+    expect(parseRecording(serializeRecording(original, as))).toEqual(original);
+  });
+
+  it('rebuilds results shaped like the landmarker output', () => {
+    const frame = recording().frames[0];
+    const result = toLandmarkerResult(frame);
+    expect(result.landmarks[0]).toHaveLength(21);
+    expect(result.landmarks[0][0]).toMatchObject({ ...frame.landmarks[0][0], visibility: 1 });
+    expect(result.handedness[0][0]).toMatchObject({ categoryName: 'Left', displayName: 'Left', index: 0 });
+  });
+
+  it('sorts frames by time', () => {
+    const original = recording();
+    const shuffled = { ...original, frames: [...original.frames].reverse() };
+    expect(parseRecording(serializeRecording(shuffled)).frames).toEqual(original.frames);
+  });
+
+  it('rejects foreign files, newer versions and malformed frames', () => {
+    const original = recording();
+    expect(() => parseRecording('{"format":"something-else","version":1}')).toThrow(RecordingFormatError);
+    expect(() => parseRecording('not json\nat all')).toThrow(RecordingFormatError);
+    expect(() => parseRecording(serializeRecording({ ...original, version: RECORDING_VERSION + 1 }))).toThrow(
+      /Unsupported recording version/
+    );
+    const broken = serializeRecording(original).replace('"x":', '"x":"oops","_":');
+    expect(() => parseRecording(broken)).toThrow(/Malformed frame/);
+  });
+});
+
+describe('ReplayDriver', () => {
+  // Plays the whole recording in steps of `stepMs` and returns the frame times in order
+  const playThrough = (speed: number, stepMs: number) => {
+    const driver = new ReplayDriver(recording());
+    driver.speed = speed;
+    driver.play();
+    const seen: number[] = [];
+    while (driver.isPlaying) seen.push(...driver.advance(stepMs).map((frame) => frame.t));
+    return seen;
+  };
+
+  it('delivers every frame once, in order, at any speed and step', () => {
+    const all = recording().frames.map((frame) => frame.t);
+    expect(playThrough(1, 16.7)).toEqual(all);
+    expect(playThrough(0.25, 16.7)).toEqual(all);
+    expect(playThrough(4, 50)).toEqual(all);
+  });
+
+  it('delivers nothing while paused', () => {
+    const driver = new ReplayDriver(recording());
+    expect(driver.advance(500)).toEqual([]);
+    driver.play();
+    driver.pause();
+    expect(driver.advance(500)).toEqual([]);
+    expect(driver.currentTime).toBe(0);
+  });
+
+  it('seeks by returning every frame up to the new time', () => {
+    const driver = new ReplayDriver(recording());
+    const frames = driver.seek(500);
+    expect(frames.length).toBeGreaterThan(0);
+    expect(frames.every((frame) => frame.t <= 500)).toBe(true);
+    expect(driver.seek(5000)).toHaveLength(recording().frames.length);
+    expect(driver.currentTime).toBe(driver.duration);
+
+    // Playback resumes after the seek point
+    driver.seek(500);
+    driver.play();
+    expect(driver.advance(100).every((frame) => frame.t > 500 && frame.t <= 600)).toBe(true);
+  });
+
+  it('restarts from the beginning when played after the end', () => {
+    const driver = new ReplayDriver(recording());
+    driver.seek(driver.duration);
+    expect(driver.ended).toBe(true);
+    driver.play();
+    expect(driver.currentTime).toBe(0);
+    // The frame at 0 belongs to the seek, as for any other seek point
+    const next = driver.advance(100).map((frame) => frame.t);
+    expect(next.length).toBeGreaterThan(0);
+    expect(next.every((t) => t > 0 && t <= 100)).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_SEED, createRandom } from '../species/random';
+import { buildPointCloud } from '../species';
+import { TEST_CONFIG } from './fixtures';
+
+const take = (seed: number, count: number) => {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, () => random());
+};
+
+const COUNTS = { head: 200, stem: 50, leaves: 50 };
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    expect(take(42, 100)).toEqual(take(42, 100));
+    expect(take(MAX_SEED, 100)).toEqual(take(MAX_SEED, 100));
+  });
+
+  it('gives different sequences for different seeds', () => {
+    expect(take(1, 10)).not.toEqual(take(2, 10));
+    expect(take(0, 10)).not.toEqual(take(MAX_SEED, 10));
+  });
+
+  it('stays within [0, 1) and spreads evenly', () => {
+    const values = take(7, 10000);
+    expect(values.every((v) => v >= 0 && v < 1)).toBe(true);
+    const buckets = new Array(10).fill(0);
+    values.forEach((v) => buckets[Math.floor(v * 10)]++);
+    buckets.forEach((count) => expect(Math.abs(count - 1000)).toBeLessThan(150));
+  });
+
+  // mulberry32's published output; a change here changes every saved flower
+  it('matches the reference mulberry32 output', () => {
+    expect(take(0, 3).map((v) => Math.round(v * 4294967296))).toEqual([1144304738, 1416247, 958946056]);
+  });
+});
+
+describe('seeded point clouds', () => {
+  it('rebuild identically from the same config', () => {
+    const a = buildPointCloud('rose', { ...TEST_CONFIG, species: 'rose' }, COUNTS);
+    const b = buildPointCloud('rose', { ...TEST_CONFIG, species: 'rose' }, COUNTS);
+    expect(b.positions).toEqual(a.positions);
+    expect(b.randoms).toEqual(a.randoms);
+  });
+
+  it('change with the seed', () => {
+    const a = buildPointCloud('rose', { ...TEST_CONFIG, species: 'rose', seed: 1 }, COUNTS);
+    const b = buildPointCloud('rose', { ...TEST_CONFIG, species: 'rose', seed: 2 }, COUNTS);
+    expect(b.positions).not.toEqual(a.positions);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { RoseConfig } from '../types';
+import { SPECIES_IDS } from '../species';
+import { CONFIG_RANGES } from '../utils/configSchema';
+import { PALETTE_PRESETS } from '../utils/palettes';
+import { SCENE_URL_VERSION, decodeConfig, encodeConfig } from '../utils/sceneUrl';
+import { TEST_CONFIG } from './fixtures';
+
+const FALLBACK: RoseConfig = { ...TEST_CONFIG, species: 'rose', color: '#ff0000', petalCount: 5 };
+
+const roundTrip = (config: RoseConfig) => decodeConfig(`#${encodeConfig(config)}`, FALLBACK);
+
+describe('scene links', () => {
+  it('round-trip every field', () => {
+    expect(roundTrip(TEST_CONFIG)).toEqual(TEST_CONFIG);
+  });
+
+  it.each(SPECIES_IDS)('round-trip the %s species', (species) => {
+    expect(roundTrip({ ...TEST_CONFIG, species })?.species).toBe(species);
+  });
+
+  it('round-trip a palette, name included', () => {
+    PALETTE_PRESETS.forEach(({ palette }) => {
+      expect(roundTrip({ ...TEST_CONFIG, palette })?.palette).toEqual(palette);
+    });
+    const dotted = { ...PALETTE_PRESETS[0].palette, name: 'v1.2 & more' };
+    expect(roundTrip({ ...TEST_CONFIG, palette: dotted })?.palette).toEqual(dotted);
+  });
+
+  it('keep no more decimals than the slider step', () => {
+    const params = new URLSearchParams(encodeConfig({ ...TEST_CONFIG, twist: 0.8000000001, particleSize: 0.0221234 }));
+    expect(params.get('t')).toBe('0.8');
+    expect(params.get('z')).toBe('0.022');
+    expect(params.has('q')).toBe(false);
+  });
+
+  it('fall back per field for missing or invalid entries', () => {
+    const config = decodeConfig(`#v=${SCENE_URL_VERSION}&p=7&f=orchid&c=xyz&q=bad&t=nope`, FALLBACK);
+    expect(config).toEqual({ ...FALLBACK, petalCount: 7 });
+  });
+
+  it('clamp numbers into their slider ranges', () => {
+    const config = decodeConfig(`#v=${SCENE_URL_VERSION}&p=500&o=-3&w=4.6`, FALLBACK);
+    expect(config?.petalCount).toBe(CONFIG_RANGES.petalCount.max);
+    expect(config?.openness).toBe(CONFIG_RANGES.openness.min);
+    expect(config?.whorls).toBe(5);
+  });
+
+  it('ignore hashes without a scene or from a newer version', () => {
+    expect(decodeConfig('', FALLBACK)).toBeNull();
+    expect(decodeConfig('#section-2', FALLBACK)).toBeNull();
+    expect(decodeConfig(`#v=${SCENE_URL_VERSION + 1}&p=7`, FALLBACK)).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import type { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { RecordedFrame, RecordedLandmark, toLandmarkerResult } from '../utils/landmarkRecording';
+import { DEFAULT_GESTURE_OPTIONS } from '../utils/gestures';
+import { Random } from '../species/random';
+
+// Open hand in hand space: x across the palm, y from the wrist toward the fingers,
+// in units of palm size (wrist to middle knuckle). The thumb tip is placed per pose.
+const HAND_SHAPE: [number, number][] = [
+  [0, 0],
+  [-0.35, 0.25], [-0.6, 0.5], [-0.8, 0.75], [0, 0],
+  [-0.3, 1.0], [-0.35, 1.4], [-0.37, 1.65], [-0.4, 1.9],
+  [0, 1.0], [0, 1.45], [0, 1.75], [0, 2.0],
+  [0.25, 0.95], [0.28, 1.35], [0.3, 1.6], [0.32, 1.8],
+  [0.45, 0.85], [0.52, 1.15], [0.56, 1.35], [0.6, 1.5],
+];
+const THUMB_TIP = 4;
+const INDEX_TIP = 8;
+
+export interface HandPose {
+  // Wrist position, normalized image coordinates
+  x: number;
+  y: number;
+  // Wrist to middle knuckle, in aspect-corrected normalized units
+  palmSize: number;
+  // Thumb tip to index tip, as a fraction of palm size
+  pinch: number;
+  // Hand angle as GestureEngine reports it (radians from vertical, mirrored)
+  rotation?: number;
+}
+
+export const ASPECT_RATIO = DEFAULT_GESTURE_OPTIONS.aspectRatio;
+
+// 21 landmarks for the pose, each coordinate jittered by up to ±jitter when a random source is given
+export const syntheticHand = (pose: HandPose, random?: Random, jitter = 0): RecordedLandmark[] => {
+  const { x, y, palmSize, pinch, rotation = 0 } = pose;
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const shape = HAND_SHAPE.map(([u, v], i) =>
+    i === THUMB_TIP ? [HAND_SHAPE[INDEX_TIP][0] - pinch, HAND_SHAPE[INDEX_TIP][1]] : [u, v]
+  );
+  const noise = () => (random ? (random() * 2 - 1) * jitter : 0);
+  return shape.map(([u, v]) => ({
+    x: x + (palmSize * (u * cos - v * sin)) / ASPECT_RATIO + noise(),
+    y: y - palmSize * (u * sin + v * cos) + noise(),
+    z: 0,
+  }));
+};
+
+// MediaPipe's label for the user's right hand (it assumes a mirrored image)
+export const RIGHT_HAND = { categoryName: 'Left', score: 0.95 };
+export const LEFT_HAND = { categoryName: 'Right', score: 0.95 };
+
+export const syntheticFrame = (
+  t: number,
+  hands: { landmarks: RecordedLandmark[]; handedness?: { categoryName: string; score: number } }[]
+): RecordedFrame => ({
+  t,
+  landmarks: hands.map((hand) => hand.landmarks),
+  handedness: hands.map((hand) => [hand.handedness ?? RIGHT_HAND]),
+});
+
+export const syntheticResult = (
+  hands: { landmarks: RecordedLandmark[]; handedness?: { categoryName: string; score: number } }[]
+): HandLandmarkerResult => toLandmarkerResult(syntheticFrame(0, hands));
+
+// Frame timestamps (ms) over `durationMs` at `fps`
+export const frameTimes = (fps: number, durationMs: number): number[] =>
+  Array.from({ length: Math.floor((durationMs * fps) / 1000) + 1 }, (_, i) => (i * 1000) / fps);
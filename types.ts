@@ -1,4 +1,7 @@
+export type SpeciesId = 'tulip' | 'rose' | 'lily' | 'daisy' | 'sunflower';
+
 export interface RoseConfig {
+  species: SpeciesId;
   color: string;
   petalCount: number;
   twist: number;
@@ -6,4 +9,177 @@ export interface RoseConfig {
   detail: number;
   speed: number;
   particleSize: number;
+  // Drives every random choice in the point cloud; same seed, same flower
+  seed: number;
+  // Species-specific shape parameters
+  whorls: number;      // Rose: rings of petals
+  petalLength: number; // Lily: tepal length
+  rayCount: number;    // Daisy/Sunflower: ray petals per row
+  centerSize: number;  // Daisy/Sunflower: disk radius
+  // Colors for the whole plant; null keeps the classic look shaded from `color`
+  palette: ColorPalette | null;
+}
+
+// Hex colors; `color` stays the middle stop of the petal gradient
+export interface ColorPalette {
+  name: string;
+  petalBase: string;
+  petalTip: string;
+  stem: string;
+  leaf: string;
+  // Sintering flash as particles land
+  flash: string;
+  // Distortion glow, used by every effect in place of its own colors
+  glow: [string, string, string];
+}
+
+// Gestures that can be held and therefore bound to a continuous behavior
+export type HeldGesture = 'pinch' | 'fist' | 'openPalm' | 'point';
+
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+// Which held gesture drives each behavior of the primary/secondary hand
+export interface GestureBindings {
+  construct: HeldGesture;
+  distort: HeldGesture;
+}
+
+export type HandRole = 'construct' | 'distort';
+
+// One Euro filtering of the tracked hand landmarks
+export interface HandFilterSettings {
+  enabled: boolean;
+  // Cutoff frequency (Hz) of a still hand: lower removes more jitter, adds lag
+  minCutoff: number;
+  // How fast the cutoff rises with hand speed: higher cuts lag on quick moves
+  beta: number;
+}
+
+// One person's gesture tuning, measured by the calibration wizard
+export interface CalibrationProfile {
+  id: string;
+  name: string;
+  // Thumb-to-index distance as a fraction of palm size, hand open and pinched
+  openRatio: number;
+  pinchRatio: number;
+  // Comfortable top and bottom of the building hand's reach (normalized camera y)
+  reachTop: number;
+  reachBottom: number;
+}
+
+export type Handedness = 'left' | 'right';
+
+// Where construct/distort input comes from
+export type InputMode = 'camera' | 'pointer';
+
+export interface ConfigPreset {
+  id: string;
+  name: string;
+  config: RoseConfig;
+}
+
+export type GardenLayout = 'grid' | 'ring' | 'scatter' | 'bouquet';
+
+// 'together': one construct gesture builds every flower
+// 'nearest':  each gesture builds only the flower closest to the hand
+export type GardenBuildMode = 'together' | 'nearest';
+
+export interface GardenSettings {
+  enabled: boolean;
+  layout: GardenLayout;
+  buildMode: GardenBuildMode;
+  // One config per flower
+  flowers: RoseConfig[];
+}
+
+// Total points per scene and the relative weight of each part (garden flowers share the total)
+export interface ParticleBudget {
+  total: number;
+  head: number;
+  stem: number;
+  leaves: number;
+}
+
+export type QualityTierId = 'ultra' | 'high' | 'medium' | 'low';
+
+// 'auto' lets the quality manager pick a tier from measured frame times
+export type QualitySetting = 'auto' | QualityTierId;
+
+// Camera director modes; 'free' hands the camera to OrbitControls
+export type CameraModeId = 'orbit' | 'scan' | 'bloom' | 'dolly' | 'free';
+
+// Audio-reactive mode: analyzed features and the uniforms they can drive
+export type AudioFeature = 'bass' | 'mid' | 'treble' | 'beat';
+export type AudioTarget = 'openness' | 'twist' | 'distortion' | 'particleSize' | 'hue';
+
+export interface AudioRoute {
+  id: string;
+  source: AudioFeature;
+  target: AudioTarget;
+  // Multiplies the target's span; negative inverts
+  gain: number;
+  // 0 follows the feature instantly, towards 1 lags more
+  smoothing: number;
+  enabled: boolean;
+}
+
+export interface SoundSettings {
+  // Master volume 0-1
+  volume: number;
+  muted: boolean;
+}
+
+export type DistortionEffectId = 'vortex' | 'shatter' | 'melt' | 'ripple' | 'voxel' | 'dust';
+
+export interface DistortionSettings {
+  effect: DistortionEffectId;
+  // Optional second effect held in a fixed mix with the first
+  blendWith: DistortionEffectId | null;
+  blend: number;
+  // Seconds a switch between effects crossfades over
+  crossfade: number;
+  // Parameter values per effect, in the order the effect lists them
+  params: Record<DistortionEffectId, number[]>;
+}
+
+export type TouchMode = 'push' | 'attract' | 'swirl';
+
+export interface TouchSettings {
+  enabled: boolean;
+  mode: TouchMode;
+  // Reach of a fingertip, in world units
+  radius: number;
+  // How far particles at the fingertip move (push/attract) or turn (swirl)
+  strength: number;
+  // World units the fingertip travels in depth across the full z range
+  depth: number;
+}
+
+// Order the scan builds the flower in
+export type ScanMode = 'topDown' | 'bottomUp' | 'radial' | 'spiral' | 'sparkle';
+
+export type EmitterLayout = 'corners' | 'ring' | 'overhead';
+
+export type FlyInEasing = 'quartOut' | 'cubicOut' | 'expoOut' | 'backOut' | 'linear';
+
+export interface ConstructionSettings {
+  scanMode: ScanMode;
+  // Particles fly in from the emitters, and each one fires a laser beam
+  emitterLayout: EmitterLayout;
+  emitterCount: number;
+  beamColor: string;
+  easing: FlyInEasing;
+}
+
+export type PostEffectId = 'bloom' | 'aberration' | 'rgbSplit' | 'scanlines' | 'grain' | 'vignette' | 'toneMapping';
+
+export interface PostEffectSetting {
+  enabled: boolean;
+  intensity: number;
+}
+
+export interface PostProcessingSettings {
+  // Master switch; low quality tiers skip the stack regardless
+  enabled: boolean;
+  effects: Record<PostEffectId, PostEffectSetting>;
 }
@@ -0,0 +1,201 @@
+import { AudioFeature } from '../types';
+
+export type AudioFeatures = Record<AudioFeature, number>;
+
+export const AUDIO_FEATURES: AudioFeature[] = ['bass', 'mid', 'treble', 'beat'];
+
+export const SILENT_FEATURES: AudioFeatures = { bass: 0, mid: 0, treble: 0, beat: 0 };
+
+export type AudioSourceKind = 'microphone' | 'file';
+
+export interface AudioAnalyzerOptions {
+  fftSize: number;
+  // Frequency bands in Hz
+  bands: Record<Exclude<AudioFeature, 'beat'>, [number, number]>;
+  // Per-band peaks fall by this share per second, so quiet tracks still fill the range
+  peakDecay: number;
+  // Peaks never drop below this, or silence gets amplified into noise
+  peakFloor: number;
+  // Bass this far above its running average counts as an onset
+  beatThreshold: number;
+  // Minimum gap between two beats
+  beatCooldownMs: number;
+  // Time for the beat pulse to fall to ~37%
+  beatDecayMs: number;
+}
+
+export const DEFAULT_AUDIO_OPTIONS: AudioAnalyzerOptions = {
+  fftSize: 2048,
+  bands: {
+    bass: [20, 250],
+    mid: [250, 2000],
+    treble: [2000, 12000],
+  },
+  peakDecay: 0.1,
+  peakFloor: 0.15,
+  beatThreshold: 1.35,
+  beatCooldownMs: 250,
+  beatDecayMs: 150,
+};
+
+/**
+ * WebAudio analysis of a microphone or an audio file: bass/mid/treble energy
+ * normalized against a slowly falling peak, plus bass onsets as a decaying
+ * beat pulse. All features are 0..1. A file also plays through the speakers.
+ */
+export class AudioAnalyzer {
+  readonly options: AudioAnalyzerOptions;
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private source: AudioNode | null = null;
+  private stream: MediaStream | null = null;
+  private element: HTMLAudioElement | null = null;
+  private elementUrl: string | null = null;
+  private bins = new Uint8Array(0);
+  private peaks = { bass: 0, mid: 0, treble: 0 };
+  private bassAverage = 0;
+  private lastBeat = -Infinity;
+  private lastSample = 0;
+  private kind: AudioSourceKind | null = null;
+  private label = '';
+
+  constructor(options: Partial<AudioAnalyzerOptions> = {}) {
+    this.options = { ...DEFAULT_AUDIO_OPTIONS, ...options };
+  }
+
+  get active() {
+    return this.analyser !== null;
+  }
+
+  get sourceKind() {
+    return this.kind;
+  }
+
+  // Microphone or file name, for the panel
+  get sourceLabel() {
+    return this.label;
+  }
+
+  async useMicrophone() {
+    if (!navigator.mediaDevices?.getUserMedia) throw new Error('getUserMedia is not supported');
+    const stream = await navigator.mediaDevices.getUserMedia({
+      // Voice processing flattens music; ask for the raw signal
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+    });
+    this.stop();
+    const context = this.createContext();
+    this.stream = stream;
+    this.connect(context.createMediaStreamSource(stream), false);
+    this.kind = 'microphone';
+    this.label = stream.getAudioTracks()[0]?.label || 'Microphone';
+  }
+
+  async useFile(file: File) {
+    if (!file.type.startsWith('audio/') && !/\.(mp3|wav|ogg|oga|flac|m4a|aac|webm)$/i.test(file.name)) {
+      throw new Error(`${file.name} is not an audio file`);
+    }
+    this.stop();
+    const context = this.createContext();
+    const element = new Audio();
+    this.elementUrl = URL.createObjectURL(file);
+    element.src = this.elementUrl;
+    element.loop = true;
+    this.element = element;
+    this.connect(context.createMediaElementSource(element), true);
+    this.kind = 'file';
+    this.label = file.name;
+    try {
+      await element.play();
+    } catch (err) {
+      // Autoplay policy or an undecodable file: don't leave a dead source wired up
+      this.stop();
+      throw err;
+    }
+  }
+
+  stop() {
+    this.source?.disconnect();
+    this.analyser?.disconnect();
+    this.stream?.getTracks().forEach((track) => track.stop());
+    if (this.element) {
+      this.element.pause();
+      this.element.removeAttribute('src');
+      this.element.load();
+    }
+    if (this.elementUrl) URL.revokeObjectURL(this.elementUrl);
+    this.source = null;
+    this.analyser = null;
+    this.stream = null;
+    this.element = null;
+    this.elementUrl = null;
+    this.kind = null;
+    this.label = '';
+    this.peaks = { bass: 0, mid: 0, treble: 0 };
+    this.bassAverage = 0;
+    this.lastBeat = -Infinity;
+  }
+
+  // Releases the audio context as well; the analyzer can't be used afterwards
+  dispose() {
+    this.stop();
+    this.context?.close();
+    this.context = null;
+  }
+
+  sample(now: number): AudioFeatures {
+    const analyser = this.analyser;
+    const context = this.context;
+    if (!analyser || !context) return { ...SILENT_FEATURES };
+
+    const dt = this.lastSample ? Math.min((now - this.lastSample) / 1000, 0.25) : 0;
+    this.lastSample = now;
+    analyser.getByteFrequencyData(this.bins);
+
+    const binHz = context.sampleRate / analyser.fftSize;
+    const energy = (from: number, to: number) => {
+      const start = Math.max(1, Math.floor(from / binHz));
+      const end = Math.min(this.bins.length - 1, Math.ceil(to / binHz));
+      let sum = 0;
+      for (let i = start; i <= end; i++) sum += this.bins[i];
+      return end >= start ? sum / ((end - start + 1) * 255) : 0;
+    };
+
+    const { bands, peakDecay, peakFloor } = this.options;
+    const decay = Math.pow(1 - peakDecay, dt);
+    const features = { ...SILENT_FEATURES };
+    (Object.keys(bands) as (keyof typeof bands)[]).forEach((band) => {
+      const raw = energy(...bands[band]);
+      this.peaks[band] = Math.max(raw, this.peaks[band] * decay, peakFloor);
+      features[band] = raw / this.peaks[band];
+    });
+
+    // --- Beat onsets: bass jumping above its ~1s running average ---
+    const bass = energy(...bands.bass);
+    const { beatThreshold, beatCooldownMs, beatDecayMs } = this.options;
+    if (bass > this.bassAverage * beatThreshold && bass > peakFloor && now - this.lastBeat > beatCooldownMs) {
+      this.lastBeat = now;
+    }
+    this.bassAverage += (bass - this.bassAverage) * Math.min(1, dt);
+    features.beat = Math.exp(-(now - this.lastBeat) / beatDecayMs);
+    return features;
+  }
+
+  private createContext() {
+    if (!this.context) this.context = new AudioContext();
+    // Created or resumed from a click, so autoplay rules allow it
+    this.context.resume();
+    return this.context;
+  }
+
+  private connect(source: AudioNode, audible: boolean) {
+    const context = this.context!;
+    const analyser = context.createAnalyser();
+    analyser.fftSize = this.options.fftSize;
+    analyser.smoothingTimeConstant = 0.6;
+    source.connect(analyser);
+    if (audible) analyser.connect(context.destination);
+    this.source = source;
+    this.analyser = analyser;
+    this.bins = new Uint8Array(analyser.frequencyBinCount);
+  }
+}
@@ -0,0 +1,97 @@
+import { AudioFeature, AudioRoute, AudioTarget } from '../types';
+import { AUDIO_FEATURES, AudioFeatures } from './audioAnalysis';
+import { ConfigRange, clampToRange } from './configSchema';
+import { isFiniteNumber, isRecord, loadSettings, saveSettings } from './persistedSettings';
+
+const STORAGE_KEY = 'flora.audioRoutes';
+
+export interface AudioTargetInfo {
+  id: AudioTarget;
+  label: string;
+  // Offset at feature 1 and gain 1, in the uniform's own units (hue in turns)
+  span: number;
+}
+
+export const AUDIO_TARGETS: AudioTargetInfo[] = [
+  { id: 'openness', label: 'Openness', span: 0.6 },
+  { id: 'twist', label: 'Twist', span: 1.5 },
+  { id: 'distortion', label: 'Distortion', span: 1 },
+  { id: 'particleSize', label: 'Particle Size', span: 0.03 },
+  { id: 'hue', label: 'Color Hue', span: 0.25 },
+];
+
+export const AUDIO_FEATURE_LABELS: Record<AudioFeature, string> = {
+  bass: 'Bass',
+  mid: 'Mid',
+  treble: 'Treble',
+  beat: 'Beat',
+};
+
+export const ROUTE_RANGES: Record<'gain' | 'smoothing', ConfigRange> = {
+  gain: { min: -2, max: 2, step: 0.05 },
+  smoothing: { min: 0, max: 0.98, step: 0.01 },
+};
+
+// What each target gets added on top of the config (and distortion) this frame
+export type AudioModulation = Record<AudioTarget, number>;
+
+export const NO_MODULATION: AudioModulation = { openness: 0, twist: 0, distortion: 0, particleSize: 0, hue: 0 };
+
+export const createRouteId = () => `route-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const DEFAULT_AUDIO_ROUTES: AudioRoute[] = [
+  { id: 'bass-openness', source: 'bass', target: 'openness', gain: 1, smoothing: 0.6, enabled: true },
+  { id: 'beat-size', source: 'beat', target: 'particleSize', gain: 0.8, smoothing: 0.2, enabled: true },
+  { id: 'mid-twist', source: 'mid', target: 'twist', gain: 0.6, smoothing: 0.85, enabled: true },
+  { id: 'treble-hue', source: 'treble', target: 'hue', gain: 0.5, smoothing: 0.9, enabled: true },
+  { id: 'beat-distortion', source: 'beat', target: 'distortion', gain: 0.3, smoothing: 0.3, enabled: false },
+];
+
+const isTarget = (value: unknown): value is AudioTarget => AUDIO_TARGETS.some((target) => target.id === value);
+const isFeature = (value: unknown): value is AudioFeature => (AUDIO_FEATURES as unknown[]).includes(value);
+
+export const sanitizeRoutes = (raw: unknown): AudioRoute[] => {
+  if (!Array.isArray(raw)) return DEFAULT_AUDIO_ROUTES.map((route) => ({ ...route }));
+  return raw.flatMap((route: unknown): AudioRoute[] => {
+    if (!isRecord(route) || !isFeature(route.source) || !isTarget(route.target)) return [];
+    return [{
+      id: typeof route.id === 'string' ? route.id : createRouteId(),
+      source: route.source,
+      target: route.target,
+      gain: isFiniteNumber(route.gain) ? clampToRange(route.gain, ROUTE_RANGES.gain) : 1,
+      smoothing: isFiniteNumber(route.smoothing) ? clampToRange(route.smoothing, ROUTE_RANGES.smoothing) : 0.5,
+      enabled: route.enabled !== false,
+    }];
+  });
+};
+
+export const loadRoutes = (): AudioRoute[] => loadSettings(STORAGE_KEY, sanitizeRoutes);
+
+export const saveRoutes = (routes: AudioRoute[]) => saveSettings(STORAGE_KEY, routes, 'audio routes');
+
+/**
+ * Turns audio features into uniform offsets through the routing table.
+ * Each route keeps its own smoothed value; routes on the same target add up.
+ */
+export class AudioModulator {
+  private smoothed = new Map<string, number>();
+
+  reset() {
+    this.smoothed.clear();
+  }
+
+  // `deltaMs` makes smoothing frame-rate independent (the factor is per 1/60 s)
+  step(features: AudioFeatures, routes: AudioRoute[], deltaMs: number): AudioModulation {
+    const modulation = { ...NO_MODULATION };
+    const frames = deltaMs / (1000 / 60);
+    routes.forEach((route) => {
+      if (!route.enabled) return;
+      const previous = this.smoothed.get(route.id) ?? 0;
+      const value = previous + (features[route.source] - previous) * (1 - Math.pow(route.smoothing, frames));
+      this.smoothed.set(route.id, value);
+      const span = AUDIO_TARGETS.find((target) => target.id === route.target)!.span;
+      modulation[route.target] += value * route.gain * span;
+    });
+    return modulation;
+  }
+}
@@ -0,0 +1,228 @@
+import { CalibrationProfile, HeldGesture } from '../types';
+import { DEFAULT_GROWTH_MAPPING, GrowthMapping, HandController } from './handController';
+import { HandGestureState, getGestureAnchor } from './gestures';
+import { createPresetId } from './presets';
+import { isFiniteNumber, isRecord, loadSettings, saveSettings } from './persistedSettings';
+
+const STORAGE_KEY = 'flora.calibration';
+
+// Where between the pinched and open ratio the pinch threshold sits
+const PINCH_SPLIT = 0.3;
+// Narrowest reach band a profile may map growth onto
+const MIN_REACH = 0.2;
+
+// Matches the gesture defaults: pinch threshold 0.4 of palm size, growth over y 0.2..0.8
+export const DEFAULT_CALIBRATION_PROFILE: CalibrationProfile = {
+  id: 'default',
+  name: 'Default',
+  openRatio: 1.1,
+  pinchRatio: 0.1,
+  reachTop: DEFAULT_GROWTH_MAPPING.minY,
+  reachBottom: DEFAULT_GROWTH_MAPPING.maxY,
+};
+
+export const pinchThresholdFor = (profile: CalibrationProfile) =>
+  profile.pinchRatio + (profile.openRatio - profile.pinchRatio) * PINCH_SPLIT;
+
+export const growthMappingFor = (profile: CalibrationProfile): GrowthMapping => ({
+  ...DEFAULT_GROWTH_MAPPING,
+  minY: profile.reachTop,
+  maxY: profile.reachBottom,
+});
+
+// Points the controller's pinch threshold and growth band at this profile
+export const applyCalibration = (controller: HandController, profile: CalibrationProfile) => {
+  controller.gestures.options.pinchThreshold = pinchThresholdFor(profile);
+  controller.growthMapping = growthMappingFor(profile);
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Keeps measured values usable: the pinch well below the open hand, a reach band
+// of at least MIN_REACH inside the frame
+export const sanitizeProfile = (raw: unknown): CalibrationProfile | null => {
+  if (!isRecord(raw) || typeof raw.name !== 'string') return null;
+  const { openRatio: open, pinchRatio: pinch, reachTop: top, reachBottom: bottom } = raw;
+  if (!isFiniteNumber(open) || !isFiniteNumber(pinch) || !isFiniteNumber(top) || !isFiniteNumber(bottom)) return null;
+
+  const openRatio = clamp(open, 0.3, 3);
+  const pinchRatio = clamp(pinch, 0, openRatio * 0.6);
+  let reachTop = clamp(Math.min(top, bottom), 0, 1);
+  let reachBottom = clamp(Math.max(top, bottom), 0, 1);
+  if (reachBottom - reachTop < MIN_REACH) {
+    const middle = clamp((reachTop + reachBottom) / 2, MIN_REACH / 2, 1 - MIN_REACH / 2);
+    reachTop = middle - MIN_REACH / 2;
+    reachBottom = middle + MIN_REACH / 2;
+  }
+  return {
+    id: typeof raw.id === 'string' ? raw.id : createPresetId(),
+    name: raw.name.trim() || 'Unnamed',
+    openRatio,
+    pinchRatio,
+    reachTop,
+    reachBottom,
+  };
+};
+
+export interface CalibrationStore {
+  profiles: CalibrationProfile[];
+  // null: the default profile
+  activeId: string | null;
+}
+
+export const sanitizeCalibration = (raw: unknown): CalibrationStore => {
+  if (!isRecord(raw)) return { profiles: [], activeId: null };
+  const profiles = (Array.isArray(raw.profiles) ? raw.profiles : [])
+    .map(sanitizeProfile)
+    .filter((profile): profile is CalibrationProfile => profile !== null);
+  const active = profiles.find((profile) => profile.id === raw.activeId);
+  return { profiles, activeId: active ? active.id : null };
+};
+
+export const loadCalibration = (): CalibrationStore => loadSettings(STORAGE_KEY, sanitizeCalibration);
+
+export const saveCalibration = (store: CalibrationStore) => saveSettings(STORAGE_KEY, store, 'calibration profiles');
+
+export const activeProfile = (store: CalibrationStore) =>
+  store.profiles.find((profile) => profile.id === store.activeId) ?? DEFAULT_CALIBRATION_PROFILE;
+
+// Default, then the saved profiles in order
+export const cycleProfile = (store: CalibrationStore, step = 1): string | null => {
+  const ids = [null, ...store.profiles.map((profile) => profile.id)];
+  const index = ids.indexOf(store.activeId);
+  return ids[(index + step + ids.length) % ids.length];
+};
+
+export type CalibrationStepId = 'open' | 'pinch' | 'top' | 'bottom';
+
+interface CalibrationStepDef {
+  id: CalibrationStepId;
+  title: string;
+  instruction: string;
+  // The value this step measures from the building hand
+  measure: (hand: HandGestureState, gesture: HeldGesture) => number;
+  // The hand must hold the value within this much for the whole step
+  tolerance: number;
+}
+
+const pinchRatio = (hand: HandGestureState) => hand.pinchDistance / hand.palmSize;
+
+export const CALIBRATION_STEPS: CalibrationStepDef[] = [
+  {
+    id: 'open',
+    title: 'Open Hand',
+    instruction: 'Hold your building hand up, open, with the palm toward the camera.',
+    measure: pinchRatio,
+    tolerance: 0.2,
+  },
+  {
+    id: 'pinch',
+    title: 'Pinch',
+    instruction: 'Touch your thumb and index fingertips together and hold.',
+    measure: pinchRatio,
+    tolerance: 0.1,
+  },
+  {
+    id: 'top',
+    title: 'Top of Reach',
+    instruction: 'Make the build gesture and raise your hand as high as is comfortable.',
+    measure: (hand, gesture) => getGestureAnchor(hand, gesture).y,
+    tolerance: 0.04,
+  },
+  {
+    id: 'bottom',
+    title: 'Bottom of Reach',
+    instruction: 'Keep the gesture and lower your hand as far as is comfortable.',
+    measure: (hand, gesture) => getGestureAnchor(hand, gesture).y,
+    tolerance: 0.04,
+  },
+];
+
+export type CalibrationMeasurements = Record<CalibrationStepId, number>;
+
+export interface CalibrationStatus {
+  // Index into CALIBRATION_STEPS; equals its length once finished
+  step: number;
+  // 0..1 through the current step's hold
+  progress: number;
+  handVisible: boolean;
+  // Set once every step is measured
+  result: CalibrationMeasurements | null;
+}
+
+export interface CalibrationSessionOptions {
+  // How long each pose has to be held
+  holdMs: number;
+}
+
+export const DEFAULT_CALIBRATION_OPTIONS: CalibrationSessionOptions = {
+  holdMs: 1500,
+};
+
+/**
+ * Walks through CALIBRATION_STEPS on live hand frames. Each step waits for the
+ * pose to stay within its tolerance for holdMs, then keeps the median value.
+ * Losing the hand or moving restarts the current step.
+ */
+export class CalibrationSession {
+  readonly options: CalibrationSessionOptions;
+  private step = 0;
+  private samples: number[] = [];
+  private since: number | null = null;
+  private measured: Partial<CalibrationMeasurements> = {};
+  private status: CalibrationStatus = { step: 0, progress: 0, handVisible: false, result: null };
+  // The construct gesture, whose anchor growth follows
+  private gesture: HeldGesture;
+
+  constructor(gesture: HeldGesture, options: Partial<CalibrationSessionOptions> = {}) {
+    this.gesture = gesture;
+    this.options = { ...DEFAULT_CALIBRATION_OPTIONS, ...options };
+  }
+
+  get done() {
+    return this.step >= CALIBRATION_STEPS.length;
+  }
+
+  addSample(hand: HandGestureState | undefined, timestamp: number): CalibrationStatus {
+    if (this.done) return this.status;
+    const def = CALIBRATION_STEPS[this.step];
+
+    const value = hand ? def.measure(hand, this.gesture) : NaN;
+    const steady = Number.isFinite(value) && (!this.samples.length || Math.abs(value - this.samples[0]) <= def.tolerance);
+    // A pinch only counts once the fingers have clearly closed from the open hand
+    const pinched = def.id !== 'pinch' || value < (this.measured.open ?? Infinity) * 0.6;
+    if (!steady || !pinched) {
+      this.samples = Number.isFinite(value) && pinched ? [value] : [];
+      this.since = this.samples.length ? timestamp : null;
+    } else {
+      if (this.since === null) this.since = timestamp;
+      this.samples.push(value);
+    }
+
+    const progress = this.since === null ? 0 : Math.min(1, (timestamp - this.since) / this.options.holdMs);
+    if (progress >= 1) {
+      const sorted = [...this.samples].sort((a, b) => a - b);
+      this.measured[def.id] = sorted[Math.floor(sorted.length / 2)];
+      this.step += 1;
+      this.samples = [];
+      this.since = null;
+    }
+
+    this.status = {
+      step: this.step,
+      progress: this.done ? 1 : progress,
+      handVisible: !!hand,
+      result: this.done ? (this.measured as CalibrationMeasurements) : null,
+    };
+    return this.status;
+  }
+}
+
+export const profileFromMeasurements = (name: string, measured: CalibrationMeasurements): CalibrationProfile =>
+  sanitizeProfile({
+    name,
+    openRatio: measured.open,
+    pinchRatio: measured.pinch,
+    reachTop: measured.top,
+    reachBottom: measured.bottom,
+  })!;
@@ -0,0 +1,291 @@
+import * as THREE from 'three';
+import { CameraModeId, ScanMode } from '../types';
+import { scanHeight } from './construction';
+import { ControlLevels } from './handController';
+
+export interface CameraMode {
+  id: CameraModeId;
+  label: string;
+  // Keyboard shortcut
+  key: string;
+}
+
+export const CAMERA_MODES: CameraMode[] = [
+  { id: 'orbit', label: 'Orbit', key: '1' },
+  { id: 'scan', label: 'Scan Close-up', key: '2' },
+  { id: 'bloom', label: 'Bloom View', key: '3' },
+  { id: 'dolly', label: 'Dolly-in', key: '4' },
+  { id: 'free', label: 'Free', key: '5' },
+];
+
+export const getCameraMode = (id: CameraModeId) => CAMERA_MODES.find((mode) => mode.id === id) ?? CAMERA_MODES[0];
+
+// Next (or previous, step -1) mode in CAMERA_MODES order
+export const cycleCameraMode = (id: CameraModeId, step = 1) => {
+  const index = CAMERA_MODES.findIndex((mode) => mode.id === id);
+  return CAMERA_MODES[(index + step + CAMERA_MODES.length) % CAMERA_MODES.length].id;
+};
+
+export type DirectorEvent = 'constructStart' | 'bloomComplete' | 'distortStart' | 'distortEnd';
+
+export interface AutoCut {
+  mode: CameraModeId;
+  // Return to orbit after this many seconds; omitted cuts stay until the next one
+  holdSeconds?: number;
+}
+
+// Which shot each construction/distortion event cuts to when auto cuts are on
+export const AUTO_CUTS: Partial<Record<DirectorEvent, AutoCut>> = {
+  constructStart: { mode: 'scan' },
+  bloomComplete: { mode: 'bloom', holdSeconds: 6 },
+  distortStart: { mode: 'dolly' },
+  distortEnd: { mode: 'orbit' },
+};
+
+export interface CameraDirectorOptions {
+  // Seconds a transition between two shots takes
+  blendSeconds: number;
+  orbitDistance: number;
+  orbitHeight: number;
+  // Radians per second around the flower
+  orbitSpeed: number;
+  scanDistance: number;
+  bloomHeight: number;
+  // The dolly travels from orbitDistance to this over dollySeconds
+  dollyDistance: number;
+  dollySeconds: number;
+  // Growth speed (per second) that counts as the visitor building
+  buildRate: number;
+  // Limits of the two-hand zoom, as multiples of each shot's distance
+  minZoom: number;
+  maxZoom: number;
+  // Orbit radians per radian the hands turn
+  steerGain: number;
+  // Share of the glide speed lost per second after the hands let go
+  friction: number;
+}
+
+export const DEFAULT_DIRECTOR_OPTIONS: CameraDirectorOptions = {
+  blendSeconds: 1.5,
+  orbitDistance: 35,
+  orbitHeight: 5,
+  orbitSpeed: 0.08,
+  scanDistance: 15,
+  bloomHeight: 30,
+  dollyDistance: 12,
+  dollySeconds: 20,
+  buildRate: 0.05,
+  minZoom: 0.35,
+  maxZoom: 2.5,
+  steerGain: 1.5,
+  friction: 0.9,
+};
+
+// Where the flower head sits once fully built
+const HEAD_Y = 2;
+
+const easeInOut = (t: number) => t * t * (3 - 2 * t);
+
+/**
+ * Decides where the camera looks. Each mode computes a shot (position + target)
+ * every frame; switching modes blends from the pose the camera had at the cut.
+ * 'free' leaves the camera to OrbitControls. Construction and distortion events
+ * are read off the growth/distortion levels, so hands, pointer, replays and the
+ * sequencer all trigger the same cuts. Two-hand steering zooms and turns
+ * whatever shot is running and glides on after release.
+ */
+export class CameraDirector {
+  readonly options: CameraDirectorOptions;
+  autoCuts = true;
+  // The scan shot follows this construction scan
+  scanMode: ScanMode = 'topDown';
+  // Called whenever the mode changes, including auto cuts
+  onModeChange: ((mode: CameraModeId) => void) | null = null;
+  private current: CameraModeId = 'orbit';
+  private azimuth = 0;
+  private modeTime = 0;
+  private scanTarget = 5;
+  private blend = { from: { position: new THREE.Vector3(), target: new THREE.Vector3() }, elapsed: 0, seconds: 0, pending: false };
+  private shot = { position: new THREE.Vector3(), target: new THREE.Vector3() };
+  private levels: ControlLevels | null = null;
+  private building = false;
+  private holdUntil: number | null = null;
+  // Two-hand steering: log of the zoom multiplier, pending input and glide velocity
+  private zoom = 0;
+  private steering = false;
+  private pending = { zoom: 0, turn: 0 };
+  private velocity = { zoom: 0, turn: 0 };
+  private offset = new THREE.Vector3();
+
+  constructor(options: Partial<CameraDirectorOptions> = {}) {
+    this.options = { ...DEFAULT_DIRECTOR_OPTIONS, ...options };
+  }
+
+  get mode() {
+    return this.current;
+  }
+
+  setMode(mode: CameraModeId, blendSeconds = this.options.blendSeconds) {
+    this.holdUntil = null;
+    if (mode === this.current) return;
+    this.current = mode;
+    this.zoom = 0;
+    this.velocity.zoom = this.velocity.turn = 0;
+    this.modeTime = 0;
+    this.startBlend(blendSeconds);
+    this.onModeChange?.(mode);
+  }
+
+  // Blend from wherever the camera is now, e.g. after the sequencer let go of it
+  startBlend(blendSeconds = this.options.blendSeconds) {
+    this.blend.pending = true;
+    this.blend.elapsed = 0;
+    this.blend.seconds = blendSeconds;
+  }
+
+  /**
+   * Feeds one frame of two-hand steering: `spread` is the hands' distance ratio
+   * to the previous frame (apart = zoom in), `rotation` their turn in radians.
+   * Pass null once the hands let go to start the glide.
+   */
+  steer(input: { spread: number; rotation: number; dt: number } | null) {
+    if (!input) {
+      this.steering = false;
+      return;
+    }
+    this.steering = true;
+    const zoom = -Math.log(input.spread);
+    const turn = -input.rotation * this.options.steerGain;
+    this.pending.zoom += zoom;
+    this.pending.turn += turn;
+    if (input.dt > 0) {
+      // Smoothed so the glide doesn't inherit one jittery frame
+      const seconds = input.dt / 1000;
+      this.velocity.zoom = THREE.MathUtils.lerp(this.velocity.zoom, zoom / seconds, 0.5);
+      this.velocity.turn = THREE.MathUtils.lerp(this.velocity.turn, turn / seconds, 0.5);
+    }
+  }
+
+  // Forget the last levels, so a jump (e.g. a replay seek) isn't read as building
+  resetLevels() {
+    this.levels = null;
+    this.building = false;
+  }
+
+  // Construction/distortion events since the last call, from level changes
+  observe(levels: ControlLevels, delta: number): DirectorEvent[] {
+    const events: DirectorEvent[] = [];
+    const previous = this.levels;
+    this.levels = { ...levels };
+    if (!previous || delta <= 0) return events;
+
+    const rate = (levels.growth - previous.growth) / delta;
+    const building = rate > this.options.buildRate && levels.growth < 0.95;
+    if (building && !this.building) events.push('constructStart');
+    this.building = building || (this.building && Math.abs(rate) > 0.001 && levels.growth < 0.95);
+    if (previous.growth < 0.98 && levels.growth >= 0.98) events.push('bloomComplete');
+    if (previous.distortion < 0.5 && levels.distortion >= 0.5) events.push('distortStart');
+    if (previous.distortion > 0.1 && levels.distortion <= 0.1) events.push('distortEnd');
+    return events;
+  }
+
+  /**
+   * Advances the director one frame. Returns the shot to apply, or null in
+   * free mode where OrbitControls owns the camera.
+   */
+  update(delta: number, levels: ControlLevels, camera: THREE.Camera, currentTarget: THREE.Vector3) {
+    if (this.autoCuts && this.current !== 'free') {
+      for (const event of this.observe(levels, delta)) {
+        const cut = AUTO_CUTS[event];
+        if (!cut) continue;
+        this.setMode(cut.mode);
+        if (cut.holdSeconds !== undefined) this.holdUntil = cut.holdSeconds;
+      }
+    } else {
+      this.observe(levels, delta);
+    }
+
+    this.modeTime += delta;
+    if (this.holdUntil !== null && this.modeTime >= this.holdUntil) this.setMode('orbit');
+    if (this.blend.pending) {
+      this.blend.from.position.copy(camera.position);
+      this.blend.from.target.copy(currentTarget);
+      this.blend.pending = false;
+    }
+
+    const { zoom, turn } = this.consumeSteering(delta);
+    if (this.current === 'free') {
+      // OrbitControls owns the camera; move it around its target and let the controls catch up
+      this.offset.subVectors(camera.position, currentTarget).applyAxisAngle(THREE.Object3D.DEFAULT_UP, turn);
+      this.offset.setLength(THREE.MathUtils.clamp(this.offset.length() * Math.exp(zoom), 2, 80));
+      camera.position.addVectors(currentTarget, this.offset);
+      return null;
+    }
+    this.azimuth += turn;
+    this.zoom = THREE.MathUtils.clamp(this.zoom + zoom, Math.log(this.options.minZoom), Math.log(this.options.maxZoom));
+
+    this.computeShot(delta, levels.growth);
+    this.blend.elapsed += delta;
+    if (this.blend.elapsed < this.blend.seconds) {
+      const t = easeInOut(this.blend.elapsed / this.blend.seconds);
+      this.shot.position.lerpVectors(this.blend.from.position, this.shot.position, t);
+      this.shot.target.lerpVectors(this.blend.from.target, this.shot.target, t);
+    }
+    return this.shot;
+  }
+
+  // Steering to apply this frame: held input, or the decaying glide after release
+  private consumeSteering(delta: number) {
+    if (this.steering) {
+      const step = { ...this.pending };
+      this.pending.zoom = this.pending.turn = 0;
+      return step;
+    }
+    this.pending.zoom = this.pending.turn = 0;
+    const decay = Math.pow(1 - this.options.friction, delta);
+    this.velocity.zoom *= decay;
+    this.velocity.turn *= decay;
+    return { zoom: this.velocity.zoom * delta, turn: this.velocity.turn * delta };
+  }
+
+  private computeShot(delta: number, growth: number) {
+    const o = this.options;
+    const { position, target } = this.shot;
+    const scanY = scanHeight(this.scanMode, growth);
+
+    // Follow the lasers while building; settle on the head before and after
+    let followY = scanY;
+    if (growth > 0.9) followY = HEAD_Y;
+    else if (growth < 0.05) followY = 5.0;
+    this.scanTarget = THREE.MathUtils.lerp(this.scanTarget, followY, 0.08);
+
+    const scale = Math.exp(this.zoom);
+    const orbitAt = (distance: number, height: number) =>
+      position.set(Math.sin(this.azimuth) * distance * scale, height, Math.cos(this.azimuth) * distance * scale);
+
+    switch (this.current) {
+      case 'scan':
+        this.azimuth += o.orbitSpeed * 0.5 * delta;
+        target.set(0, this.scanTarget, 0);
+        orbitAt(o.scanDistance, this.scanTarget + 2);
+        break;
+      case 'bloom':
+        // A small radius keeps lookAt stable straight above the head
+        this.azimuth += o.orbitSpeed * 0.5 * delta;
+        target.set(0, HEAD_Y, 0);
+        orbitAt(1, HEAD_Y + (o.bloomHeight - HEAD_Y) * scale);
+        break;
+      case 'dolly': {
+        this.azimuth += o.orbitSpeed * 0.25 * delta;
+        const t = easeInOut(Math.min(1, this.modeTime / o.dollySeconds));
+        target.set(0, HEAD_Y, 0);
+        orbitAt(THREE.MathUtils.lerp(o.orbitDistance, o.dollyDistance, t), THREE.MathUtils.lerp(o.orbitHeight, HEAD_Y + 1, t));
+        break;
+      }
+      default:
+        this.azimuth += o.orbitSpeed * delta;
+        target.set(0, this.scanTarget, 0);
+        orbitAt(o.orbitDistance, o.orbitHeight);
+    }
+  }
+}
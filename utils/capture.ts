@@ -0,0 +1,242 @@
+import * as THREE from 'three';
+import type { RootState } from '@react-three/fiber';
+import type { ActivePostProcessor } from './postProcessing';
+import type { ControlLevels } from './handController';
+
+// Output sizes offered for stills (landscape; the aspect follows the preset)
+export const STILL_PRESETS = [
+  { id: '1080p', label: '1080p', width: 1920, height: 1080 },
+  { id: '1440p', label: '1440p', width: 2560, height: 1440 },
+  { id: '4k', label: '4K', width: 3840, height: 2160 },
+  { id: '8k', label: '8K', width: 7680, height: 4320 },
+] as const;
+
+export interface StillOptions {
+  width: number;
+  height: number;
+  // Drop the scene background so the PNG keeps its alpha channel. The post
+  // stack writes opaque pixels, so transparent stills are always raw.
+  transparent: boolean;
+  // Skip the post stack (bloom, screen effects) and draw the scene as is
+  raw: boolean;
+  // Largest tile rendered in one pass; clamped to what the GPU allows
+  tileSize: number;
+}
+
+export const DEFAULT_STILL_OPTIONS: StillOptions = {
+  width: 3840,
+  height: 2160,
+  transparent: false,
+  raw: false,
+  tileSize: 2048,
+};
+
+export interface BuildRecordingOptions {
+  fps: number;
+  // Seconds for growth to run 0 -> 1
+  duration: number;
+  // Seconds to keep recording the finished flower
+  hold: number;
+}
+
+export const DEFAULT_BUILD_RECORDING: BuildRecordingOptions = {
+  fps: 30,
+  duration: 6,
+  hold: 1.5,
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Canvas produced no image'))), 'image/png');
+  });
+
+/**
+ * Renders the current frame at an arbitrary size, straight from the WebGL
+ * canvas so no HTML overlay ends up in the image. Sizes beyond what the GPU
+ * can draw at once are rendered as tiles through a camera view offset.
+ * Pass the active post stack to render through it like the live frame does.
+ */
+export const captureStill = async (
+  state: RootState,
+  options: Partial<StillOptions> = {},
+  activePost: ActivePostProcessor | null = null
+): Promise<Blob> => {
+  const { width, height, transparent, raw, tileSize } = { ...DEFAULT_STILL_OPTIONS, ...options };
+  const { gl, scene, camera } = state;
+  const post = raw || transparent ? null : activePost;
+  const maxTile = Math.min(tileSize, gl.capabilities.maxTextureSize);
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const ctx = output.getContext('2d');
+  if (!ctx) throw new Error('2D canvas unavailable');
+
+  // Everything below is restored before returning
+  const previousSize = gl.getSize(new THREE.Vector2());
+  const previousDpr = gl.getPixelRatio();
+  const previousClear = gl.getClearColor(new THREE.Color());
+  const previousAlpha = gl.getClearAlpha();
+  const previousBackground = scene.background;
+  const perspective = camera instanceof THREE.PerspectiveCamera ? camera : null;
+  const previousAspect = perspective?.aspect;
+
+  try {
+    if (transparent) {
+      scene.background = null;
+      gl.setClearColor(0x000000, 0);
+    }
+    if (perspective) perspective.aspect = width / height;
+    gl.setPixelRatio(1);
+
+    for (let y = 0; y < height; y += maxTile) {
+      for (let x = 0; x < width; x += maxTile) {
+        const tileWidth = Math.min(maxTile, width - x);
+        const tileHeight = Math.min(maxTile, height - y);
+        gl.setSize(tileWidth, tileHeight, false);
+        if (perspective) perspective.setViewOffset(width, height, x, y, tileWidth, tileHeight);
+        if (post) {
+          post.processor.setSize(tileWidth, tileHeight, 1);
+          post.processor.setView(width, height, x, y, tileWidth, tileHeight);
+          post.render(scene, camera);
+        } else {
+          gl.render(scene, camera);
+        }
+        // Read back in the same task, before the browser clears the drawing buffer
+        ctx.drawImage(gl.domElement, 0, 0, tileWidth, tileHeight, x, y, tileWidth, tileHeight);
+      }
+    }
+  } finally {
+    scene.background = previousBackground;
+    gl.setClearColor(previousClear, previousAlpha);
+    if (perspective) {
+      perspective.clearViewOffset();
+      perspective.aspect = previousAspect!;
+      perspective.updateProjectionMatrix();
+    }
+    gl.setPixelRatio(previousDpr);
+    gl.setSize(previousSize.x, previousSize.y, false);
+    // Leave the canvas showing the frame the way the render loop draws it
+    if (activePost) {
+      activePost.processor.setSize(previousSize.x, previousSize.y, previousDpr);
+      activePost.render(scene, camera);
+    } else {
+      gl.render(scene, camera);
+    }
+  }
+
+  return canvasToBlob(output);
+};
+
+const VIDEO_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const pickVideoType = () =>
+  typeof MediaRecorder === 'undefined' ? null : VIDEO_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+
+/**
+ * WebM recording of a canvas. With `manualFrames`, the stream only takes a
+ * frame when `requestFrame` is called, so a stepped render loop records one
+ * video frame per simulated step.
+ */
+export class CanvasRecorder {
+  private recorder: MediaRecorder | null = null;
+  private track: CanvasCaptureMediaStreamTrack | null = null;
+  private chunks: Blob[] = [];
+
+  get recording() {
+    return this.recorder !== null;
+  }
+
+  start(canvas: HTMLCanvasElement, fps: number, manualFrames = false) {
+    const mimeType = pickVideoType();
+    if (!mimeType) throw new Error('WebM recording is not supported in this browser');
+    const stream = canvas.captureStream(manualFrames ? 0 : fps);
+    this.track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    this.chunks = [];
+    this.recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 16_000_000 });
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+    this.recorder.start();
+  }
+
+  requestFrame() {
+    this.track?.requestFrame();
+  }
+
+  stop(): Promise<Blob> {
+    const recorder = this.recorder;
+    if (!recorder) return Promise.reject(new Error('Not recording'));
+    this.recorder = null;
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        this.track?.stop();
+        this.track = null;
+        resolve(new Blob(this.chunks, { type: recorder.mimeType }));
+      };
+      recorder.stop();
+    });
+  }
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export interface BuildFrame extends ControlLevels {
+  // Render clock in seconds
+  time: number;
+}
+
+// Every frame of a build recording: growth 0 -> 1 over `duration`, then the
+// finished flower for `hold`, undistorted. Depends on the options alone.
+export const buildFrames = (options: Partial<BuildRecordingOptions> = {}): BuildFrame[] => {
+  const { fps, duration, hold } = { ...DEFAULT_BUILD_RECORDING, ...options };
+  const buildCount = Math.max(1, Math.round(duration * fps));
+  const totalCount = buildCount + Math.round(hold * fps);
+  return Array.from({ length: totalCount + 1 }, (_, i) => ({
+    time: (i + 1) / fps,
+    growth: Math.min(1, i / buildCount),
+    distortion: 0,
+  }));
+};
+
+/**
+ * Records the construction sequence with a fixed time step: the render loop is
+ * paused and advanced by exactly 1/fps per video frame, and `setLevels` is
+ * called with the next of `buildFrames` before each step. The caller keeps live
+ * input out of the frames, so the content is identical on any machine;
+ * wall-clock pacing only keeps the video timestamps close to real time.
+ */
+export const recordBuild = async (
+  state: RootState,
+  setLevels: (levels: ControlLevels) => void,
+  options: Partial<BuildRecordingOptions> = {}
+): Promise<Blob> => {
+  const { fps } = { ...DEFAULT_BUILD_RECORDING, ...options };
+  const recorder = new CanvasRecorder();
+  const previousLoop = state.frameloop;
+
+  // Pausing the loop also resets the clock, so every recording starts at t = 0
+  state.setFrameloop('never');
+  try {
+    recorder.start(state.gl.domElement, fps, true);
+    for (const { time, growth, distortion } of buildFrames(options)) {
+      setLevels({ growth, distortion });
+      state.advance(time);
+      recorder.requestFrame();
+      await wait(1000 / fps);
+    }
+  } finally {
+    state.setFrameloop(previousLoop);
+  }
+  return recorder.stop();
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Large videos need a moment before the URL can go
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,77 @@
+import { ColorPalette, RoseConfig } from '../types';
+import { MAX_SEED, isSpeciesId } from '../species';
+import { isRecord } from './persistedSettings';
+
+export type NumericKey = { [K in keyof RoseConfig]: RoseConfig[K] extends number ? K : never }[keyof RoseConfig];
+
+export interface ConfigRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Slider ranges in the config panel; also the valid range for URLs and imports
+export const CONFIG_RANGES: Record<NumericKey, ConfigRange> = {
+  petalCount: { min: 1, max: 10, step: 0.1 },
+  twist: { min: 0, max: 10, step: 0.1 },
+  openness: { min: 0, max: 3, step: 0.1 },
+  detail: { min: 0, max: 5, step: 0.1 },
+  particleSize: { min: 0.01, max: 0.2, step: 0.001 },
+  speed: { min: 0, max: 1, step: 0.01 },
+  seed: { min: 0, max: MAX_SEED, step: 1 },
+  whorls: { min: 2, max: 8, step: 1 },
+  petalLength: { min: 0.5, max: 2, step: 0.05 },
+  rayCount: { min: 8, max: 48, step: 1 },
+  centerSize: { min: 0.2, max: 1, step: 0.01 },
+};
+
+export const isNumericKey = (key: string): key is NumericKey => key in CONFIG_RANGES;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export const isHexColor = (value: unknown): value is string =>
+  typeof value === 'string' && HEX_COLOR.test(value);
+
+const MAX_PALETTE_NAME_LENGTH = 40;
+
+export type PaletteColorKey = Exclude<keyof ColorPalette, 'name' | 'glow'>;
+
+// Single-color palette stops, in the order the editor and scene links list them
+export const PALETTE_COLOR_KEYS: PaletteColorKey[] = ['petalBase', 'petalTip', 'stem', 'leaf', 'flash'];
+
+/**
+ * Null stays null (the classic look). Returns undefined when the value is
+ * neither null nor a complete palette, so callers can fall back.
+ */
+export const sanitizePalette = (raw: unknown): ColorPalette | null | undefined => {
+  if (raw === null) return null;
+  if (!isRecord(raw)) return undefined;
+  const colors = PALETTE_COLOR_KEYS.map((key) => raw[key]);
+  if (!colors.every(isHexColor)) return undefined;
+  const { glow, name } = raw;
+  if (!Array.isArray(glow) || glow.length !== 3 || !glow.every(isHexColor)) return undefined;
+  return {
+    name: typeof name === 'string' ? name.slice(0, MAX_PALETTE_NAME_LENGTH) : 'Custom',
+    ...(Object.fromEntries(PALETTE_COLOR_KEYS.map((key, i) => [key, colors[i]])) as Record<PaletteColorKey, string>),
+    glow: [glow[0], glow[1], glow[2]],
+  };
+};
+
+// Whole-number steps (counts, seeds) also round to an integer
+export const clampToRange = (value: number, range: ConfigRange) => {
+  const clamped = Math.max(range.min, Math.min(range.max, value));
+  return range.step === 1 ? Math.round(clamped) : clamped;
+};
+
+// Clamp every numeric field into its slider range and reject malformed colors/species/palettes
+export const clampConfig = (config: RoseConfig, fallback: RoseConfig): RoseConfig => {
+  const clamped = { ...config };
+  (Object.keys(CONFIG_RANGES) as NumericKey[]).forEach((key) => {
+    clamped[key] = Number.isFinite(config[key]) ? clampToRange(config[key], CONFIG_RANGES[key]) : fallback[key];
+  });
+  if (!isHexColor(clamped.color)) clamped.color = fallback.color;
+  if (!isSpeciesId(clamped.species)) clamped.species = fallback.species;
+  const palette = sanitizePalette(config.palette);
+  clamped.palette = palette === undefined ? fallback.palette : palette;
+  return clamped;
+};
@@ -0,0 +1,239 @@
+import { ConstructionSettings, EmitterLayout, FlyInEasing, ScanMode } from '../types';
+import { Vec3, hash } from '../species/glsl';
+import { ConfigRange, clampToRange, isHexColor } from './configSchema';
+import { isFiniteNumber, isRecord, loadSettings, saveSettings } from './persistedSettings';
+
+const STORAGE_KEY = 'flora.construction';
+
+// Half the edge of the wireframe cube the flower is built in (flower space)
+export const BOX_SIZE = 12.5;
+// Emitters the shaders can hold; matches the uEmitters array length
+export const MAX_EMITTERS = 8;
+// Where radial builds start, roughly the middle of the head
+const CORE: Vec3 = { x: 0, y: 1, z: 0 };
+// Height the spiral climbs per turn around the stem
+const SPIRAL_PITCH = 4;
+
+interface ScanModeDef {
+  id: ScanMode;
+  label: string;
+  // Scan level at growth 0 and 1; a point is built once its key passes the level
+  from: number;
+  to: number;
+  // The key on the CPU and as a GLSL expression of `pos` and `rnd`
+  key: (pos: Vec3, random: number) => number;
+  keyGlsl: string;
+}
+
+export const SCAN_MODES: ScanModeDef[] = [
+  {
+    id: 'topDown',
+    label: 'Top Down',
+    from: 10,
+    to: -12,
+    key: (pos) => pos.y,
+    keyGlsl: 'pos.y',
+  },
+  {
+    id: 'bottomUp',
+    label: 'Bottom Up',
+    from: 12,
+    to: -10,
+    key: (pos) => -pos.y,
+    keyGlsl: '-pos.y',
+  },
+  {
+    id: 'radial',
+    label: 'Radial',
+    from: 2,
+    to: -12,
+    key: (pos) => -Math.hypot(pos.x - CORE.x, pos.y - CORE.y, pos.z - CORE.z),
+    keyGlsl: `-distance(pos, vec3(${CORE.x.toFixed(1)}, ${CORE.y.toFixed(1)}, ${CORE.z.toFixed(1)}))`,
+  },
+  {
+    id: 'spiral',
+    label: 'Spiral',
+    from: 12,
+    to: -14,
+    key: (pos) => pos.y + (Math.atan2(pos.z, pos.x) / (Math.PI * 2)) * SPIRAL_PITCH,
+    keyGlsl: `pos.y + atan(pos.z, pos.x) / 6.28318 * ${SPIRAL_PITCH.toFixed(1)}`,
+  },
+  {
+    id: 'sparkle',
+    label: 'Sparkle',
+    from: 10,
+    to: -12,
+    key: (_, random) => hash(random, 0.7) * 18 - 10,
+    keyGlsl: 'hash(vec2(rnd, 0.7)) * 18.0 - 10.0',
+  },
+];
+
+interface EasingDef {
+  id: FlyInEasing;
+  label: string;
+  ease: (a: number) => number;
+  easeGlsl: string;
+}
+
+export const FLY_IN_EASINGS: EasingDef[] = [
+  { id: 'quartOut', label: 'Snap', ease: (a) => 1 - Math.pow(1 - a, 4), easeGlsl: '1.0 - pow(1.0 - a, 4.0)' },
+  { id: 'cubicOut', label: 'Glide', ease: (a) => 1 - Math.pow(1 - a, 3), easeGlsl: '1.0 - pow(1.0 - a, 3.0)' },
+  { id: 'expoOut', label: 'Slam', ease: (a) => (a >= 1 ? 1 : 1 - Math.pow(2, -10 * a)), easeGlsl: 'a >= 1.0 ? 1.0 : 1.0 - pow(2.0, -10.0 * a)' },
+  {
+    id: 'backOut',
+    label: 'Overshoot',
+    ease: (a) => 1 + 2.70158 * Math.pow(a - 1, 3) + 1.70158 * Math.pow(a - 1, 2),
+    // pow() is undefined for negative bases in GLSL, so multiply out
+    easeGlsl: '1.0 + 2.70158 * (a - 1.0) * (a - 1.0) * (a - 1.0) + 1.70158 * (a - 1.0) * (a - 1.0)',
+  },
+  { id: 'linear', label: 'Linear', ease: (a) => a, easeGlsl: 'a' },
+];
+
+export const EMITTER_LAYOUTS: { id: EmitterLayout; label: string }[] = [
+  { id: 'corners', label: 'Cube Corners' },
+  { id: 'ring', label: 'Ring' },
+  { id: 'overhead', label: 'Overhead' },
+];
+
+export const EMITTER_COUNT_RANGE: ConfigRange = { min: 1, max: MAX_EMITTERS, step: 1 };
+
+export const DEFAULT_CONSTRUCTION_SETTINGS: ConstructionSettings = {
+  scanMode: 'topDown',
+  emitterLayout: 'corners',
+  emitterCount: 8,
+  beamColor: '#99ccff',
+  easing: 'quartOut',
+};
+
+const isScanMode = (value: unknown): value is ScanMode => SCAN_MODES.some((mode) => mode.id === value);
+const isEmitterLayout = (value: unknown): value is EmitterLayout => EMITTER_LAYOUTS.some((layout) => layout.id === value);
+const isFlyInEasing = (value: unknown): value is FlyInEasing => FLY_IN_EASINGS.some((easing) => easing.id === value);
+
+export const sanitizeConstruction = (raw: unknown): ConstructionSettings => {
+  const settings = { ...DEFAULT_CONSTRUCTION_SETTINGS };
+  if (!isRecord(raw)) return settings;
+  if (isScanMode(raw.scanMode)) settings.scanMode = raw.scanMode;
+  if (isEmitterLayout(raw.emitterLayout)) settings.emitterLayout = raw.emitterLayout;
+  if (isFiniteNumber(raw.emitterCount)) settings.emitterCount = clampToRange(raw.emitterCount, EMITTER_COUNT_RANGE);
+  if (isHexColor(raw.beamColor)) settings.beamColor = raw.beamColor;
+  if (isFlyInEasing(raw.easing)) settings.easing = raw.easing;
+  return settings;
+};
+
+export const loadConstruction = (): ConstructionSettings => loadSettings(STORAGE_KEY, sanitizeConstruction);
+
+export const saveConstruction = (settings: ConstructionSettings) =>
+  saveSettings(STORAGE_KEY, settings, 'construction settings');
+
+const getScanMode = (id: ScanMode) => SCAN_MODES.find((mode) => mode.id === id) ?? SCAN_MODES[0];
+
+export const scanModeIndex = (id: ScanMode) => Math.max(0, SCAN_MODES.findIndex((mode) => mode.id === id));
+export const easingIndex = (id: FlyInEasing) => Math.max(0, FLY_IN_EASINGS.findIndex((easing) => easing.id === id));
+
+// The level the shader compares point keys against, for growth 0..1
+export const scanLevel = (mode: ScanMode, growth: number) => {
+  const { from, to } = getScanMode(mode);
+  return from + (to - from) * growth;
+};
+
+// Height the build is happening at, for the camera and the laser hum
+export const scanHeight = (mode: ScanMode, growth: number) => {
+  const level = scanLevel(mode, growth);
+  switch (mode) {
+    case 'topDown':
+    case 'spiral':
+      return level;
+    case 'bottomUp':
+      return -level;
+    default:
+      return CORE.y;
+  }
+};
+
+/**
+ * Emitter positions in flower space. The first `emitterCount` points of the
+ * layout are used; the beams start at them (see flyInPositions for particles).
+ */
+export const emitterPositions = (settings: ConstructionSettings): Vec3[] => {
+  const count = settings.emitterCount;
+  switch (settings.emitterLayout) {
+    case 'ring':
+      return Array.from({ length: count }, (_, i) => {
+        const angle = (i / count) * Math.PI * 2 + Math.PI / 4;
+        return { x: Math.cos(angle) * BOX_SIZE, y: BOX_SIZE * 0.4, z: Math.sin(angle) * BOX_SIZE };
+      });
+    case 'overhead':
+      return Array.from({ length: count }, (_, i) => {
+        const angle = (i / count) * Math.PI * 2 + Math.PI / 4;
+        return { x: Math.cos(angle) * 3, y: BOX_SIZE, z: Math.sin(angle) * 3 };
+      });
+    default: {
+      // Top corners first, then the bottom ones
+      const corners = [1, -1].flatMap((y) =>
+        [[1, 1], [-1, 1], [-1, -1], [1, -1]].map(([x, z]) => ({ x: x * BOX_SIZE, y: y * BOX_SIZE, z: z * BOX_SIZE }))
+      );
+      return corners.slice(0, count);
+    }
+  }
+};
+
+// Cube corners the particles fly in from: the top four, as before emitters were configurable
+const FLY_IN_CORNERS = 4;
+
+/**
+ * Emitters the particles fly in from. Every corner of the cube fires a beam,
+ * but particles only arrive from the top ones; other layouts use all emitters.
+ */
+export const flyInPositions = (settings: ConstructionSettings): Vec3[] => {
+  const emitters = emitterPositions(settings);
+  return settings.emitterLayout === 'corners' ? emitters.slice(0, FLY_IN_CORNERS) : emitters;
+};
+
+/**
+ * Where emitter `index` aims its beam right now: the point the scan is
+ * building nearest to it.
+ */
+export const beamTarget = (mode: ScanMode, growth: number, emitter: Vec3, index: number, time: number): Vec3 => {
+  const level = scanLevel(mode, growth);
+  switch (mode) {
+    case 'radial': {
+      const radius = Math.max(0, -level);
+      const dx = emitter.x - CORE.x;
+      const dy = emitter.y - CORE.y;
+      const dz = emitter.z - CORE.z;
+      const length = Math.max(Math.hypot(dx, dy, dz), 1e-6);
+      return { x: CORE.x + (dx / length) * radius, y: CORE.y + (dy / length) * radius, z: CORE.z + (dz / length) * radius };
+    }
+    case 'spiral': {
+      const angle = Math.atan2(emitter.z, emitter.x);
+      return { x: Math.cos(angle) * 0.5, y: level - (angle / (Math.PI * 2)) * SPIRAL_PITCH, z: Math.sin(angle) * 0.5 };
+    }
+    case 'sparkle': {
+      // A new random spot inside the flower several times a second
+      const seed = Math.floor(time * 6) + index * 17;
+      return { x: (hash(seed, 0.1) - 0.5) * 4, y: -6 + hash(seed, 0.2) * 9, z: (hash(seed, 0.3) - 0.5) * 4 };
+    }
+    default:
+      return { x: 0, y: scanHeight(mode, growth), z: 0 };
+  }
+};
+
+// Shared by the flower shader: scanKey(mode, pos, rnd) and flyInEase(mode, a)
+export const CONSTRUCTION_GLSL = `
+  float scanKey(float mode, vec3 pos, float rnd) {
+${SCAN_MODES.map((mode, i) => `    if (mode < ${i}.5) return ${mode.keyGlsl};`).join('\n')}
+    return pos.y;
+  }
+
+  float flyInEase(float mode, float a) {
+${FLY_IN_EASINGS.map((easing, i) => `    if (mode < ${i}.5) return ${easing.easeGlsl};`).join('\n')}
+    return a;
+  }
+`;
+
+// CPU versions for point-cloud exports
+export const scanKey = (index: number, pos: Vec3, random: number) =>
+  (SCAN_MODES[Math.round(index)] ?? SCAN_MODES[0]).key(pos, random);
+
+export const flyInEase = (index: number, a: number) =>
+  (FLY_IN_EASINGS[Math.round(index)] ?? FLY_IN_EASINGS[0]).ease(a);
@@ -0,0 +1,106 @@
+import { DistortionEffectId, DistortionSettings } from '../types';
+import { EFFECTS, EFFECT_IDS, defaultParams, isEffectId, padParams } from '../effects';
+import { ConfigRange, clampToRange } from './configSchema';
+import { isFiniteNumber, isRecord, loadSettings, saveSettings } from './persistedSettings';
+
+const STORAGE_KEY = 'flora.distortion';
+
+export const DISTORTION_RANGES: Record<'blend' | 'crossfade', ConfigRange> = {
+  blend: { min: 0, max: 1, step: 0.01 },
+  crossfade: { min: 0, max: 5, step: 0.1 },
+};
+
+const defaultEffectParams = () =>
+  Object.fromEntries(EFFECT_IDS.map((id) => [id, defaultParams(EFFECTS[id])])) as Record<DistortionEffectId, number[]>;
+
+export const DEFAULT_DISTORTION_SETTINGS: DistortionSettings = {
+  effect: 'vortex',
+  blendWith: null,
+  blend: 0.5,
+  crossfade: 1,
+  params: defaultEffectParams(),
+};
+
+export const sanitizeDistortion = (raw: unknown): DistortionSettings => {
+  const settings: DistortionSettings = { ...DEFAULT_DISTORTION_SETTINGS, params: defaultEffectParams() };
+  if (!isRecord(raw)) return settings;
+  if (isEffectId(raw.effect)) settings.effect = raw.effect;
+  if (raw.blendWith === null) settings.blendWith = null;
+  else if (isEffectId(raw.blendWith)) settings.blendWith = raw.blendWith;
+  (Object.keys(DISTORTION_RANGES) as (keyof typeof DISTORTION_RANGES)[]).forEach((key) => {
+    const value = raw[key];
+    if (isFiniteNumber(value)) settings[key] = clampToRange(value, DISTORTION_RANGES[key]);
+  });
+  const params = isRecord(raw.params) ? raw.params : {};
+  EFFECT_IDS.forEach((id) => {
+    const values: unknown = params[id];
+    if (!Array.isArray(values)) return;
+    settings.params[id] = EFFECTS[id].params.map((param, i) => {
+      const value: unknown = values[i];
+      return isFiniteNumber(value) ? clampToRange(value, param) : param.default;
+    });
+  });
+  return settings;
+};
+
+export const loadDistortion = (): DistortionSettings => loadSettings(STORAGE_KEY, sanitizeDistortion);
+
+export const saveDistortion = (settings: DistortionSettings) => saveSettings(STORAGE_KEY, settings, 'distortion settings');
+
+// Next effect in registry order (step -1 for the previous one)
+export const cycleEffect = (id: DistortionEffectId, step = 1) =>
+  EFFECT_IDS[(EFFECT_IDS.indexOf(id) + step + EFFECT_IDS.length) % EFFECT_IDS.length];
+
+// The pair of effects the shaders mix this frame
+export interface EffectBlend {
+  a: DistortionEffectId;
+  b: DistortionEffectId;
+  mix: number;
+  // Padded to four values each
+  paramsA: number[];
+  paramsB: number[];
+}
+
+export const DEFAULT_EFFECT_BLEND: EffectBlend = {
+  a: 'vortex',
+  b: 'vortex',
+  mix: 0,
+  paramsA: padParams(defaultParams(EFFECTS.vortex)),
+  paramsB: padParams(defaultParams(EFFECTS.vortex)),
+};
+
+/**
+ * Crossfades the shaders from one effect to the next when the selection
+ * changes. Outside a switch it holds the selected effect, mixed with
+ * `blendWith` when one is set.
+ */
+export class EffectMixer {
+  private shown: DistortionEffectId | null = null;
+  private transition: { from: DistortionEffectId; elapsed: number } | null = null;
+
+  step(settings: DistortionSettings, deltaMs: number): EffectBlend {
+    const params = (id: DistortionEffectId) => padParams(settings.params[id]);
+    if (this.shown === null) this.shown = settings.effect;
+    if (settings.effect !== this.shown) {
+      this.transition = settings.crossfade > 0 ? { from: this.shown, elapsed: 0 } : null;
+      this.shown = settings.effect;
+    }
+
+    if (this.transition) {
+      this.transition.elapsed += deltaMs / 1000;
+      const t = Math.min(1, this.transition.elapsed / settings.crossfade);
+      const from = this.transition.from;
+      if (t >= 1) this.transition = null;
+      else return { a: from, b: settings.effect, mix: t * t * (3 - 2 * t), paramsA: params(from), paramsB: params(settings.effect) };
+    }
+
+    const other = settings.blendWith ?? settings.effect;
+    return {
+      a: settings.effect,
+      b: other,
+      mix: settings.blendWith ? settings.blend : 0,
+      paramsA: params(settings.effect),
+      paramsB: params(other),
+    };
+  }
+}
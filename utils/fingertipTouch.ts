@@ -0,0 +1,165 @@
+import * as THREE from 'three';
+import { TouchMode, TouchSettings } from '../types';
+import { ConfigRange, clampToRange } from './configSchema';
+import { HandGestureState } from './gestures';
+import { isFiniteNumber, isRecord, loadSettings, saveSettings } from './persistedSettings';
+
+const STORAGE_KEY = 'flora.touch';
+
+// Fingertips the flower shader reacts to; matches the uTouch array length
+export const MAX_TOUCHES = 2;
+
+export const TOUCH_MODES: { id: TouchMode; label: string }[] = [
+  { id: 'push', label: 'Push' },
+  { id: 'attract', label: 'Attract' },
+  { id: 'swirl', label: 'Swirl' },
+];
+
+export const TOUCH_RANGES: Record<'radius' | 'strength' | 'depth', ConfigRange> = {
+  radius: { min: 0.5, max: 8, step: 0.1 },
+  strength: { min: 0, max: 4, step: 0.05 },
+  depth: { min: 0, max: 30, step: 0.5 },
+};
+
+export const DEFAULT_TOUCH_SETTINGS: TouchSettings = {
+  enabled: true,
+  mode: 'push',
+  radius: 2.5,
+  strength: 1.5,
+  depth: 12,
+};
+
+const isTouchMode = (value: unknown): value is TouchMode => TOUCH_MODES.some((mode) => mode.id === value);
+
+export const sanitizeTouch = (raw: unknown): TouchSettings => {
+  const settings = { ...DEFAULT_TOUCH_SETTINGS };
+  if (!isRecord(raw)) return settings;
+  if (typeof raw.enabled === 'boolean') settings.enabled = raw.enabled;
+  if (isTouchMode(raw.mode)) settings.mode = raw.mode;
+  (Object.keys(TOUCH_RANGES) as (keyof typeof TOUCH_RANGES)[]).forEach((key) => {
+    const value = raw[key];
+    if (isFiniteNumber(value)) settings[key] = clampToRange(value, TOUCH_RANGES[key]);
+  });
+  return settings;
+};
+
+export const loadTouch = (): TouchSettings => loadSettings(STORAGE_KEY, sanitizeTouch);
+
+export const saveTouch = (settings: TouchSettings) => saveSettings(STORAGE_KEY, settings, 'touch settings');
+
+export const touchModeIndex = (mode: TouchMode) => TOUCH_MODES.findIndex((m) => m.id === mode);
+
+export interface Fingertip {
+  // Hand id, so a fingertip keeps its slot while the hand stays in frame
+  id: number;
+  // Normalized screen space (mirrored like the HUD feed), top-left origin
+  x: number;
+  y: number;
+  // -1 (reaching toward the camera) .. 1 (pulled back)
+  depth: number;
+}
+
+// Wrist -> middle knuckle length (normalized) of a hand at arm's length
+const REFERENCE_HAND_SIZE = 0.15;
+
+/**
+ * Index fingertip of a tracked hand. Landmark z is only relative to the wrist,
+ * so the apparent hand size gives the hand's distance and the fingertip's z
+ * adds the poke on top.
+ */
+export const fingertipFromHand = (hand: HandGestureState): Fingertip => {
+  const wrist = hand.landmarks[0];
+  const knuckle = hand.landmarks[9];
+  const tip = hand.landmarks[8];
+  const size = Math.max(Math.hypot(knuckle.x - wrist.x, knuckle.y - wrist.y), 1e-3);
+  const reach = (REFERENCE_HAND_SIZE - size) / REFERENCE_HAND_SIZE;
+  const poke = (tip.z ?? 0) / size;
+  return {
+    id: hand.id,
+    x: 1 - tip.x,
+    y: tip.y,
+    depth: Math.max(-1, Math.min(1, reach + poke * 0.5)),
+  };
+};
+
+export interface TrackedFingertip extends Omit<Fingertip, 'id'> {
+  // 0 (absent) .. 1 (fully present); fades so touches don't pop in and out
+  strength: number;
+}
+
+export interface FingertipTrackerOptions {
+  // Exponential smoothing time constant (ms) for position and depth
+  smoothingMs: number;
+  fadeInMs: number;
+  fadeOutMs: number;
+}
+
+export const DEFAULT_FINGERTIP_TRACKER_OPTIONS: FingertipTrackerOptions = {
+  smoothingMs: 60,
+  fadeInMs: 250,
+  fadeOutMs: 400,
+};
+
+/**
+ * Gives each fingertip a stable slot, smooths it, and fades it in and out.
+ * A fingertip that leaves keeps its last position while it fades.
+ */
+export class FingertipTracker {
+  readonly options: FingertipTrackerOptions;
+  private slots: (TrackedFingertip & { id: number | null })[] = Array.from({ length: MAX_TOUCHES }, () => ({
+    id: null,
+    x: 0.5,
+    y: 0.5,
+    depth: 0,
+    strength: 0,
+  }));
+
+  constructor(options: Partial<FingertipTrackerOptions> = {}) {
+    this.options = { ...DEFAULT_FINGERTIP_TRACKER_OPTIONS, ...options };
+  }
+
+  step(tips: Fingertip[], deltaMs: number): TrackedFingertip[] {
+    const { smoothingMs, fadeInMs, fadeOutMs } = this.options;
+    const follow = 1 - Math.exp(-deltaMs / Math.max(smoothingMs, 1));
+
+    // Keep matched slots, then hand free (or fully faded) ones to new fingertips
+    const present = new Set(tips.map((tip) => tip.id));
+    this.slots.forEach((slot) => {
+      if (slot.id !== null && !present.has(slot.id) && slot.strength === 0) slot.id = null;
+    });
+    tips.slice(0, MAX_TOUCHES).forEach((tip) => {
+      let slot = this.slots.find((s) => s.id === tip.id);
+      if (!slot) {
+        slot = this.slots.find((s) => s.id === null) ?? this.slots.reduce((a, b) => (b.strength < a.strength ? b : a));
+        Object.assign(slot, { id: tip.id, x: tip.x, y: tip.y, depth: tip.depth, strength: 0 });
+      }
+      slot.x += (tip.x - slot.x) * follow;
+      slot.y += (tip.y - slot.y) * follow;
+      slot.depth += (tip.depth - slot.depth) * follow;
+    });
+
+    return this.slots.map((slot) => {
+      const held = slot.id !== null && present.has(slot.id);
+      slot.strength = held
+        ? Math.min(1, slot.strength + deltaMs / fadeInMs)
+        : Math.max(0, slot.strength - deltaMs / fadeOutMs);
+      return { x: slot.x, y: slot.y, depth: slot.depth, strength: slot.strength };
+    });
+  }
+
+  reset() {
+    this.slots.forEach((slot) => Object.assign(slot, { id: null, strength: 0 }));
+  }
+}
+
+// Fingertips placed in the scene, as the flowers read them
+export interface SceneTouch {
+  settings: TouchSettings;
+  // World position per slot; w is the fingertip's strength (0 = absent)
+  points: THREE.Vector4[];
+}
+
+export const createSceneTouch = (settings: TouchSettings = DEFAULT_TOUCH_SETTINGS): SceneTouch => ({
+  settings,
+  points: Array.from({ length: MAX_TOUCHES }, () => new THREE.Vector4()),
+});
@@ -0,0 +1,278 @@
+import { FlowerSpecies } from '../species';
+import { EFFECT_FRAGMENT_GLSL, EFFECT_VERTEX_GLSL } from '../effects';
+import { MAX_TOUCHES } from './fingertipTouch';
+import { CONSTRUCTION_GLSL, MAX_EMITTERS } from './construction';
+
+// Flower point shaders. pointCloudExport.ts ports them to the CPU; keep the two in step.
+
+// The species supplies getHeadDisplacement/getHeadNormal; everything else is shared
+export const createFlowerVertexShader = (species: FlowerSpecies) => `
+  attribute float aRandom;
+  attribute float aType; // 0: Flower, 1: Stem, 2: Leaf
+  attribute vec3 aDirection;
+  
+  varying vec3 vPosition;
+  varying float vDisplacement;
+  varying float vRandom;
+  varying float vType;
+  varying float vProgress;
+
+  uniform float uTime;
+  uniform float uPetalCount;
+  uniform float uTwist;
+  uniform float uOpenness;
+  uniform float uDetail;
+  uniform float uParticleSize;
+  uniform float uDistortion; // 0.0 = normal, 1.0 = fully distorted
+  uniform float uCenterSize; // Disk radius for daisy-family species
+
+  // Distortion effects (registry index), their mix and parameters
+  uniform float uEffectA;
+  uniform float uEffectB;
+  uniform float uEffectMix;
+  uniform vec4 uEffectParamsA;
+  uniform vec4 uEffectParamsB;
+
+  // Fingertips in this flower's space (w = strength, 0 = none) and how they act
+  uniform vec4 uTouch[${MAX_TOUCHES}];
+  uniform float uTouchMode; // 0: push, 1: attract, 2: swirl
+  uniform float uTouchRadius;
+  uniform float uTouchStrength;
+  
+  // uScanLevel sweeps from the scan mode's start to its end as the flower builds;
+  // a point is built once its scan key passes it
+  uniform float uScanLevel;
+  uniform float uScanMode;
+  // Fly-in sources (flower space) and how particles ease from them
+  uniform vec3 uEmitters[${MAX_EMITTERS}];
+  uniform float uEmitterCount;
+  uniform float uEasing;
+
+  // Pseudo-random noise
+  float hash(vec2 p) {
+    return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+  }
+
+  // Value Noise
+  float noise(vec2 p) {
+    vec2 i = floor(p);
+    vec2 f = fract(p);
+    f = f * f * (3.0 - 2.0 * f);
+    return mix(mix(hash(i), hash(i + vec2(1.0, 0.0)), f.x),
+               mix(hash(i + vec2(0.0, 1.0)), hash(i + vec2(1.0, 1.0)), f.x), f.y);
+  }
+
+  // --- Construction Scan & Fly-in ---
+  ${CONSTRUCTION_GLSL}
+
+  // --- Species Head Shape ---
+  ${species.displacementChunk}
+
+  // --- Distortion Effects ---
+  ${EFFECT_VERTEX_GLSL}
+
+  // --- Fingertip Touch ---
+  vec3 applyTouch(vec3 pos) {
+    for (int i = 0; i < ${MAX_TOUCHES}; i++) {
+      vec4 touch = uTouch[i];
+      vec3 delta = pos - touch.xyz;
+      float dist = length(delta);
+      float falloff = touch.w * (1.0 - smoothstep(0.0, uTouchRadius, dist));
+      if (falloff <= 0.0) continue;
+      vec3 dir = delta / max(dist, 0.0001);
+      if (uTouchMode < 0.5) {
+        pos += dir * falloff * uTouchStrength;
+      } else if (uTouchMode < 1.5) {
+        // Never pull a particle past the fingertip
+        pos -= dir * min(falloff * uTouchStrength, dist);
+      } else {
+        // Twist around the vertical through the fingertip, with a slow wobble
+        float angle = falloff * uTouchStrength * (1.5 + 0.3 * sin(uTime * 3.0 + dist * 4.0));
+        float c = cos(angle);
+        float s = sin(angle);
+        pos.xz = touch.xz + vec2(delta.x * c - delta.z * s, delta.x * s + delta.z * c);
+      }
+    }
+    return pos;
+  }
+
+  void main() {
+    vRandom = aRandom;
+    vType = aType;
+    vec3 pos = position;
+    float disp = 0.0;
+    
+    // --- SHAPE GENERATION ---
+    if (aType < 0.5) { 
+      // === FLOWER HEAD ===
+      disp = getHeadDisplacement(pos);
+      vec3 normal = getHeadNormal(pos);
+      pos = pos + normal * disp;
+      pos.x += sin(uTime * 0.3) * 0.1;
+      
+      // === DISTORTION EFFECT (Pinch In Gesture) ===
+      if (uDistortion > 0.01) {
+        vec3 a = distortHead(uEffectA, pos, normal, aRandom, uDistortion, uEffectParamsA);
+        vec3 b = uEffectMix > 0.0 ? distortHead(uEffectB, pos, normal, aRandom, uDistortion, uEffectParamsB) : a;
+        pos = mix(a, b, uEffectMix);
+      }
+    } else {
+      // === STEM & LEAVES ===
+      float bendFactor = (pos.y + 6.0) / 6.0;
+      bendFactor = pow(bendFactor, 2.0);
+      float windX = sin(uTime * 0.4) * 0.2 * bendFactor;
+      float windZ = cos(uTime * 0.3) * 0.1 * bendFactor;
+      pos.x += windX;
+      pos.z += windZ;
+      if (aType > 1.5) {
+         pos += aDirection * sin(uTime * 0.8 + pos.y) * 0.02;
+      }
+      
+      // === STEM/LEAF DISTORTION ===
+      if (uDistortion > 0.01) {
+        vec3 a = distortBody(uEffectA, pos, aDirection, aRandom, aType, bendFactor, uDistortion, uEffectParamsA);
+        vec3 b = uEffectMix > 0.0 ? distortBody(uEffectB, pos, aDirection, aRandom, aType, bendFactor, uDistortion, uEffectParamsB) : a;
+        pos = mix(a, b, uEffectMix);
+      }
+    }
+
+    pos = applyTouch(pos);
+
+    vec3 finalPos = pos;
+
+    // --- CONSTRUCTION SCAN LOGIC ---
+    // The scan level sweeps past each point's key (its height, for top-down).
+    // Once the level has passed the key, the point is built.
+    float verticalDist = scanKey(uScanMode, finalPos, aRandom) - uScanLevel;
+    
+    // Add randomness to the edge so it's not a perfect flat plane cut
+    float edgeNoise = (aRandom - 0.5) * 2.0; 
+    
+    // When the key is well past the level, the point is built (1.0); before it, hidden (0.0).
+    // The transition happens in a narrow band around the scan level.
+    
+    float activation = smoothstep(-1.0, 1.0, verticalDist + edgeNoise);
+    vProgress = activation;
+    
+    // "Making" Effect: Fly in from the emitters
+    float emitterID = min(floor(aRandom * uEmitterCount), uEmitterCount - 1.0);
+    vec3 cornerPos = uEmitters[int(emitterID)];
+    
+    // Spread source slightly
+    cornerPos += (vec3(hash(vec2(aRandom, 0.1)), hash(vec2(aRandom, 0.2)), hash(vec2(aRandom, 0.3))) - 0.5) * 0.5;
+
+    // Interpolate: 
+    // t=0 (Hidden/At Emitter) -> t=1 (At Final)
+    // We only want particles to start moving when they are near the scan line (activation > 0)
+    float t = flyInEase(uEasing, activation);
+    
+    pos = mix(cornerPos, finalPos, t);
+
+    vDisplacement = disp;
+    vPosition = pos;
+
+    vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+
+    // Size Attenuation & Pop-in
+    float sizeMult = (aType < 0.5) ? 1.0 : 0.8;
+    
+    // Flash size when arriving
+    // Activation goes 0 -> 1. Arrival is the low end (0.1 - 0.3)
+    float arrivalFlash = smoothstep(0.0, 0.2, activation) * smoothstep(0.4, 0.2, activation);
+    
+    float growSize = sizeMult * activation * (1.0 + arrivalFlash * 1.5); 
+    
+    gl_PointSize = uParticleSize * growSize * (300.0 / -mvPosition.z);
+    gl_PointSize *= (0.8 + 0.2 * sin(uTime * 2.0 + aRandom * 50.0));
+  }
+`;
+
+export const FLOWER_FRAGMENT_SHADER = `
+  varying vec3 vPosition;
+  varying float vDisplacement;
+  varying float vRandom;
+  varying float vType;
+  varying float vProgress;
+
+  uniform vec3 uColor;
+  // Palette: petal gradient ends (uColor is the middle), stem, leaf, build flash
+  uniform vec3 uPetalBase;
+  uniform vec3 uPetalTip;
+  uniform vec3 uStemColor;
+  uniform vec3 uLeafColor;
+  uniform vec3 uFlashColor;
+  // 1 with a palette: stems and leaves each take half of the stem -> leaf gradient
+  uniform float uSplitPlant;
+  uniform float uDistortion;
+  uniform float uTime;
+  uniform float uEffectA;
+  uniform float uEffectB;
+  uniform float uEffectMix;
+  uniform vec4 uEffectParamsA;
+  uniform vec4 uEffectParamsB;
+  uniform vec3 uGlowA[3];
+  uniform vec3 uGlowB[3];
+
+  ${EFFECT_FRAGMENT_GLSL}
+
+  void main() {
+    vec2 coord = gl_PointCoord - vec2(0.5);
+    float d = length(coord);
+    if (d > 0.5) discard;
+    
+    float alpha = smoothstep(0.5, 0.0, d);
+    
+    // Hard clip for unbuilt parts
+    if (vProgress < 0.01) discard;
+    
+    vec3 finalColor;
+
+    if (vType < 0.5) {
+      // Three stops, brightening 0.4x -> 1.1x -> 1.8x toward the tips
+      vec3 deepColor = uPetalBase * 0.4;
+      vec3 midColor = uColor * 1.1;
+      vec3 tipColor = uPetalTip * 1.8;
+      float mixFactor = smoothstep(-0.1, 0.4, vDisplacement);
+      finalColor = (mixFactor < 0.5
+        ? mix(deepColor, midColor, mixFactor * 2.0)
+        : mix(midColor, tipColor, mixFactor * 2.0 - 1.0));
+      finalColor *= (0.8 + 0.4 * vRandom);
+    } else {
+      // A palette has stems lean to the stem color and leaves to the leaf color;
+      // sharing the two ends keeps the plant one gradient. Classic shading spreads
+      // both over the whole gradient.
+      float shade = vRandom * 0.8 + 0.2;
+      float plantMix = shade;
+      if (uSplitPlant > 0.5) plantMix = (vType < 1.5 ? shade * 0.5 : 0.5 + shade * 0.5);
+      finalColor = mix(uStemColor, uLeafColor, plantMix);
+      if (vType > 1.5 && vPosition.y > -2.0) {
+         finalColor *= 1.2;
+      }
+    }
+
+    // === LASER SINTERING FLASH ===
+    // Heat is high when progress is low (just arrived at scan plane)
+    // vProgress represents "how fully built" it is (0 to 1).
+    float heat = smoothstep(0.4, 0.0, vProgress); 
+    
+    // Intense, overexposed flash color
+    vec3 hotColor = uFlashColor * 4.0;
+    
+    finalColor = mix(finalColor, hotColor, heat);
+    alpha = mix(alpha, 1.0, heat * 0.8);
+    
+    // === DISTORTION GLOW EFFECT ===
+    // Each effect has its own color treatment; returns color and an alpha multiplier
+    if (uDistortion > 0.01) {
+      vec4 a = distortGlow(uEffectA, finalColor, vPosition, vRandom, uDistortion, uEffectParamsA, uGlowA[0], uGlowA[1], uGlowA[2]);
+      vec4 b = uEffectMix > 0.0 ? distortGlow(uEffectB, finalColor, vPosition, vRandom, uDistortion, uEffectParamsB, uGlowB[0], uGlowB[1], uGlowB[2]) : a;
+      vec4 glow = mix(a, b, uEffectMix);
+      finalColor = glow.rgb;
+      alpha *= glow.a;
+    }
+
+    alpha = pow(alpha, 1.5);
+    gl_FragColor = vec4(finalColor, alpha);
+  }
+`;
@@ -0,0 +1,148 @@
+import * as THREE from 'three';
+import { GardenBuildMode, GardenLayout, RoseConfig } from '../types';
+import { MAX_SEED } from '../species';
+import { createRandom } from '../species/random';
+import { Point2 } from './gestures';
+
+export const GARDEN_LAYOUTS: GardenLayout[] = ['grid', 'ring', 'scatter', 'bouquet'];
+export const MAX_GARDEN_FLOWERS = 12;
+
+export interface FlowerPlacement {
+  position: [number, number, number];
+  // Rotation about Y, then lean away from vertical (radians)
+  heading: number;
+  tilt: number;
+  scale: number;
+}
+
+// Flower-local stem bottom sits at y = -8; everything stands on this floor
+const FLOOR_Y = -9.0;
+const STEM_DEPTH = 8.0;
+
+// Seeded so a layout doesn't reshuffle on every render; distinct for every layout and count
+const layoutSeed = (layout: GardenLayout, count: number) =>
+  count * GARDEN_LAYOUTS.length + GARDEN_LAYOUTS.indexOf(layout);
+
+const flowerScale = (count: number) => Math.max(0.45, Math.min(1.2, 2.1 / Math.sqrt(count)));
+
+const standing = (x: number, z: number, scale: number, heading = 0): FlowerPlacement => ({
+  position: [x, FLOOR_Y + STEM_DEPTH * scale, z],
+  heading,
+  tilt: 0,
+  scale,
+});
+
+export const layoutGarden = (layout: GardenLayout, count: number): FlowerPlacement[] => {
+  if (count <= 0) return [];
+  const scale = flowerScale(count);
+  const random = createRandom(layoutSeed(layout, count));
+
+  switch (layout) {
+    case 'grid': {
+      const cols = Math.ceil(Math.sqrt(count));
+      const rows = Math.ceil(count / cols);
+      const spacing = Math.min(6, 20 / cols);
+      return Array.from({ length: count }, (_, i) => {
+        const col = i % cols;
+        const row = Math.floor(i / cols);
+        return standing((col - (cols - 1) / 2) * spacing, (row - (rows - 1) / 2) * spacing, scale);
+      });
+    }
+
+    case 'ring': {
+      const radius = count === 1 ? 0 : Math.min(9, 2 + count * 0.8);
+      return Array.from({ length: count }, (_, i) => {
+        const angle = (i / count) * Math.PI * 2;
+        return standing(Math.cos(angle) * radius, Math.sin(angle) * radius, scale, -angle);
+      });
+    }
+
+    case 'scatter': {
+      // Rejection sampling with a minimum gap, relaxed if the area fills up
+      const placements: FlowerPlacement[] = [];
+      let minGap = 3.5;
+      while (placements.length < count) {
+        let placed = false;
+        for (let attempt = 0; attempt < 40 && !placed; attempt++) {
+          const angle = random() * Math.PI * 2;
+          const radius = Math.sqrt(random()) * 9;
+          const x = Math.cos(angle) * radius;
+          const z = Math.sin(angle) * radius;
+          const clear = placements.every((p) => Math.hypot(p.position[0] - x, p.position[2] - z) >= minGap);
+          if (clear) {
+            const jitteredScale = scale * (0.85 + random() * 0.3);
+            placements.push(standing(x, z, jitteredScale, random() * Math.PI * 2));
+            placed = true;
+          }
+        }
+        if (!placed) minGap *= 0.8;
+      }
+      return placements;
+    }
+
+    case 'bouquet': {
+      // Stems gather at one point on the floor and fan outward
+      return Array.from({ length: count }, (_, i) => {
+        const heading = i * 2.39996 + random() * 0.3;
+        const tilt = count === 1 ? 0 : 0.15 + 0.35 * Math.sqrt((i + 1) / count);
+        const s = scale * (0.9 + random() * 0.2);
+        const up = [Math.sin(tilt) * Math.cos(heading), Math.cos(tilt), -Math.sin(tilt) * Math.sin(heading)];
+        return {
+          position: [up[0] * STEM_DEPTH * s, FLOOR_Y + up[1] * STEM_DEPTH * s, up[2] * STEM_DEPTH * s],
+          heading,
+          tilt,
+          scale: s,
+        };
+      });
+    }
+  }
+};
+
+// Shift the hue so a freshly added flower stands apart from its neighbours
+export const createGardenFlower = (base: RoseConfig, index: number): RoseConfig => {
+  const hueShift = ((index * 47) % 360) / 360;
+  const color = new THREE.Color(base.color).offsetHSL(hueShift, 0, 0);
+  // Distinct seeds so neighbours don't share a point layout
+  return { ...base, color: `#${color.getHexString()}`, seed: (base.seed + index * 7919) % (MAX_SEED + 1) };
+};
+
+/**
+ * Routes the single growth level the input controllers produce onto
+ * per-flower growth. In 'nearest' mode the flower is picked when a construct
+ * gesture starts and stays the target until it ends.
+ */
+export class GardenGrowth {
+  readonly growthRefs: { current: number }[] = [];
+  target = 0;
+  private wasConstructing = false;
+
+  resize(count: number, initial: number) {
+    while (this.growthRefs.length < count) this.growthRefs.push({ current: initial });
+    this.growthRefs.length = count;
+    if (this.target >= count) this.target = 0;
+  }
+
+  // Call after each controller step. A new gesture in 'nearest' mode picks its
+  // flower and resumes from that flower's level instead of the last target's.
+  route(master: { current: number }, mode: GardenBuildMode, constructing: boolean, anchor: Point2 | null, screen: Point2[]) {
+    if (mode === 'nearest' && constructing && !this.wasConstructing && anchor) {
+      let best = Infinity;
+      screen.forEach((p, i) => {
+        const dist = Math.hypot(p.x - anchor.x, p.y - anchor.y);
+        if (dist < best) {
+          best = dist;
+          this.target = i;
+        }
+      });
+      const target = this.growthRefs[this.target];
+      if (target) master.current = target.current;
+    }
+    this.wasConstructing = constructing;
+
+    if (mode === 'together') {
+      this.growthRefs.forEach((ref) => { ref.current = master.current; });
+    } else if (this.growthRefs[this.target]) {
+      this.growthRefs[this.target].current = master.current;
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { RoseConfig, SpeciesId } from '../types';
+import { buildPointCloud, splitBudget, totalCount } from '../species';
+import type { GeometryCancel, GeometryRequest, GeometryResponse } from './geometryBuilder';
+
+// The DOM lib types `self` as a Window; this is the slice of the worker scope we use
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<GeometryRequest | GeometryCancel>) => void) | null;
+  postMessage: (message: GeometryResponse, transfer: Transferable[]) => void;
+};
+
+// Share of the budget spent on the quick preview cloud
+const PREVIEW_SHARE = 0.05;
+
+const build = (id: number, stage: GeometryResponse['stage'], species: SpeciesId, config: RoseConfig, budget: number, weights: GeometryRequest['counts']) => {
+  const buffers = buildPointCloud(species, config, splitBudget(budget, weights));
+  scope.postMessage({ id, stage, buffers }, [
+    buffers.positions.buffer,
+    buffers.randoms.buffer,
+    buffers.types.buffer,
+    buffers.directions.buffer,
+  ]);
+};
+
+// Requests whose full build is still queued. Each flower cancels its previous
+// request when it asks for a new one, so only superseded builds are skipped.
+const queued = new Set<number>();
+
+scope.onmessage = (e) => {
+  if ('cancel' in e.data) {
+    queued.delete(e.data.cancel);
+    return;
+  }
+  const { id, species, config, counts, preview } = e.data;
+  queued.add(id);
+  const total = totalCount(counts);
+  if (preview) build(id, 'preview', species, config, Math.floor(total * PREVIEW_SHARE), counts);
+  // Let a cancel posted during the preview take effect
+  setTimeout(() => {
+    if (queued.delete(id)) build(id, 'full', species, config, total, counts);
+  }, 0);
+};
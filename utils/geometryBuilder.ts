@@ -0,0 +1,89 @@
+import { RoseConfig, SpeciesId } from '../types';
+import { GeometryBuffers, ParticleCounts, buildPointCloud } from '../species';
+
+export interface GeometryRequest {
+  id: number;
+  species: SpeciesId;
+  config: RoseConfig;
+  counts: ParticleCounts;
+  // Also send a sparse cloud first so something shows while the full one builds
+  preview: boolean;
+}
+
+// Drops a request the worker hasn't fully built yet
+export interface GeometryCancel {
+  cancel: number;
+}
+
+export interface GeometryResponse {
+  id: number;
+  stage: 'preview' | 'full';
+  buffers: GeometryBuffers;
+}
+
+type StageListener = (stage: GeometryResponse['stage'], buffers: GeometryBuffers) => void;
+
+let worker: Worker | null | undefined;
+let nextId = 1;
+const pending = new Map<number, { request: GeometryRequest; onStage: StageListener }>();
+
+const buildOnMainThread = ({ species, config, counts }: GeometryRequest, onStage: StageListener) =>
+  setTimeout(() => onStage('full', buildPointCloud(species, config, counts)), 0);
+
+// One worker shared by every flower; requests are answered in order
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+  try {
+    worker = new Worker(new URL('./geometry.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<GeometryResponse>) => {
+      const { id, stage, buffers } = e.data;
+      const entry = pending.get(id);
+      if (!entry) return;
+      if (stage === 'full') pending.delete(id);
+      entry.onStage(stage, buffers);
+    };
+    worker.onerror = (e) => {
+      console.warn("Geometry worker failed, building on the main thread:", e.message);
+      worker?.terminate();
+      worker = null;
+      // Requests still in flight would never be answered
+      pending.forEach(({ request, onStage }) => buildOnMainThread(request, onStage));
+      pending.clear();
+    };
+  } catch (err) {
+    console.warn("Web Workers unavailable, building on the main thread:", err);
+    worker = null;
+  }
+  return worker;
+};
+
+/**
+ * Builds a species' point cloud off the main thread. `onStage` fires with a
+ * preview cloud (if requested) and then the full one. Returns a cancel function;
+ * cancelled requests never call back.
+ */
+export const requestGeometry = (
+  species: SpeciesId,
+  config: RoseConfig,
+  counts: ParticleCounts,
+  onStage: StageListener,
+  preview = true
+): (() => void) => {
+  const request: GeometryRequest = { id: nextId++, species, config, counts, preview };
+  const target = getWorker();
+
+  if (!target) {
+    // Fallback: same generator, deferred so the caller's render can finish first
+    const timer = buildOnMainThread(request, onStage);
+    return () => clearTimeout(timer);
+  }
+
+  pending.set(request.id, { request, onStage });
+  target.postMessage(request);
+  return () => {
+    // Tell the worker too, so a queued full build for a flower that moved on is skipped
+    if (!pending.delete(request.id)) return;
+    const cancel: GeometryCancel = { cancel: request.id };
+    target.postMessage(cancel);
+  };
+};
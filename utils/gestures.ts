@@ -0,0 +1,345 @@
+import type { HandLandmarkerResult, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { HeldGesture, SwipeDirection } from '../types';
+
+// --- Landmark Indices ---
+const WRIST = 0;
+const THUMB = { ip: 3, tip: 4 };
+const FINGERS = [
+  { pip: 6, tip: 8 },   // Index
+  { pip: 10, tip: 12 }, // Middle
+  { pip: 14, tip: 16 }, // Ring
+  { pip: 18, tip: 20 }, // Pinky
+];
+const MIDDLE_MCP = 9;
+const PINKY_MCP = 17;
+const PALM_POINTS = [0, 5, 9, 13, 17];
+
+export const HELD_GESTURES: HeldGesture[] = ['pinch', 'fist', 'openPalm', 'point'];
+
+export const GESTURE_LABELS: Record<HeldGesture, string> = {
+  pinch: 'PINCH',
+  fist: 'FIST',
+  openPalm: 'OPEN PALM',
+  point: 'POINT',
+};
+
+export interface GestureEngineOptions {
+  // Camera aspect ratio, used to make x/y distances comparable
+  aspectRatio: number;
+  // Thumb-to-index distance that counts as a pinch, as a fraction of palm size
+  // (wrist to middle knuckle), so it holds at any distance from the camera
+  pinchThreshold: number;
+  // Score needed to enter a gesture, and the lower score needed to leave it (hysteresis)
+  enterScore: number;
+  exitScore: number;
+  // A state change must persist this long before it is reported
+  debounceMs: number;
+  // Palm travel (normalized) within the window that counts as a swipe
+  swipeDistance: number;
+  swipeWindowMs: number;
+  swipeCooldownMs: number;
+  // Minimum change in hand angle (radians) before a new rotate event is emitted
+  rotationStep: number;
+}
+
+export const DEFAULT_GESTURE_OPTIONS: GestureEngineOptions = {
+  aspectRatio: 640 / 480,
+  pinchThreshold: 0.4,
+  enterScore: 0.5,
+  exitScore: 0.4,
+  debounceMs: 50,
+  swipeDistance: 0.25,
+  swipeWindowMs: 300,
+  swipeCooldownMs: 600,
+  rotationStep: 0.08,
+};
+
+export interface GestureStatus {
+  active: boolean;
+  confidence: number;
+}
+
+export interface Point2 {
+  x: number;
+  y: number;
+}
+
+export interface HandGestureState {
+  // Index into the HandLandmarker result this state was computed from
+  index: number;
+  // Stable identity across frames (defaults to the index)
+  id: number;
+  landmarks: NormalizedLandmark[];
+  handedness: string;
+  gestures: Record<HeldGesture, GestureStatus>;
+  pinchDistance: number;
+  // Wrist to middle knuckle; pinchDistance / palmSize is the scale-free pinch measure
+  palmSize: number;
+  pinchPoint: Point2;
+  palmCenter: Point2;
+  // Angle of the wrist -> middle knuckle line from vertical, in the user's (mirrored) view
+  rotation: number;
+  fingerCount: number;
+}
+
+export type GestureEvent =
+  | { type: 'start' | 'end'; gesture: HeldGesture; hand: number; confidence: number; timestamp: number }
+  | { type: 'swipe'; direction: SwipeDirection; hand: number; confidence: number; timestamp: number }
+  // delta: signed change since the previous rotate event, in (-π, π]
+  | { type: 'rotate'; angle: number; delta: number; hand: number; confidence: number; timestamp: number }
+  | { type: 'fingerCount'; count: number; hand: number; confidence: number; timestamp: number };
+
+export interface GestureFrame {
+  timestamp: number;
+  hands: HandGestureState[];
+  events: GestureEvent[];
+}
+
+export type GestureListener = (event: GestureEvent) => void;
+
+// Per-hand bookkeeping for hysteresis, debounce and swipe tracking
+interface HandTrack {
+  active: Record<HeldGesture, boolean>;
+  pendingSince: Record<HeldGesture, number | null>;
+  fingerCount: number;
+  pendingFingerCount: number;
+  fingerCountSince: number;
+  rotation: number | null;
+  trail: { x: number; y: number; t: number }[];
+  lastSwipe: number;
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = clamp01((x - edge0) / (edge1 - edge0));
+  return t * t * (3 - 2 * t);
+};
+
+const createTrack = (): HandTrack => ({
+  active: { pinch: false, fist: false, openPalm: false, point: false },
+  pendingSince: { pinch: null, fist: null, openPalm: null, point: null },
+  fingerCount: 0,
+  pendingFingerCount: 0,
+  fingerCountSince: 0,
+  rotation: null,
+  trail: [],
+  lastSwipe: -Infinity,
+});
+
+// Palm-center based anchor for everything except pinch, which uses the pinch point
+export const getGestureAnchor = (hand: HandGestureState, gesture: HeldGesture): Point2 =>
+  gesture === 'pinch' ? hand.pinchPoint : hand.palmCenter;
+
+/**
+ * Turns raw HandLandmarker results into per-hand gesture states and discrete events.
+ * Pure TypeScript with no DOM or React dependencies, so it can be driven by
+ * recorded or synthetic landmarks.
+ */
+export class GestureEngine {
+  readonly options: GestureEngineOptions;
+  private tracks = new Map<number, HandTrack>();
+  private listeners = new Set<GestureListener>();
+
+  constructor(options: Partial<GestureEngineOptions> = {}) {
+    this.options = { ...DEFAULT_GESTURE_OPTIONS, ...options };
+  }
+
+  subscribe(listener: GestureListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  reset() {
+    this.tracks.clear();
+  }
+
+  // `handIds` keys the per-hand state so hysteresis survives MediaPipe reordering hands
+  process(result: HandLandmarkerResult, timestamp: number, handIds?: number[]): GestureFrame {
+    const events: GestureEvent[] = [];
+    const hands: HandGestureState[] = [];
+    const landmarks = result.landmarks || [];
+    const seen = new Set<number>();
+
+    landmarks.forEach((hand, index) => {
+      const id = handIds?.[index] ?? index;
+      seen.add(id);
+      let track = this.tracks.get(id);
+      if (!track) {
+        track = createTrack();
+        this.tracks.set(id, track);
+      }
+      const category = result.handedness?.[index]?.[0];
+      const handScore = category ? category.score : 1.0;
+      hands.push(this.updateHand(index, id, hand, category?.categoryName ?? '', handScore, track, timestamp, events));
+    });
+
+    // Hands that disappeared release whatever they were holding
+    for (const [id, track] of this.tracks) {
+      if (seen.has(id)) continue;
+      HELD_GESTURES.forEach((gesture) => {
+        if (track.active[gesture]) {
+          events.push({ type: 'end', gesture, hand: id, confidence: 0, timestamp });
+        }
+      });
+      this.tracks.delete(id);
+    }
+
+    events.forEach((event) => this.listeners.forEach((listener) => listener(event)));
+    return { timestamp, hands, events };
+  }
+
+  private updateHand(
+    index: number,
+    id: number,
+    landmarks: NormalizedLandmark[],
+    handedness: string,
+    handScore: number,
+    track: HandTrack,
+    timestamp: number,
+    events: GestureEvent[]
+  ): HandGestureState {
+    const { aspectRatio, pinchThreshold, enterScore, exitScore, debounceMs } = this.options;
+    const dist = (a: NormalizedLandmark, b: NormalizedLandmark) =>
+      Math.hypot((a.x - b.x) * aspectRatio, a.y - b.y);
+
+    const wrist = landmarks[WRIST];
+    const thumbTip = landmarks[THUMB.tip];
+    const indexTip = landmarks[FINGERS[0].tip];
+
+    // Extension of each finger: tip farther from the wrist than its middle joint
+    const fingerExtension = FINGERS.map(({ pip, tip }) => {
+      const ratio = dist(landmarks[tip], wrist) / Math.max(dist(landmarks[pip], wrist), 1e-6);
+      return smoothstep(0.95, 1.25, ratio);
+    });
+    const thumbRatio = dist(landmarks[THUMB.tip], landmarks[PINKY_MCP]) /
+      Math.max(dist(landmarks[THUMB.ip], landmarks[PINKY_MCP]), 1e-6);
+    const thumbExtension = smoothstep(1.0, 1.2, thumbRatio);
+    const allExtension = [thumbExtension, ...fingerExtension];
+
+    const curled = (e: number) => 1 - e;
+    const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+    const pinchDistance = dist(thumbTip, indexTip);
+    const palmSize = Math.max(dist(wrist, landmarks[MIDDLE_MCP]), 1e-6);
+    const scores: Record<HeldGesture, number> = {
+      // 0.5 exactly at the threshold, 1.0 when touching
+      pinch: clamp01(1 - pinchDistance / palmSize / (pinchThreshold * 2)),
+      fist: mean(fingerExtension.map(curled)),
+      openPalm: mean(allExtension),
+      point: Math.min(fingerExtension[0], mean(fingerExtension.slice(1).map(curled))),
+    };
+
+    const gestures = {} as Record<HeldGesture, GestureStatus>;
+    HELD_GESTURES.forEach((gesture) => {
+      const score = scores[gesture];
+      const wasActive = track.active[gesture];
+      const wantsActive = wasActive ? score >= exitScore : score >= enterScore;
+
+      if (wantsActive !== wasActive) {
+        if (track.pendingSince[gesture] === null) track.pendingSince[gesture] = timestamp;
+        if (timestamp - (track.pendingSince[gesture] as number) >= debounceMs) {
+          track.active[gesture] = wantsActive;
+          track.pendingSince[gesture] = null;
+          events.push({
+            type: wantsActive ? 'start' : 'end',
+            gesture,
+            hand: id,
+            confidence: score * handScore,
+            timestamp,
+          });
+        }
+      } else {
+        track.pendingSince[gesture] = null;
+      }
+
+      gestures[gesture] = { active: track.active[gesture], confidence: score * handScore };
+    });
+
+    // --- Finger Count (debounced) ---
+    const rawCount = allExtension.filter((e) => e > 0.5).length;
+    if (rawCount !== track.pendingFingerCount) {
+      track.pendingFingerCount = rawCount;
+      track.fingerCountSince = timestamp;
+    } else if (rawCount !== track.fingerCount && timestamp - track.fingerCountSince >= debounceMs) {
+      track.fingerCount = rawCount;
+      const certainty = mean(allExtension.map((e) => Math.abs(e - 0.5) * 2));
+      events.push({ type: 'fingerCount', count: rawCount, hand: id, confidence: certainty * handScore, timestamp });
+    }
+
+    // --- Rotation ---
+    // The HUD shows a mirrored feed, so flip x to report what the user sees
+    const middle = landmarks[MIDDLE_MCP];
+    const rotation = Math.atan2(-(middle.x - wrist.x) * aspectRatio, wrist.y - middle.y);
+    // Unwrapped, so turning through straight down (±π) is a small step, not a full turn
+    const turn = track.rotation === null
+      ? 0
+      : Math.atan2(Math.sin(rotation - track.rotation), Math.cos(rotation - track.rotation));
+    if (track.rotation === null || Math.abs(turn) >= this.options.rotationStep) {
+      track.rotation = rotation;
+      events.push({ type: 'rotate', angle: rotation, delta: turn, hand: id, confidence: handScore, timestamp });
+    }
+
+    // --- Swipes ---
+    const palmCenter = {
+      x: mean(PALM_POINTS.map((i) => landmarks[i].x)),
+      y: mean(PALM_POINTS.map((i) => landmarks[i].y)),
+    };
+    this.detectSwipe(id, palmCenter, handScore, track, timestamp, events);
+
+    return {
+      index,
+      id,
+      landmarks,
+      handedness,
+      gestures,
+      pinchDistance,
+      palmSize,
+      pinchPoint: { x: (thumbTip.x + indexTip.x) / 2, y: (thumbTip.y + indexTip.y) / 2 },
+      palmCenter,
+      rotation,
+      fingerCount: track.fingerCount,
+    };
+  }
+
+  private detectSwipe(
+    id: number,
+    palm: Point2,
+    handScore: number,
+    track: HandTrack,
+    timestamp: number,
+    events: GestureEvent[]
+  ) {
+    const { swipeDistance, swipeWindowMs, swipeCooldownMs, aspectRatio } = this.options;
+
+    track.trail.push({ x: palm.x, y: palm.y, t: timestamp });
+    while (track.trail.length && timestamp - track.trail[0].t > swipeWindowMs) {
+      track.trail.shift();
+    }
+    if (timestamp - track.lastSwipe < swipeCooldownMs || track.trail.length < 2) return;
+
+    const first = track.trail[0];
+    // Mirrored, so moving right in camera space is a swipe left for the user
+    const dx = -(palm.x - first.x) * aspectRatio;
+    const dy = palm.y - first.y;
+    const horizontal = Math.abs(dx) > Math.abs(dy) * 2;
+    const vertical = Math.abs(dy) > Math.abs(dx) * 2;
+    const travel = Math.hypot(dx, dy);
+    if (travel < swipeDistance || (!horizontal && !vertical)) return;
+
+    const direction: SwipeDirection = horizontal
+      ? (dx > 0 ? 'right' : 'left')
+      : (dy > 0 ? 'down' : 'up');
+    events.push({
+      type: 'swipe',
+      direction,
+      hand: id,
+      confidence: clamp01(travel / (swipeDistance * 2)) * handScore,
+      timestamp,
+    });
+    track.lastSwipe = timestamp;
+    track.trail = [];
+  }
+}
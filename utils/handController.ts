@@ -0,0 +1,172 @@
+import type { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { GestureBindings, HandRole, HeldGesture } from '../types';
+import { GestureEngine, GestureFrame, HELD_GESTURES, HandGestureState, Point2, getGestureAnchor } from './gestures';
+import { HandRoleAssigner } from './handRoles';
+import { TwoHandFrame, TwoHandTracker } from './twoHand';
+import { LandmarkFilter } from './landmarkFilter';
+import { isRecord, loadSettings, saveSettings } from './persistedSettings';
+
+const STORAGE_KEY = 'flora.bindings';
+
+// Which gesture drives each behavior, e.g. { construct: 'openPalm', distort: 'fist' }
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+  construct: 'pinch',
+  distort: 'pinch',
+};
+
+const isHeldGesture = (value: unknown): value is HeldGesture => HELD_GESTURES.some((gesture) => gesture === value);
+
+export const sanitizeGestureBindings = (raw: unknown): GestureBindings => {
+  const bindings = { ...DEFAULT_GESTURE_BINDINGS };
+  if (!isRecord(raw)) return bindings;
+  if (isHeldGesture(raw.construct)) bindings.construct = raw.construct;
+  if (isHeldGesture(raw.distort)) bindings.distort = raw.distort;
+  return bindings;
+};
+
+export const loadGestureBindings = (): GestureBindings => loadSettings(STORAGE_KEY, sanitizeGestureBindings);
+
+export const saveGestureBindings = (bindings: GestureBindings) => saveSettings(STORAGE_KEY, bindings, 'gesture bindings');
+
+export interface ControlLevels {
+  growth: number;
+  distortion: number;
+}
+
+export interface HandRoleState {
+  hand: HandGestureState;
+  active: boolean;
+  anchor: Point2;
+}
+
+export interface ControllerFrame extends ControlLevels {
+  gestures: GestureFrame;
+  construct?: HandRoleState;
+  distort?: HandRoleState;
+  // Set while both hands hold a two-hand pinch grab; construct and distort sit it out
+  twoHand?: TwoHandFrame;
+}
+
+export interface GrowthMapping {
+  // Vertical band of the input (normalized, top -> bottom) mapped onto growth 0 -> 1
+  minY: number;
+  maxY: number;
+  // Growth below snapLow / above snapHigh snaps to 0 / 1
+  snapLow: number;
+  snapHigh: number;
+}
+
+export const DEFAULT_GROWTH_MAPPING: GrowthMapping = { minY: 0.2, maxY: 0.8, snapLow: 0.15, snapHigh: 0.85 };
+
+// Time constants (ms) of the level easing, so it feels the same at any frame rate
+export const GROWTH_FOLLOW_MS = 200;
+export const GROWTH_SNAP_MS = 300;
+export const DISTORTION_MS = 300;
+// Step assumed for the first frame, and the most one frame may advance
+const DEFAULT_FRAME_MS = 1000 / 30;
+const MAX_FRAME_MS = 100;
+
+// Share of the remaining distance exponential smoothing covers in deltaMs
+export const smoothingFactor = (timeConstantMs: number, deltaMs: number) => 1 - Math.exp(-deltaMs / timeConstantMs);
+
+export const growthToAnchorY = (growth: number, mapping = DEFAULT_GROWTH_MAPPING) =>
+  mapping.minY + growth * (mapping.maxY - mapping.minY);
+
+// Drag toward the anchor while held; on release, auto-snap when close to either end
+export const stepGrowth = (
+  growth: number,
+  active: boolean,
+  anchorY: number,
+  deltaMs: number,
+  mapping = DEFAULT_GROWTH_MAPPING
+) => {
+  const { minY, maxY, snapLow, snapHigh } = mapping;
+  if (active) {
+    const rawProgress = (anchorY - minY) / (maxY - minY);
+    let targetGrowth = Math.max(0, Math.min(1, rawProgress));
+    if (targetGrowth > snapHigh) targetGrowth = 1.0;
+    if (targetGrowth < snapLow) targetGrowth = 0.0;
+    return growth + (targetGrowth - growth) * smoothingFactor(GROWTH_FOLLOW_MS, deltaMs);
+  }
+  const snap = smoothingFactor(GROWTH_SNAP_MS, deltaMs);
+  if (growth > snapHigh) return growth + (1.0 - growth) * snap;
+  if (growth < snapLow) return growth + (0.0 - growth) * snap;
+  return growth;
+};
+
+// Ease toward full distortion while held, back to normal otherwise
+export const stepDistortion = (distortion: number, active: boolean, deltaMs: number) => {
+  const targetDistortion = active ? 1.0 : 0.0;
+  return distortion + (targetDistortion - distortion) * smoothingFactor(DISTORTION_MS, deltaMs);
+};
+
+/**
+ * The single code path from HandLandmarker output to growth/distortion levels.
+ * Live webcam frames and recorded replays both go through `step`. Landmarks are
+ * One Euro filtered and levels eased against the frame timestamps, so replays
+ * come out the same and the feel doesn't depend on the camera's frame rate.
+ */
+export class HandController {
+  readonly gestures = new GestureEngine();
+  readonly roles = new HandRoleAssigner();
+  readonly twoHand = new TwoHandTracker();
+  readonly filter = new LandmarkFilter();
+  bindings: GestureBindings;
+  // The hand's reach; set from the active calibration profile
+  growthMapping: GrowthMapping = DEFAULT_GROWTH_MAPPING;
+  private lastTimestamp: number | null = null;
+
+  constructor(bindings: GestureBindings) {
+    this.bindings = bindings;
+  }
+
+  // Width / height of the camera frame the landmarks come from
+  setAspectRatio(aspectRatio: number) {
+    this.gestures.options.aspectRatio = aspectRatio;
+    this.twoHand.options.aspectRatio = aspectRatio;
+  }
+
+  reset() {
+    this.gestures.reset();
+    this.roles.reset();
+    this.twoHand.reset();
+    this.filter.reset();
+    this.lastTimestamp = null;
+  }
+
+  step(result: HandLandmarkerResult, timestamp: number, levels: ControlLevels): ControllerFrame {
+    let { growth, distortion } = levels;
+    const deltaMs = this.lastTimestamp === null
+      ? DEFAULT_FRAME_MS
+      : Math.max(0, Math.min(MAX_FRAME_MS, timestamp - this.lastTimestamp));
+    this.lastTimestamp = timestamp;
+
+    // Roles follow handedness and stick to a hand while it stays in frame,
+    // regardless of the order MediaPipe reports hands in
+    const assignments = this.roles.assign(result, timestamp);
+    const handIds = (result.landmarks || []).map(
+      (_, i) => assignments.find((a) => a.index === i)?.id ?? -1 - i
+    );
+    const frame = this.gestures.process(this.filter.apply(result, timestamp, handIds), timestamp, handIds);
+    const twoHand = this.twoHand.step(frame.hands, timestamp) ?? undefined;
+    const roleState = (role: HandRole): HandRoleState | undefined => {
+      const assignment = assignments.find((a) => a.role === role);
+      if (!assignment) return undefined;
+      const hand = frame.hands[assignment.index];
+      const gesture = this.bindings[role];
+      return { hand, active: !twoHand && hand.gestures[gesture].active, anchor: getGestureAnchor(hand, gesture) };
+    };
+
+    // Construct Hand (Growth)
+    const construct = roleState('construct');
+    if (construct) {
+      growth = stepGrowth(growth, construct.active, construct.anchor.y, deltaMs, this.growthMapping);
+    }
+
+    // Distort Hand (Effect) - also relaxes when the hand is gone
+    const distort = roleState('distort');
+    distortion = stepDistortion(distortion, !!distort?.active, deltaMs);
+
+    return { growth, distortion, gestures: frame, construct, distort, twoHand };
+  }
+}
@@ -0,0 +1,150 @@
+import type { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { HandRole, Handedness } from '../types';
+import { loadSettings, saveSettings } from './persistedSettings';
+
+const STORAGE_KEY = 'flora.dominantHand';
+
+export interface HandRoleOptions {
+  // The hand that builds; the other one distorts
+  dominantHand: Handedness;
+  // Below this MediaPipe handedness score the label is ignored
+  minHandednessScore: number;
+  // Max wrist travel (normalized) between frames to count as the same hand
+  matchDistance: number;
+  // How long a hand may go undetected before its role is released
+  graceMs: number;
+}
+
+export const DEFAULT_HAND_ROLE_OPTIONS: HandRoleOptions = {
+  dominantHand: 'right',
+  minHandednessScore: 0.7,
+  matchDistance: 0.2,
+  graceMs: 150,
+};
+
+// Right-handed unless the stored value says otherwise
+export const sanitizeDominantHand = (raw: unknown): Handedness => (raw === 'left' ? 'left' : 'right');
+
+export const loadDominantHand = (): Handedness => loadSettings(STORAGE_KEY, sanitizeDominantHand);
+
+export const saveDominantHand = (hand: Handedness) => saveSettings(STORAGE_KEY, hand, 'dominant hand');
+
+export interface HandAssignment {
+  // Index into the HandLandmarker result
+  index: number;
+  // Stable identity for as long as the hand stays in frame
+  id: number;
+  role: HandRole;
+}
+
+interface TrackedHand {
+  id: number;
+  role: HandRole;
+  x: number;
+  y: number;
+  lastSeen: number;
+}
+
+const ROLES: HandRole[] = ['construct', 'distort'];
+
+// MediaPipe labels handedness as if the image were mirrored (selfie view).
+// We feed it the raw camera frame, so its "Left" is the user's right hand.
+const toUserHandedness = (categoryName: string): Handedness | null => {
+  if (categoryName === 'Left') return 'right';
+  if (categoryName === 'Right') return 'left';
+  return null;
+};
+
+/**
+ * Assigns construct/distort roles to detected hands. New hands get their role
+ * from handedness; once assigned, a hand is followed across frames by wrist
+ * position and keeps its role until it leaves the frame.
+ */
+export class HandRoleAssigner {
+  options: HandRoleOptions;
+  private hands: TrackedHand[] = [];
+  private nextId = 0;
+
+  constructor(options: Partial<HandRoleOptions> = {}) {
+    this.options = { ...DEFAULT_HAND_ROLE_OPTIONS, ...options };
+  }
+
+  setDominantHand(hand: Handedness) {
+    if (hand === this.options.dominantHand) return;
+    this.options = { ...this.options, dominantHand: hand };
+    // Roles were chosen under the old preference, so re-derive them
+    this.reset();
+  }
+
+  reset() {
+    this.hands = [];
+  }
+
+  assign(result: HandLandmarkerResult, timestamp: number): HandAssignment[] {
+    const { matchDistance, graceMs, minHandednessScore, dominantHand } = this.options;
+    const landmarks = result.landmarks || [];
+
+    // Forget hands that have been gone longer than the grace period
+    this.hands = this.hands.filter((hand) => timestamp - hand.lastSeen <= graceMs);
+
+    // --- Match detections to known hands, closest pairs first ---
+    const pairs: { index: number; hand: TrackedHand; dist: number }[] = [];
+    landmarks.forEach((points, index) => {
+      const wrist = points[0];
+      this.hands.forEach((hand) => {
+        const dist = Math.hypot(wrist.x - hand.x, wrist.y - hand.y);
+        if (dist <= matchDistance) pairs.push({ index, hand, dist });
+      });
+    });
+    pairs.sort((a, b) => a.dist - b.dist);
+
+    const matched = new Map<number, TrackedHand>();
+    const claimed = new Set<TrackedHand>();
+    pairs.forEach(({ index, hand }) => {
+      if (matched.has(index) || claimed.has(hand)) return;
+      matched.set(index, hand);
+      claimed.add(hand);
+    });
+
+    // --- New hands: role from handedness, else whichever role is free ---
+    const taken = new Set<HandRole>(this.hands.map((hand) => hand.role));
+    const unmatched = landmarks
+      .map((_, index) => index)
+      .filter((index) => !matched.has(index))
+      .map((index) => {
+        const category = result.handedness?.[index]?.[0];
+        const side = category && category.score >= minHandednessScore
+          ? toUserHandedness(category.categoryName)
+          : null;
+        const preferred: HandRole | null = side === null
+          ? null
+          : side === dominantHand ? 'construct' : 'distort';
+        return { index, preferred, score: category?.score ?? 0 };
+      })
+      // Confident labels pick first so a shaky one cannot steal their role
+      .sort((a, b) => b.score - a.score);
+
+    unmatched.forEach(({ index, preferred }) => {
+      const free = ROLES.filter((role) => !taken.has(role));
+      if (free.length === 0) return;
+      const role = preferred && free.includes(preferred) ? preferred : free[0];
+      const wrist = landmarks[index][0];
+      const hand: TrackedHand = { id: this.nextId++, role, x: wrist.x, y: wrist.y, lastSeen: timestamp };
+      this.hands.push(hand);
+      taken.add(role);
+      matched.set(index, hand);
+    });
+
+    // --- Update positions and emit assignments in result order ---
+    const assignments: HandAssignment[] = [];
+    landmarks.forEach((points, index) => {
+      const hand = matched.get(index);
+      if (!hand) return;
+      hand.x = points[0].x;
+      hand.y = points[0].y;
+      hand.lastSeen = timestamp;
+      assignments.push({ index, id: hand.id, role: hand.role });
+    });
+    return assignments;
+  }
+}
@@ -0,0 +1,144 @@
+import type { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { HandFilterSettings } from '../types';
+import { ConfigRange, clampToRange } from './configSchema';
+import { isFiniteNumber, isRecord, loadSettings, saveSettings } from './persistedSettings';
+
+const STORAGE_KEY = 'flora.handFilter';
+
+export const HAND_FILTER_RANGES: Record<'minCutoff' | 'beta', ConfigRange> = {
+  minCutoff: { min: 0.1, max: 10, step: 0.1 },
+  beta: { min: 0, max: 50, step: 0.5 },
+};
+
+export const DEFAULT_HAND_FILTER_SETTINGS: HandFilterSettings = {
+  enabled: true,
+  minCutoff: 1.5,
+  beta: 10,
+};
+
+export const sanitizeHandFilter = (raw: unknown): HandFilterSettings => {
+  const settings = { ...DEFAULT_HAND_FILTER_SETTINGS };
+  if (!isRecord(raw)) return settings;
+  if (typeof raw.enabled === 'boolean') settings.enabled = raw.enabled;
+  (Object.keys(HAND_FILTER_RANGES) as (keyof typeof HAND_FILTER_RANGES)[]).forEach((key) => {
+    const value = raw[key];
+    if (isFiniteNumber(value)) settings[key] = clampToRange(value, HAND_FILTER_RANGES[key]);
+  });
+  return settings;
+};
+
+export const loadHandFilter = (): HandFilterSettings => loadSettings(STORAGE_KEY, sanitizeHandFilter);
+
+export const saveHandFilter = (settings: HandFilterSettings) => saveSettings(STORAGE_KEY, settings, 'hand filter settings');
+
+export interface OneEuroOptions {
+  minCutoff: number;
+  beta: number;
+  // Cutoff (Hz) for the speed estimate that drives the adaptive cutoff
+  derivativeCutoff: number;
+}
+
+// Smoothing factor of a first-order low-pass at `cutoff` Hz over `dt` seconds
+const lowPassAlpha = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+/**
+ * One Euro filter (Casiez et al. 2012) for a single value: a low-pass whose
+ * cutoff rises with the value's speed, so a still hand is steady and a moving
+ * one doesn't lag. Works on timestamps, so the result doesn't depend on the
+ * frame rate. Reads its options on every call, so tuning applies live.
+ */
+export class OneEuroFilter {
+  private options: OneEuroOptions;
+  private value: number | null = null;
+  private speed = 0;
+  private lastTimestamp = 0;
+
+  constructor(options: OneEuroOptions) {
+    this.options = options;
+  }
+
+  filter(value: number, timestamp: number): number {
+    if (this.value === null) {
+      this.value = value;
+      this.lastTimestamp = timestamp;
+      return value;
+    }
+    const dt = (timestamp - this.lastTimestamp) / 1000;
+    // Repeated or out-of-order timestamps carry no new information
+    if (dt <= 0) return this.value;
+    this.lastTimestamp = timestamp;
+
+    const { minCutoff, beta, derivativeCutoff } = this.options;
+    const rawSpeed = (value - this.value) / dt;
+    this.speed += lowPassAlpha(derivativeCutoff, dt) * (rawSpeed - this.speed);
+    const cutoff = minCutoff + beta * Math.abs(this.speed);
+    this.value += lowPassAlpha(cutoff, dt) * (value - this.value);
+    return this.value;
+  }
+
+  reset() {
+    this.value = null;
+    this.speed = 0;
+  }
+}
+
+export interface LandmarkFilterOptions extends HandFilterSettings {
+  derivativeCutoff: number;
+}
+
+export const DEFAULT_LANDMARK_FILTER_OPTIONS: LandmarkFilterOptions = {
+  ...DEFAULT_HAND_FILTER_SETTINGS,
+  derivativeCutoff: 1,
+};
+
+/**
+ * One Euro filters every landmark coordinate of every hand, keyed by stable
+ * hand id so a filter never jumps between hands. Hands that leave drop their
+ * filters and start fresh when they come back.
+ */
+export class LandmarkFilter {
+  readonly options: LandmarkFilterOptions;
+  private hands = new Map<number, OneEuroFilter[]>();
+
+  constructor(options: Partial<LandmarkFilterOptions> = {}) {
+    this.options = { ...DEFAULT_LANDMARK_FILTER_OPTIONS, ...options };
+  }
+
+  // `timestamp` is the one the frame was detected at (detectForVideo's, or the recording's)
+  apply(result: HandLandmarkerResult, timestamp: number, handIds: number[]): HandLandmarkerResult {
+    if (!this.options.enabled) {
+      this.hands.clear();
+      return result;
+    }
+
+    const seen = new Set<number>();
+    const landmarks = (result.landmarks || []).map((hand, i) => {
+      const id = handIds[i] ?? i;
+      seen.add(id);
+      let filters = this.hands.get(id);
+      if (!filters) {
+        filters = Array.from({ length: hand.length * 3 }, () => new OneEuroFilter(this.options));
+        this.hands.set(id, filters);
+      }
+      const f = filters;
+      return hand.map((point, j) => ({
+        ...point,
+        x: f[j * 3].filter(point.x, timestamp),
+        y: f[j * 3 + 1].filter(point.y, timestamp),
+        z: f[j * 3 + 2].filter(point.z ?? 0, timestamp),
+      }));
+    });
+
+    for (const id of this.hands.keys()) {
+      if (!seen.has(id)) this.hands.delete(id);
+    }
+    return { ...result, landmarks };
+  }
+
+  reset() {
+    this.hands.clear();
+  }
+}
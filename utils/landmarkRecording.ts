@@ -0,0 +1,240 @@
+import type { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { isFiniteNumber, isRecord } from './persistedSettings';
+
+// --- File Format ---
+// NDJSON: a header line followed by one frame per line.
+// JSON:   the header object with all frames in a `frames` array.
+export const RECORDING_FORMAT = 'digital-flora-landmarks';
+export const RECORDING_VERSION = 1;
+
+export interface RecordedLandmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface RecordedHandedness {
+  categoryName: string;
+  score: number;
+}
+
+export interface RecordedFrame {
+  // Milliseconds since the start of the recording
+  t: number;
+  landmarks: RecordedLandmark[][];
+  handedness: RecordedHandedness[][];
+}
+
+export interface RecordingHeader {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  createdAt: string;
+  video: { width: number; height: number };
+}
+
+export interface LandmarkRecording extends RecordingHeader {
+  frames: RecordedFrame[];
+}
+
+export class RecordingFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecordingFormatError';
+  }
+}
+
+// Trim to 5 decimals: plenty for normalized coordinates, halves the file size
+const round = (v: number) => Math.round(v * 1e5) / 1e5;
+
+export const toRecordedFrame = (result: HandLandmarkerResult, t: number): RecordedFrame => ({
+  t: round(t),
+  landmarks: (result.landmarks || []).map((hand) =>
+    hand.map((p) => ({ x: round(p.x), y: round(p.y), z: round(p.z) }))
+  ),
+  handedness: (result.handedness || []).map((categories) =>
+    categories.map((c) => ({ categoryName: c.categoryName, score: round(c.score) }))
+  ),
+});
+
+// Rebuild a result object shaped like HandLandmarker's so replays share the live code path
+export const toLandmarkerResult = (frame: RecordedFrame): HandLandmarkerResult => {
+  const handedness = frame.handedness.map((categories) =>
+    categories.map((c, index) => ({ ...c, index, displayName: c.categoryName }))
+  );
+  return {
+    landmarks: frame.landmarks.map((hand) => hand.map((p) => ({ ...p, visibility: 1 }))),
+    worldLandmarks: [],
+    handedness,
+    handednesses: handedness,
+  };
+};
+
+export class LandmarkRecorder {
+  private frames: RecordedFrame[] = [];
+  private active = false;
+  private startTime: number | null = null;
+  private video = { width: 640, height: 480 };
+
+  get recording() {
+    return this.active;
+  }
+
+  start(video?: { width: number; height: number }) {
+    this.frames = [];
+    this.active = true;
+    this.startTime = null;
+    if (video) this.video = video;
+  }
+
+  addFrame(result: HandLandmarkerResult, timestamp: number) {
+    if (!this.active) return;
+    if (this.startTime === null) this.startTime = timestamp;
+    this.frames.push(toRecordedFrame(result, timestamp - this.startTime));
+  }
+
+  stop(): LandmarkRecording {
+    this.active = false;
+    return {
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      createdAt: new Date().toISOString(),
+      video: this.video,
+      frames: this.frames,
+    };
+  }
+}
+
+export const serializeRecording = (recording: LandmarkRecording, as: 'ndjson' | 'json' = 'ndjson'): string => {
+  if (as === 'json') return JSON.stringify(recording);
+  const { frames, ...header } = recording;
+  return [JSON.stringify(header), ...frames.map((frame) => JSON.stringify(frame))].join('\n') + '\n';
+};
+
+const checkHeader = (header: unknown): RecordingHeader => {
+  if (!isRecord(header) || header.format !== RECORDING_FORMAT) {
+    throw new RecordingFormatError('Not a landmark recording');
+  }
+  const { version, createdAt, video } = header;
+  if (typeof version !== 'number' || version > RECORDING_VERSION) {
+    throw new RecordingFormatError(`Unsupported recording version: ${version}`);
+  }
+  return {
+    format: RECORDING_FORMAT,
+    version,
+    createdAt: String(createdAt ?? ''),
+    video:
+      isRecord(video) && isFiniteNumber(video.width) && isFiniteNumber(video.height)
+        ? { width: video.width, height: video.height }
+        : { width: 640, height: 480 },
+  };
+};
+
+// One list per hand, as HandLandmarker reports them
+const isPerHand = <T>(isItem: (value: unknown) => value is T) =>
+  (value: unknown): value is T[][] => Array.isArray(value) && value.every((hand) => Array.isArray(hand) && hand.every(isItem));
+
+const isLandmarks = isPerHand(
+  (p): p is RecordedLandmark => isRecord(p) && isFiniteNumber(p.x) && isFiniteNumber(p.y) && isFiniteNumber(p.z)
+);
+const isHandedness = isPerHand(
+  (c): c is RecordedHandedness => isRecord(c) && typeof c.categoryName === 'string' && isFiniteNumber(c.score)
+);
+
+const checkFrame = (frame: unknown, line: number): RecordedFrame => {
+  if (!isRecord(frame) || !isFiniteNumber(frame.t) || !isLandmarks(frame.landmarks)) {
+    throw new RecordingFormatError(`Malformed frame at entry ${line}`);
+  }
+  return { t: frame.t, landmarks: frame.landmarks, handedness: isHandedness(frame.handedness) ? frame.handedness : [] };
+};
+
+// Accepts both the NDJSON and the single-object JSON layout
+export const parseRecording = (text: string): LandmarkRecording => {
+  const trimmed = text.trim();
+  let header: unknown;
+  let frames: unknown[];
+
+  try {
+    const whole: unknown = JSON.parse(trimmed);
+    header = whole;
+    frames = isRecord(whole) && Array.isArray(whole.frames) ? whole.frames : [];
+  } catch {
+    try {
+      const lines = trimmed.split('\n').filter((line) => line.trim().length > 0);
+      header = JSON.parse(lines[0]);
+      frames = lines.slice(1).map((line): unknown => JSON.parse(line));
+    } catch {
+      throw new RecordingFormatError('Recording is neither JSON nor NDJSON');
+    }
+  }
+
+  const parsed = checkHeader(header);
+  const checked = frames.map(checkFrame).sort((a, b) => a.t - b.t);
+  return { ...parsed, frames: checked };
+};
+
+/**
+ * Plays a recording back against a virtual clock. `advance` returns every frame
+ * passed since the previous call, so gesture hysteresis sees the same sequence
+ * regardless of playback speed.
+ */
+export class ReplayDriver {
+  readonly recording: LandmarkRecording;
+  speed = 1;
+  private time = 0;
+  private cursor = 0;
+  private playing = false;
+
+  constructor(recording: LandmarkRecording) {
+    this.recording = recording;
+  }
+
+  get duration() {
+    const frames = this.recording.frames;
+    return frames.length ? frames[frames.length - 1].t : 0;
+  }
+
+  get currentTime() {
+    return this.time;
+  }
+
+  get isPlaying() {
+    return this.playing;
+  }
+
+  get ended() {
+    return this.cursor >= this.recording.frames.length;
+  }
+
+  play() {
+    if (this.ended) this.seek(0);
+    this.playing = true;
+  }
+
+  pause() {
+    this.playing = false;
+  }
+
+  // Jumps the clock; returns every frame up to the new time so callers can
+  // rebuild state deterministically from a reset
+  seek(time: number): RecordedFrame[] {
+    this.time = Math.max(0, Math.min(this.duration, time));
+    const frames = this.recording.frames;
+    this.cursor = 0;
+    while (this.cursor < frames.length && frames[this.cursor].t <= this.time) this.cursor++;
+    return frames.slice(0, this.cursor);
+  }
+
+  advance(deltaMs: number): RecordedFrame[] {
+    if (!this.playing) return [];
+    this.time += deltaMs * this.speed;
+
+    const frames = this.recording.frames;
+    const due: RecordedFrame[] = [];
+    while (this.cursor < frames.length && frames[this.cursor].t <= this.time) {
+      due.push(frames[this.cursor++]);
+    }
+
+    if (this.ended) this.playing = false;
+    return due;
+  }
+}
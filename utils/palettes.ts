@@ -0,0 +1,122 @@
+import { ColorPalette } from '../types';
+import { PALETTE_COLOR_KEYS, PaletteColorKey, sanitizePalette } from './configSchema';
+
+// The colors the shaders used before palettes, as sRGB hex
+const CLASSIC_STEM = '#3f6c59';
+const CLASSIC_LEAF = '#599589';
+const CLASSIC_FLASH = '#ffe7f3';
+// Vortex glow (its raw shader values, sRGB-encoded)
+const CLASSIC_GLOW: ColorPalette['glow'] = ['#ff7ce7', '#7cffff', '#ffe700'];
+
+// An editable palette that looks like the classic one for this main color (the
+// plant aside: a palette splits the stem -> leaf gradient between stems and leaves)
+export const classicPalette = (color: string): ColorPalette => ({
+  name: 'Classic',
+  petalBase: color,
+  petalTip: color,
+  stem: CLASSIC_STEM,
+  leaf: CLASSIC_LEAF,
+  flash: CLASSIC_FLASH,
+  glow: [...CLASSIC_GLOW],
+});
+
+// Bundled palettes; each also suggests a main (mid petal) color
+export const PALETTE_PRESETS: { color: string; palette: ColorPalette }[] = [
+  {
+    color: '#ff8fb8',
+    palette: {
+      name: 'Sakura',
+      petalBase: '#7a1f4d',
+      petalTip: '#fff0f5',
+      stem: '#4d5e3a',
+      leaf: '#8fae6b',
+      flash: '#ffffff',
+      glow: ['#ff6fa8', '#ffd1e3', '#b77dff'],
+    },
+  },
+  {
+    color: '#ff5a1f',
+    palette: {
+      name: 'Ember',
+      petalBase: '#5c0a00',
+      petalTip: '#ffd36b',
+      stem: '#3a2a1f',
+      leaf: '#7a4b2a',
+      flash: '#fff2c2',
+      glow: ['#ff2a00', '#ffb000', '#ffffff'],
+    },
+  },
+  {
+    color: '#16c2d5',
+    palette: {
+      name: 'Lagoon',
+      petalBase: '#062f5c',
+      petalTip: '#c8fff4',
+      stem: '#1f4e5f',
+      leaf: '#2fa39a',
+      flash: '#e0ffff',
+      glow: ['#00e5ff', '#4d7cff', '#b0fff0'],
+    },
+  },
+  {
+    color: '#5b2bd6',
+    palette: {
+      name: 'Nightshade',
+      petalBase: '#12002e',
+      petalTip: '#e0b3ff',
+      stem: '#1c1733',
+      leaf: '#3d2f6b',
+      flash: '#f3e6ff',
+      glow: ['#9d4dff', '#ff4dd2', '#4dd8ff'],
+    },
+  },
+  {
+    color: '#b5d334',
+    palette: {
+      name: 'Moss',
+      petalBase: '#2f4a12',
+      petalTip: '#f4ffb0',
+      stem: '#2b3d1b',
+      leaf: '#6f8f2f',
+      flash: '#fbffe0',
+      glow: ['#d4ff3d', '#5cff8a', '#fff27a'],
+    },
+  },
+  {
+    color: '#bfbfbf',
+    palette: {
+      name: 'Mono',
+      petalBase: '#262626',
+      petalTip: '#ffffff',
+      stem: '#404040',
+      leaf: '#808080',
+      flash: '#ffffff',
+      glow: ['#ffffff', '#999999', '#4d4d4d'],
+    },
+  },
+];
+
+export const PALETTE_STOP_LABELS: Record<PaletteColorKey, string> = {
+  petalBase: 'Petal Base',
+  petalTip: 'Petal Tip',
+  stem: 'Stem',
+  leaf: 'Leaf',
+  flash: 'Build Flash',
+};
+
+// Scene links: the eight colors without '#', dot-separated, then the name
+export const encodePalette = (palette: ColorPalette) =>
+  [...PALETTE_COLOR_KEYS.map((key) => palette[key]), ...palette.glow].map((hex) => hex.slice(1)).concat(palette.name).join('.');
+
+export const decodePalette = (value: string): ColorPalette | undefined => {
+  const parts = value.split('.');
+  const count = PALETTE_COLOR_KEYS.length;
+  const colors = parts.slice(0, count + 3).map((hex) => `#${hex}`);
+  return (
+    sanitizePalette({
+      ...Object.fromEntries(PALETTE_COLOR_KEYS.map((key, i) => [key, colors[i]])),
+      glow: colors.slice(count),
+      name: parts.slice(count + 3).join('.') || 'Custom',
+    }) ?? undefined
+  );
+};
@@ -0,0 +1,39 @@
+import { ParticleBudget } from '../types';
+import { DEFAULT_COUNTS, ParticleCounts, splitBudget, totalCount } from '../species';
+import { ConfigRange, clampToRange } from './configSchema';
+import { isFiniteNumber, isRecord, loadSettings, saveSettings } from './persistedSettings';
+
+const STORAGE_KEY = 'flora.particleBudget';
+
+// Weights are percentages; the default matches the original 120k/30k/40k split
+export const DEFAULT_PARTICLE_BUDGET: ParticleBudget = {
+  total: totalCount(DEFAULT_COUNTS),
+  head: 63,
+  stem: 16,
+  leaves: 21,
+};
+
+export const BUDGET_RANGES: Record<keyof ParticleBudget, ConfigRange> = {
+  total: { min: 20000, max: 400000, step: 10000 },
+  head: { min: 0, max: 100, step: 1 },
+  stem: { min: 0, max: 100, step: 1 },
+  leaves: { min: 0, max: 100, step: 1 },
+};
+
+// Counts for one of `flowers` flowers sharing the budget
+export const budgetCounts = (budget: ParticleBudget, flowers = 1): ParticleCounts =>
+  splitBudget(Math.floor(budget.total / Math.max(flowers, 1)), budget);
+
+export const sanitizeBudget = (raw: unknown): ParticleBudget => {
+  const budget = { ...DEFAULT_PARTICLE_BUDGET };
+  if (!isRecord(raw)) return budget;
+  (Object.keys(BUDGET_RANGES) as (keyof ParticleBudget)[]).forEach((key) => {
+    const value = raw[key];
+    if (isFiniteNumber(value)) budget[key] = clampToRange(value, BUDGET_RANGES[key]);
+  });
+  return budget;
+};
+
+export const loadBudget = (): ParticleBudget => loadSettings(STORAGE_KEY, sanitizeBudget);
+
+export const saveBudget = (budget: ParticleBudget) => saveSettings(STORAGE_KEY, budget, 'particle budget');
@@ -0,0 +1,26 @@
+// Shared by the settings modules: each keeps one JSON value under a `flora.*`
+// key and runs whatever it reads back through its own sanitizer.
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// A missing or unparseable entry sanitizes from null, i.e. to the defaults
+export const loadSettings = <T>(key: string, sanitize: (raw: unknown) => T): T => {
+  try {
+    return sanitize(JSON.parse(localStorage.getItem(key) || 'null'));
+  } catch {
+    return sanitize(null);
+  }
+};
+
+// `what` names the settings in the warning, e.g. "touch settings"
+export const saveSettings = (key: string, value: unknown, what: string) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.warn(`Could not store ${what}:`, err);
+  }
+};
@@ -0,0 +1,369 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { SpeciesId } from '../types';
+import { SPECIES } from '../species';
+import { ShapeUniforms, Vec3, clamp, hash, mix, smoothstep } from '../species/glsl';
+import { EffectContext, RGB, effectAt } from '../effects';
+import { flyInEase, scanKey } from './construction';
+
+export type PointCloudFormat = 'ply' | 'gltf' | 'xyz';
+
+export const POINT_CLOUD_FORMATS: { id: PointCloudFormat; label: string; extension: string }[] = [
+  { id: 'ply', label: 'PLY', extension: 'ply' },
+  { id: 'gltf', label: 'glTF', extension: 'glb' },
+  { id: 'xyz', label: 'XYZ', extension: 'xyz' },
+];
+
+// Uniforms the flower vertex/fragment shaders read, as currently set on the material
+export interface FlowerUniforms extends ShapeUniforms {
+  distortion: number;
+  // Construction: scan level and mode, fly-in emitters (flower space) and easing
+  scanLevel: number;
+  scanMode: number;
+  emitters: Vec3[];
+  easing: number;
+  color: THREE.Color;
+  // Palette stops around `color`, as shader values
+  petalBase: THREE.Color;
+  petalTip: THREE.Color;
+  stemColor: THREE.Color;
+  leafColor: THREE.Color;
+  flashColor: THREE.Color;
+  // 1 with a palette: stems and leaves each take half of the stem -> leaf gradient
+  splitPlant: number;
+  // Distortion effects by registry index, their mix, parameters and glow colors
+  effectA: number;
+  effectB: number;
+  effectMix: number;
+  effectParamsA: number[];
+  effectParamsB: number[];
+  glowA: RGB[];
+  glowB: RGB[];
+  // Fingertips in the flower's space as [x, y, z, strength], and how they act
+  touches: number[][];
+  touchMode: number;
+  touchRadius: number;
+  touchStrength: number;
+}
+
+export interface PointCloud {
+  count: number;
+  // World-space xyz per point
+  positions: Float32Array;
+  // Display rgb per point, 0..1, as the fragment shader outputs it (before alpha)
+  colors: Float32Array;
+}
+
+// applyTouch on the CPU
+const applyTouch = (pos: Vec3, u: FlowerUniforms): Vec3 => {
+  let { x, y, z } = pos;
+  u.touches.forEach(([tx, ty, tz, strength]) => {
+    const dx = x - tx;
+    const dy = y - ty;
+    const dz = z - tz;
+    const dist = Math.hypot(dx, dy, dz);
+    const falloff = strength * (1 - smoothstep(0, u.touchRadius, dist));
+    if (falloff <= 0) return;
+    const inv = 1 / Math.max(dist, 0.0001);
+    if (u.touchMode < 0.5) {
+      const push = falloff * u.touchStrength * inv;
+      x += dx * push;
+      y += dy * push;
+      z += dz * push;
+    } else if (u.touchMode < 1.5) {
+      const pull = Math.min(falloff * u.touchStrength, dist) * inv;
+      x -= dx * pull;
+      y -= dy * pull;
+      z -= dz * pull;
+    } else {
+      const angle = falloff * u.touchStrength * (1.5 + 0.3 * Math.sin(u.time * 3 + dist * 4));
+      const c = Math.cos(angle);
+      const s = Math.sin(angle);
+      x = tx + dx * c - dz * s;
+      z = tz + dx * s + dz * c;
+    }
+  });
+  return { x, y, z };
+};
+
+export interface DeformedPoint {
+  position: Vec3;
+  displacement: number;
+  // Construction progress (vProgress); the fragment shader discards below 0.01
+  activation: number;
+}
+
+/**
+ * CPU port of the flower vertex shader's main(): head displacement, the
+ * distortion effects, stem/leaf wind, fingertip touch and the construction fly-in.
+ */
+export const deformPoint = (
+  species: SpeciesId,
+  position: Vec3,
+  direction: Vec3,
+  random: number,
+  type: number,
+  u: FlowerUniforms
+): DeformedPoint => {
+  const t = u.time;
+  const d = u.distortion;
+  let { x, y, z } = position;
+  let disp = 0;
+  const ctxA: EffectContext = { time: t, distortion: d, random, params: u.effectParamsA };
+  const ctxB: EffectContext = { time: t, distortion: d, random, params: u.effectParamsB };
+  const mixPoints = (a: Vec3, b: Vec3) => {
+    x = mix(a.x, b.x, u.effectMix);
+    y = mix(a.y, b.y, u.effectMix);
+    z = mix(a.z, b.z, u.effectMix);
+  };
+
+  if (type < 0.5) {
+    // === FLOWER HEAD ===
+    const shape = SPECIES[species].headShape(position, direction, u);
+    const normal = shape.normal;
+    disp = shape.displacement;
+    x += normal.x * disp;
+    y += normal.y * disp;
+    z += normal.z * disp;
+    x += Math.sin(t * 0.3) * 0.1;
+
+    if (d > 0.01) {
+      const pos = { x, y, z };
+      const a = effectAt(u.effectA).head(pos, normal, ctxA);
+      mixPoints(a, u.effectMix > 0 ? effectAt(u.effectB).head(pos, normal, ctxB) : a);
+    }
+  } else {
+    // === STEM & LEAVES ===
+    const bendFactor = Math.pow((y + 6) / 6, 2);
+    x += Math.sin(t * 0.4) * 0.2 * bendFactor;
+    z += Math.cos(t * 0.3) * 0.1 * bendFactor;
+    if (type > 1.5) {
+      const rustle = Math.sin(t * 0.8 + y) * 0.02;
+      x += direction.x * rustle;
+      y += direction.y * rustle;
+      z += direction.z * rustle;
+    }
+
+    if (d > 0.01) {
+      const pos = { x, y, z };
+      const a = effectAt(u.effectA).body(pos, direction, type, bendFactor, ctxA);
+      mixPoints(a, u.effectMix > 0 ? effectAt(u.effectB).body(pos, direction, type, bendFactor, ctxB) : a);
+    }
+  }
+
+  ({ x, y, z } = applyTouch({ x, y, z }, u));
+
+  // --- Construction: fly in from an emitter as the scan passes the point ---
+  const activation = smoothstep(-1, 1, scanKey(u.scanMode, { x, y, z }, random) - u.scanLevel + (random - 0.5) * 2);
+  const emitters = u.emitters.length ? u.emitters : [{ x: 0, y: 0, z: 0 }];
+  const corner = emitters[Math.min(emitters.length - 1, Math.floor(random * emitters.length))];
+  const cx = corner.x + (hash(random, 0.1) - 0.5) * 0.5;
+  const cy = corner.y + (hash(random, 0.2) - 0.5) * 0.5;
+  const cz = corner.z + (hash(random, 0.3) - 0.5) * 0.5;
+  const ease = flyInEase(u.easing, activation);
+
+  return {
+    position: { x: mix(cx, x, ease), y: mix(cy, y, ease), z: mix(cz, z, ease) },
+    displacement: disp,
+    activation,
+  };
+};
+
+// CPU port of the fragment shader's color (alpha and point shape left out)
+export const pointColor = (point: DeformedPoint, random: number, type: number, u: FlowerUniforms): [number, number, number] => {
+  let r: number, g: number, b: number;
+  if (type < 0.5) {
+    const f = smoothstep(-0.1, 0.4, point.displacement);
+    const [from, fromScale, to, toScale, t] =
+      f < 0.5 ? [u.petalBase, 0.4, u.color, 1.1, f * 2] : [u.color, 1.1, u.petalTip, 1.8, f * 2 - 1];
+    const variation = 0.8 + 0.4 * random;
+    r = mix(from.r * fromScale, to.r * toScale, t) * variation;
+    g = mix(from.g * fromScale, to.g * toScale, t) * variation;
+    b = mix(from.b * fromScale, to.b * toScale, t) * variation;
+  } else {
+    const shade = random * 0.8 + 0.2;
+    const f = u.splitPlant > 0.5 ? (type < 1.5 ? shade * 0.5 : 0.5 + shade * 0.5) : shade;
+    r = mix(u.stemColor.r, u.leafColor.r, f);
+    g = mix(u.stemColor.g, u.leafColor.g, f);
+    b = mix(u.stemColor.b, u.leafColor.b, f);
+    if (type > 1.5 && point.position.y > -2) {
+      r *= 1.2;
+      g *= 1.2;
+      b *= 1.2;
+    }
+  }
+
+  // Laser sintering flash on freshly built points
+  const heat = smoothstep(0.4, 0, point.activation);
+  r = mix(r, u.flashColor.r * 4, heat);
+  g = mix(g, u.flashColor.g * 4, heat);
+  b = mix(b, u.flashColor.b * 4, heat);
+
+  if (u.distortion > 0.01) {
+    const ctx = (params: number[]): EffectContext => ({ time: u.time, distortion: u.distortion, random, params });
+    const color: RGB = [r, g, b];
+    const a = effectAt(u.effectA).glow(color, point.position, ctx(u.effectParamsA), u.glowA);
+    const c = u.effectMix > 0 ? effectAt(u.effectB).glow(color, point.position, ctx(u.effectParamsB), u.glowB) : a;
+    [r, g, b] = [0, 1, 2].map((i) => mix(a[i], c[i], u.effectMix));
+  }
+
+  return [clamp(r, 0, 1), clamp(g, 0, 1), clamp(b, 0, 1)];
+};
+
+const readUniforms = (material: THREE.ShaderMaterial): FlowerUniforms => {
+  const value = (name: string) => material.uniforms[name]?.value ?? 0;
+  return {
+    time: value('uTime'),
+    petalCount: value('uPetalCount'),
+    twist: value('uTwist'),
+    openness: value('uOpenness'),
+    detail: value('uDetail'),
+    centerSize: value('uCenterSize'),
+    distortion: value('uDistortion'),
+    scanLevel: value('uScanLevel'),
+    scanMode: value('uScanMode'),
+    emitters: (material.uniforms.uEmitters?.value ?? [])
+      .slice(0, value('uEmitterCount'))
+      .map((emitter: THREE.Vector3) => ({ x: emitter.x, y: emitter.y, z: emitter.z })),
+    easing: value('uEasing'),
+    color: material.uniforms.uColor?.value ?? new THREE.Color(),
+    petalBase: material.uniforms.uPetalBase?.value ?? new THREE.Color(),
+    petalTip: material.uniforms.uPetalTip?.value ?? new THREE.Color(),
+    stemColor: material.uniforms.uStemColor?.value ?? new THREE.Color(),
+    leafColor: material.uniforms.uLeafColor?.value ?? new THREE.Color(),
+    flashColor: material.uniforms.uFlashColor?.value ?? new THREE.Color(),
+    splitPlant: value('uSplitPlant'),
+    effectA: value('uEffectA'),
+    effectB: value('uEffectB'),
+    effectMix: value('uEffectMix'),
+    effectParamsA: material.uniforms.uEffectParamsA?.value.toArray() ?? [0, 0, 0, 0],
+    effectParamsB: material.uniforms.uEffectParamsB?.value.toArray() ?? [0, 0, 0, 0],
+    glowA: (material.uniforms.uGlowA?.value ?? []).map((color: THREE.Color) => color.toArray() as RGB),
+    glowB: (material.uniforms.uGlowB?.value ?? []).map((color: THREE.Color) => color.toArray() as RGB),
+    touches: (material.uniforms.uTouch?.value ?? []).map((touch: THREE.Vector4) => touch.toArray()),
+    touchMode: value('uTouchMode'),
+    touchRadius: value('uTouchRadius'),
+    touchStrength: value('uTouchStrength'),
+  };
+};
+
+/**
+ * Evaluates every flower in the scene the way the shaders draw it right now,
+ * in world space. Unbuilt points (discarded on screen) are left out; the full
+ * buffer is used regardless of the quality tier's draw range.
+ */
+export const collectPointCloud = (scene: THREE.Object3D): PointCloud => {
+  const flowers: THREE.Points[] = [];
+  scene.traverse((object) => {
+    if (object instanceof THREE.Points && object.userData.species) flowers.push(object);
+  });
+
+  const capacity = flowers.reduce((sum, points) => sum + (points.geometry.userData.pointCount ?? 0), 0);
+  const positions = new Float32Array(capacity * 3);
+  const colors = new Float32Array(capacity * 3);
+  const world = new THREE.Vector3();
+  let count = 0;
+
+  flowers.forEach((points) => {
+    points.updateWorldMatrix(true, false);
+    const species = points.userData.species as SpeciesId;
+    const uniforms = readUniforms(points.material as THREE.ShaderMaterial);
+    const geometry = points.geometry;
+    const position = geometry.getAttribute('position');
+    const direction = geometry.getAttribute('aDirection');
+    const random = geometry.getAttribute('aRandom');
+    const type = geometry.getAttribute('aType');
+    const total = geometry.userData.pointCount ?? 0;
+
+    for (let i = 0; i < total; i++) {
+      const rnd = random.getX(i);
+      const kind = type.getX(i);
+      const point = deformPoint(
+        species,
+        { x: position.getX(i), y: position.getY(i), z: position.getZ(i) },
+        { x: direction.getX(i), y: direction.getY(i), z: direction.getZ(i) },
+        rnd,
+        kind,
+        uniforms
+      );
+      if (point.activation < 0.01) continue;
+
+      world.set(point.position.x, point.position.y, point.position.z).applyMatrix4(points.matrixWorld);
+      positions.set([world.x, world.y, world.z], count * 3);
+      colors.set(pointColor(point, rnd, kind, uniforms), count * 3);
+      count++;
+    }
+  });
+
+  return { count, positions: positions.subarray(0, count * 3), colors: colors.subarray(0, count * 3) };
+};
+
+// Binary little-endian PLY with float xyz and 8-bit rgb
+export const toPLY = (cloud: PointCloud): Blob => {
+  const header = [
+    'ply',
+    'format binary_little_endian 1.0',
+    'comment Digital Flora point cloud',
+    `element vertex ${cloud.count}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    'property uchar red',
+    'property uchar green',
+    'property uchar blue',
+    'end_header',
+    '',
+  ].join('\n');
+
+  const stride = 15;
+  const body = new DataView(new ArrayBuffer(cloud.count * stride));
+  for (let i = 0; i < cloud.count; i++) {
+    const offset = i * stride;
+    body.setFloat32(offset, cloud.positions[i * 3], true);
+    body.setFloat32(offset + 4, cloud.positions[i * 3 + 1], true);
+    body.setFloat32(offset + 8, cloud.positions[i * 3 + 2], true);
+    body.setUint8(offset + 12, Math.round(cloud.colors[i * 3] * 255));
+    body.setUint8(offset + 13, Math.round(cloud.colors[i * 3 + 1] * 255));
+    body.setUint8(offset + 14, Math.round(cloud.colors[i * 3 + 2] * 255));
+  }
+  return new Blob([header, body], { type: 'application/octet-stream' });
+};
+
+export const toXYZ = (cloud: PointCloud): Blob => {
+  const lines: string[] = new Array(cloud.count);
+  for (let i = 0; i < cloud.count; i++) {
+    const p = cloud.positions;
+    lines[i] = `${p[i * 3].toFixed(5)} ${p[i * 3 + 1].toFixed(5)} ${p[i * 3 + 2].toFixed(5)}`;
+  }
+  return new Blob([lines.join('\n'), '\n'], { type: 'text/plain' });
+};
+
+// Binary glTF with a single POINTS primitive and COLOR_0
+export const toGLTF = async (cloud: PointCloud): Promise<Blob> => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(cloud.positions, 3));
+  // glTF vertex colors are linear; the shader's output is what the screen shows as sRGB
+  const linear = new Float32Array(cloud.colors.length);
+  const color = new THREE.Color();
+  for (let i = 0; i < cloud.count; i++) {
+    color.setRGB(cloud.colors[i * 3], cloud.colors[i * 3 + 1], cloud.colors[i * 3 + 2], THREE.SRGBColorSpace);
+    linear.set([color.r, color.g, color.b], i * 3);
+  }
+  geometry.setAttribute('color', new THREE.BufferAttribute(linear, 3));
+
+  const points = new THREE.Points(geometry, new THREE.PointsMaterial({ vertexColors: true, size: 0.02 }));
+  points.name = 'DigitalFlora';
+  try {
+    const glb = await new GLTFExporter().parseAsync(points, { binary: true });
+    return new Blob([glb as ArrayBuffer], { type: 'model/gltf-binary' });
+  } finally {
+    geometry.dispose();
+    (points.material as THREE.Material).dispose();
+  }
+};
+
+export const exportPointCloud = async (cloud: PointCloud, format: PointCloudFormat): Promise<Blob> => {
+  if (format === 'ply') return toPLY(cloud);
+  if (format === 'xyz') return toXYZ(cloud);
+  return toGLTF(cloud);
+};
@@ -0,0 +1,247 @@
+import { ControlLevels, growthToAnchorY, stepDistortion, stepGrowth } from './handController';
+import { Point2 } from './gestures';
+
+export interface PointerInputOptions {
+  // Hold still this long (ms) to start distorting
+  longPressMs: number;
+  // Movement (px) that cancels a pending long-press
+  longPressSlop: number;
+  // Wheel pixels -> normalized anchor travel
+  wheelSensitivity: number;
+  // How long after the last wheel tick the wheel counts as released
+  wheelReleaseMs: number;
+  // Anchor travel per second while an arrow key is held
+  keySpeed: number;
+  // Keys that distort while held (lowercase)
+  distortKeys: string[];
+}
+
+export const DEFAULT_POINTER_OPTIONS: PointerInputOptions = {
+  longPressMs: 500,
+  longPressSlop: 10,
+  wheelSensitivity: 0.0015,
+  wheelReleaseMs: 200,
+  keySpeed: 0.6,
+  distortKeys: [' ', 'd'],
+};
+
+export interface PointerFrame extends ControlLevels {
+  constructing: boolean;
+  distorting: boolean;
+  // Last pointer position in normalized element space, if any
+  position: Point2 | null;
+}
+
+// Elements that keep their own pointer behavior
+const INTERACTIVE = 'button, input, label, select, textarea, a';
+
+/**
+ * Mouse, touch and keyboard stand-in for the hand controller. Feeds the same
+ * growth/distortion steps so drag-to-build and auto-snap feel identical.
+ *
+ * - Drag vertically / scroll wheel / arrow keys: construct
+ * - Right-drag / long-press / hold Space or D: distort
+ * - Touch: one finger constructs, two fingers distort
+ */
+export class PointerInput {
+  readonly options: PointerInputOptions;
+  private element: HTMLElement | null = null;
+  private pointers = new Map<number, { x: number; y: number; startX: number; startY: number; button: number }>();
+  private dragY: number | null = null;
+  private lastPosition: Point2 | null = null;
+  private rightDrag = false;
+  private longPress = false;
+  private longPressTimer: ReturnType<typeof setTimeout> | null = null;
+  private heldKeys = new Set<string>();
+  private virtualY: number | null = null;
+  private wheelDelta = 0;
+  private lastWheel = -Infinity;
+  private lastStep: number | null = null;
+
+  constructor(options: Partial<PointerInputOptions> = {}) {
+    this.options = { ...DEFAULT_POINTER_OPTIONS, ...options };
+  }
+
+  attach(element: HTMLElement): () => void {
+    this.element = element;
+    element.addEventListener('pointerdown', this.onPointerDown);
+    element.addEventListener('contextmenu', this.onContextMenu);
+    element.addEventListener('wheel', this.onWheel, { passive: false });
+    window.addEventListener('pointermove', this.onPointerMove);
+    window.addEventListener('pointerup', this.onPointerUp);
+    window.addEventListener('pointercancel', this.onPointerUp);
+    window.addEventListener('keydown', this.onKeyDown);
+    window.addEventListener('keyup', this.onKeyUp);
+    window.addEventListener('blur', this.onBlur);
+
+    return () => {
+      element.removeEventListener('pointerdown', this.onPointerDown);
+      element.removeEventListener('contextmenu', this.onContextMenu);
+      element.removeEventListener('wheel', this.onWheel);
+      window.removeEventListener('pointermove', this.onPointerMove);
+      window.removeEventListener('pointerup', this.onPointerUp);
+      window.removeEventListener('pointercancel', this.onPointerUp);
+      window.removeEventListener('keydown', this.onKeyDown);
+      window.removeEventListener('keyup', this.onKeyUp);
+      window.removeEventListener('blur', this.onBlur);
+      this.onBlur();
+      this.element = null;
+    };
+  }
+
+  step(levels: ControlLevels): PointerFrame {
+    const now = performance.now();
+    // Same time-based easing as the hand controller, whatever the display rate
+    const deltaMs = this.lastStep === null ? 1000 / 60 : Math.min(100, now - this.lastStep);
+    this.lastStep = now;
+    const touches = [...this.pointers.values()];
+
+    // --- Distortion sources ---
+    const twoFinger = touches.length >= 2;
+    const distortKey = this.options.distortKeys.some((key) => this.heldKeys.has(key));
+    const distorting = this.rightDrag || this.longPress || twoFinger || distortKey;
+
+    // --- Construction sources ---
+    let anchorY: number | null = null;
+    if (this.dragY !== null && !distorting) {
+      anchorY = this.dragY;
+      this.virtualY = null;
+    } else {
+      const arrow = (this.heldKeys.has('ArrowDown') ? 1 : 0) - (this.heldKeys.has('ArrowUp') ? 1 : 0);
+      const wheeling = now - this.lastWheel < this.options.wheelReleaseMs;
+      if (arrow !== 0 || wheeling) {
+        // Wheel and keys nudge a virtual anchor that starts at the current growth
+        if (this.virtualY === null) this.virtualY = growthToAnchorY(levels.growth);
+        this.virtualY += arrow * this.options.keySpeed * (deltaMs / 1000) + this.wheelDelta;
+        this.virtualY = Math.max(0, Math.min(1, this.virtualY));
+        anchorY = this.virtualY;
+      } else {
+        this.virtualY = null;
+      }
+    }
+    this.wheelDelta = 0;
+
+    const constructing = anchorY !== null;
+    return {
+      growth: stepGrowth(levels.growth, constructing, anchorY ?? 0, deltaMs),
+      distortion: stepDistortion(levels.distortion, distorting, deltaMs),
+      constructing,
+      distorting,
+      position: this.lastPosition,
+    };
+  }
+
+  private normalizedY(clientY: number) {
+    if (!this.element) return 0.5;
+    const rect = this.element.getBoundingClientRect();
+    return (clientY - rect.top) / Math.max(rect.height, 1);
+  }
+
+  private trackPosition(e: PointerEvent) {
+    if (!this.element) return;
+    const rect = this.element.getBoundingClientRect();
+    this.lastPosition = {
+      x: (e.clientX - rect.left) / Math.max(rect.width, 1),
+      y: (e.clientY - rect.top) / Math.max(rect.height, 1),
+    };
+  }
+
+  private clearLongPress() {
+    if (this.longPressTimer) clearTimeout(this.longPressTimer);
+    this.longPressTimer = null;
+  }
+
+  private onPointerDown = (e: PointerEvent) => {
+    if ((e.target as Element | null)?.closest(INTERACTIVE)) return;
+    this.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY, startX: e.clientX, startY: e.clientY, button: e.button });
+    this.trackPosition(e);
+
+    if (e.button === 2) {
+      this.rightDrag = true;
+      return;
+    }
+    if (this.pointers.size === 1) {
+      this.dragY = this.normalizedY(e.clientY);
+      this.clearLongPress();
+      this.longPressTimer = setTimeout(() => {
+        this.longPress = true;
+        this.dragY = null;
+      }, this.options.longPressMs);
+    } else {
+      // A second finger turns the gesture into a distortion
+      this.clearLongPress();
+      this.dragY = null;
+    }
+  };
+
+  private onPointerMove = (e: PointerEvent) => {
+    const pointer = this.pointers.get(e.pointerId);
+    if (!pointer) return;
+    pointer.x = e.clientX;
+    pointer.y = e.clientY;
+    this.trackPosition(e);
+
+    const moved = Math.hypot(pointer.x - pointer.startX, pointer.y - pointer.startY);
+    if (moved > this.options.longPressSlop) this.clearLongPress();
+
+    if (pointer.button !== 2 && this.pointers.size === 1 && !this.longPress) {
+      this.dragY = this.normalizedY(e.clientY);
+    }
+  };
+
+  private onPointerUp = (e: PointerEvent) => {
+    const pointer = this.pointers.get(e.pointerId);
+    if (!pointer) return;
+    this.pointers.delete(e.pointerId);
+    if (pointer.button === 2) this.rightDrag = false;
+    if (this.pointers.size === 0) {
+      this.clearLongPress();
+      this.longPress = false;
+      this.dragY = null;
+    }
+  };
+
+  private onContextMenu = (e: Event) => {
+    e.preventDefault();
+  };
+
+  private onWheel = (e: WheelEvent) => {
+    e.preventDefault();
+    this.wheelDelta += e.deltaY * this.options.wheelSensitivity;
+    this.lastWheel = performance.now();
+  };
+
+  // Shift can change e.key between keydown and keyup, so compare lowercase
+  private keyName(e: KeyboardEvent) {
+    return e.key.length === 1 ? e.key.toLowerCase() : e.key;
+  }
+
+  // Only keys aimed at the scene or at nothing in particular; a focused button,
+  // link or field keeps Space, arrows and the rest for itself
+  private ownsKey(target: EventTarget | null) {
+    if (target === document.body) return true;
+    return target instanceof Node && !!this.element?.contains(target);
+  }
+
+  private onKeyDown = (e: KeyboardEvent) => {
+    if (!this.ownsKey(e.target)) return;
+    const key = this.keyName(e);
+    const tracked = key === 'ArrowUp' || key === 'ArrowDown' || this.options.distortKeys.includes(key);
+    if (!tracked) return;
+    e.preventDefault();
+    this.heldKeys.add(key);
+  };
+
+  private onKeyUp = (e: KeyboardEvent) => {
+    this.heldKeys.delete(this.keyName(e));
+  };
+
+  private onBlur = () => {
+    this.pointers.clear();
+    this.heldKeys.clear();
+    this.clearLongPress();
+    this.rightDrag = false;
+    this.longPress = false;
+    this.dragY = null;
+  };
+}
@@ -0,0 +1,288 @@
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { PostEffectId, PostEffectSetting, PostProcessingSettings } from '../types';
+import { ConfigRange, clampToRange } from './configSchema';
+import { isFiniteNumber, isRecord, loadSettings, saveSettings } from './persistedSettings';
+
+const STORAGE_KEY = 'flora.postfx';
+
+// Objects on this layer (flower points and laser beams) are the only ones that bloom
+export const BLOOM_LAYER = 1;
+// Layer mask for bloomed objects: drawn normally and into the bloom pass
+export const BLOOM_LAYERS = new THREE.Layers();
+BLOOM_LAYERS.enable(BLOOM_LAYER);
+
+const BLOOM_ONLY = new THREE.Layers();
+BLOOM_ONLY.set(BLOOM_LAYER);
+
+interface PostEffectDef {
+  id: PostEffectId;
+  label: string;
+  // What the intensity slider means for this effect
+  intensityLabel: string;
+  range: ConfigRange;
+  defaults: PostEffectSetting;
+}
+
+// In the order they are applied
+export const POST_EFFECTS: PostEffectDef[] = [
+  { id: 'bloom', label: 'Bloom', intensityLabel: 'Strength', range: { min: 0, max: 3, step: 0.05 }, defaults: { enabled: true, intensity: 1.2 } },
+  // Both scale with the distortion level, so they only show while distorting
+  { id: 'aberration', label: 'Chromatic Aberration', intensityLabel: 'Amount', range: { min: 0, max: 2, step: 0.05 }, defaults: { enabled: true, intensity: 1 } },
+  { id: 'rgbSplit', label: 'RGB Split', intensityLabel: 'Amount', range: { min: 0, max: 2, step: 0.05 }, defaults: { enabled: true, intensity: 1 } },
+  { id: 'toneMapping', label: 'Tone Mapping', intensityLabel: 'Exposure', range: { min: 0.2, max: 3, step: 0.05 }, defaults: { enabled: true, intensity: 1 } },
+  { id: 'scanlines', label: 'Scanlines', intensityLabel: 'Amount', range: { min: 0, max: 1, step: 0.01 }, defaults: { enabled: false, intensity: 0.35 } },
+  { id: 'grain', label: 'Film Grain', intensityLabel: 'Amount', range: { min: 0, max: 1, step: 0.01 }, defaults: { enabled: false, intensity: 0.3 } },
+  { id: 'vignette', label: 'Vignette', intensityLabel: 'Amount', range: { min: 0, max: 1, step: 0.01 }, defaults: { enabled: true, intensity: 0.5 } },
+];
+
+export const DEFAULT_POST_PROCESSING_SETTINGS: PostProcessingSettings = {
+  enabled: true,
+  effects: Object.fromEntries(POST_EFFECTS.map((effect) => [effect.id, { ...effect.defaults }])) as PostProcessingSettings['effects'],
+};
+
+export const sanitizePostProcessing = (raw: unknown): PostProcessingSettings => {
+  const settings: PostProcessingSettings = {
+    enabled: DEFAULT_POST_PROCESSING_SETTINGS.enabled,
+    effects: { ...DEFAULT_POST_PROCESSING_SETTINGS.effects },
+  };
+  if (!isRecord(raw)) return settings;
+  if (typeof raw.enabled === 'boolean') settings.enabled = raw.enabled;
+  const effects = isRecord(raw.effects) ? raw.effects : {};
+  POST_EFFECTS.forEach(({ id, range, defaults }) => {
+    const effect = effects[id];
+    if (!isRecord(effect)) return;
+    settings.effects[id] = {
+      enabled: typeof effect.enabled === 'boolean' ? effect.enabled : defaults.enabled,
+      intensity: isFiniteNumber(effect.intensity) ? clampToRange(effect.intensity, range) : defaults.intensity,
+    };
+  });
+  return settings;
+};
+
+export const loadPostProcessing = (): PostProcessingSettings => loadSettings(STORAGE_KEY, sanitizePostProcessing);
+
+export const savePostProcessing = (settings: PostProcessingSettings) =>
+  saveSettings(STORAGE_KEY, settings, 'post-processing settings');
+
+// Whether the stack has anything to do at all
+export const postProcessingActive = (settings: PostProcessingSettings) =>
+  settings.enabled && POST_EFFECTS.some((effect) => settings.effects[effect.id].enabled);
+
+// Adds the bloom, then the screen effects. The flower shaders write display
+// values directly, so with tone mapping off the scene reads as it does without post.
+const FinishShader = {
+  uniforms: {
+    tDiffuse: { value: null as THREE.Texture | null },
+    tBloom: { value: null as THREE.Texture | null },
+    uBloom: { value: 0 },
+    uAberration: { value: 0 },
+    uSplit: { value: 0 },
+    uToneMapping: { value: 0 },
+    uExposure: { value: 1 },
+    uScanlines: { value: 0 },
+    uGrain: { value: 0 },
+    uVignette: { value: 0 },
+    uTime: { value: 0 },
+    // Output size in device pixels; for a tile, the size of the whole image
+    uResolution: { value: new THREE.Vector2(1, 1) },
+    // Where this render sits in the whole image (uv offset xy, size zw)
+    uView: { value: new THREE.Vector4(0, 0, 1, 1) },
+  },
+  vertexShader: `
+    varying vec2 vUv;
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  fragmentShader: `
+    uniform sampler2D tDiffuse;
+    uniform sampler2D tBloom;
+    uniform float uBloom;
+    uniform float uAberration;
+    uniform float uSplit;
+    uniform float uToneMapping;
+    uniform float uExposure;
+    uniform float uScanlines;
+    uniform float uGrain;
+    uniform float uVignette;
+    uniform float uTime;
+    uniform vec2 uResolution;
+    uniform vec4 uView;
+    varying vec2 vUv;
+
+    float hash(vec2 p) {
+      return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+    }
+
+    vec3 scene(vec2 uv) {
+      return texture2D(tDiffuse, uv).rgb + texture2D(tBloom, uv).rgb * uBloom;
+    }
+
+    // Narkowicz's ACES fit
+    vec3 aces(vec3 x) {
+      return clamp((x * (2.51 * x + 0.03)) / (x * (2.43 * x + 0.59) + 0.14), 0.0, 1.0);
+    }
+
+    void main() {
+      vec2 uv = vUv;
+      // Screen effects are laid out over the whole image, so tiles line up
+      vec2 imageUv = uView.xy + vUv * uView.zw;
+
+      // Chromatic aberration: red and blue pulled apart toward the edges
+      vec2 offset = (imageUv - 0.5) * uAberration * 0.02 / uView.zw;
+
+      // RGB split: a constant channel shift plus torn horizontal bands that jump
+      // several times a second, more of them the stronger the distortion
+      float band = floor(imageUv.y * 24.0);
+      float tick = floor(uTime * 12.0);
+      float torn = step(1.0 - uSplit * 0.35, hash(vec2(band, tick)));
+      float shift = (uSplit * 0.004 + torn * (hash(vec2(tick, band)) - 0.5) * 0.08 * uSplit) / uView.z;
+      uv.x += torn * (hash(vec2(band + 7.0, tick)) - 0.5) * 0.03 * uSplit / uView.z;
+
+      vec3 color = vec3(
+        scene(uv + offset + vec2(shift, 0.0)).r,
+        scene(uv).g,
+        scene(uv - offset - vec2(shift, 0.0)).b
+      );
+
+      if (uToneMapping > 0.5) color = aces(color * uExposure);
+
+      // Scanlines every other device pixel, like the HUD overlay
+      color *= 1.0 - uScanlines * 0.5 * (0.5 + 0.5 * sin(imageUv.y * uResolution.y * 3.14159));
+
+      color += (hash(imageUv * uResolution + fract(uTime) * 100.0) - 0.5) * uGrain * 0.15;
+
+      float edge = length(imageUv - 0.5) * 1.414;
+      color *= mix(1.0, smoothstep(1.2, 0.3, edge), uVignette);
+
+      gl_FragColor = vec4(color, 1.0);
+    }
+  `,
+};
+
+// The post stack the render loop draws through, bound to its current settings,
+// so one-off renders (stills) come out like the live frame
+export interface ActivePostProcessor {
+  processor: PostProcessor;
+  render: (scene: THREE.Scene, camera: THREE.Camera) => void;
+}
+
+export interface PostLevels {
+  // 0..1; drives the aberration and RGB split
+  distortion: number;
+  time: number;
+}
+
+/**
+ * Renders the scene through the post stack. Bloom is selective: objects on
+ * BLOOM_LAYER are drawn alone into a bloom composer and left out of the base
+ * pass, then the finish pass adds the two and applies the screen effects.
+ */
+export class PostProcessor {
+  private composer: EffectComposer;
+  private bloomComposer: EffectComposer;
+  private renderPass: RenderPass;
+  private bloomRenderPass: RenderPass;
+  private bloomPass: UnrealBloomPass;
+  private finishPass: ShaderPass;
+  private hidden: THREE.Object3D[] = [];
+
+  constructor(renderer: THREE.WebGLRenderer) {
+    // Half float keeps the additive glow above 1 until tone mapping; MSAA replaces the canvas antialiasing
+    const target = () => new THREE.WebGLRenderTarget(1, 1, { type: THREE.HalfFloatType, samples: 4 });
+    const camera = new THREE.PerspectiveCamera();
+    const scene = new THREE.Scene();
+
+    this.bloomComposer = new EffectComposer(renderer, target());
+    this.bloomComposer.renderToScreen = false;
+    this.bloomRenderPass = new RenderPass(scene, camera);
+    this.bloomPass = new UnrealBloomPass(new THREE.Vector2(1, 1), 1, 0.4, 0.1);
+    this.bloomComposer.addPass(this.bloomRenderPass);
+    this.bloomComposer.addPass(this.bloomPass);
+
+    this.composer = new EffectComposer(renderer, target());
+    this.renderPass = new RenderPass(scene, camera);
+    this.finishPass = new ShaderPass(FinishShader);
+    this.composer.addPass(this.renderPass);
+    this.composer.addPass(this.finishPass);
+  }
+
+  setSize(width: number, height: number, pixelRatio: number) {
+    [this.composer, this.bloomComposer].forEach((composer) => {
+      composer.setPixelRatio(pixelRatio);
+      composer.setSize(width, height);
+    });
+    this.finishPass.uniforms.uResolution.value.set(width * pixelRatio, height * pixelRatio);
+    this.finishPass.uniforms.uView.value.set(0, 0, 1, 1);
+  }
+
+  /**
+   * Marks the next renders as one tile (x, y from the top left, in pixels) of
+   * a larger image, as set up with camera.setViewOffset. Call after setSize.
+   * The screen effects then line up across tiles; bloom only spreads within a tile.
+   */
+  setView(fullWidth: number, fullHeight: number, x: number, y: number, width: number, height: number) {
+    this.finishPass.uniforms.uResolution.value.set(fullWidth, fullHeight);
+    this.finishPass.uniforms.uView.value.set(x / fullWidth, 1 - (y + height) / fullHeight, width / fullWidth, height / fullHeight);
+  }
+
+  render(scene: THREE.Scene, camera: THREE.Camera, settings: PostProcessingSettings, levels: PostLevels, delta: number) {
+    const level = (id: PostEffectId) => (settings.effects[id].enabled ? settings.effects[id].intensity : 0);
+    const uniforms = this.finishPass.uniforms;
+    const bloom = level('bloom');
+
+    if (bloom > 0) {
+      // Bloom layer alone, on black
+      const background = scene.background;
+      const mask = camera.layers.mask;
+      scene.background = null;
+      camera.layers.set(BLOOM_LAYER);
+      this.bloomRenderPass.scene = scene;
+      this.bloomRenderPass.camera = camera;
+      this.bloomPass.strength = bloom;
+      this.bloomComposer.render(delta);
+      scene.background = background;
+      camera.layers.mask = mask;
+
+      // The bloom composer already holds the bloomed objects themselves
+      scene.traverse((object) => {
+        if (object.visible && object.layers.test(BLOOM_ONLY)) {
+          object.visible = false;
+          this.hidden.push(object);
+        }
+      });
+    }
+
+    uniforms.tBloom.value = this.bloomComposer.readBuffer.texture;
+    uniforms.uBloom.value = bloom > 0 ? 1 : 0;
+    uniforms.uAberration.value = level('aberration') * levels.distortion;
+    uniforms.uSplit.value = level('rgbSplit') * levels.distortion;
+    uniforms.uToneMapping.value = settings.effects.toneMapping.enabled ? 1 : 0;
+    uniforms.uExposure.value = settings.effects.toneMapping.intensity;
+    uniforms.uScanlines.value = level('scanlines');
+    uniforms.uGrain.value = level('grain');
+    uniforms.uVignette.value = level('vignette');
+    uniforms.uTime.value = levels.time;
+
+    this.renderPass.scene = scene;
+    this.renderPass.camera = camera;
+    this.composer.render(delta);
+
+    this.hidden.forEach((object) => {
+      object.visible = true;
+    });
+    this.hidden.length = 0;
+  }
+
+  dispose() {
+    this.bloomPass.dispose();
+    this.finishPass.dispose();
+    this.composer.dispose();
+    this.bloomComposer.dispose();
+  }
+}
@@ -0,0 +1,59 @@
+import { ConfigPreset, RoseConfig } from '../types';
+import { isSpeciesId } from '../species';
+import { CONFIG_RANGES, NumericKey, clampConfig, sanitizePalette } from './configSchema';
+import { isFiniteNumber, isRecord, loadSettings, saveSettings } from './persistedSettings';
+
+const STORAGE_KEY = 'flora.presets';
+export const PRESET_FILE_FORMAT = 'digital-flora-presets';
+export const PRESET_FILE_VERSION = 1;
+
+export const createPresetId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Fill anything missing or mistyped from the fallback so old/foreign files still load
+export const sanitizeConfig = (raw: unknown, fallback: RoseConfig): RoseConfig => {
+  const config = { ...fallback };
+  if (!isRecord(raw)) return config;
+  (Object.keys(CONFIG_RANGES) as NumericKey[]).forEach((key) => {
+    const value = raw[key];
+    if (isFiniteNumber(value)) config[key] = value;
+  });
+  if (typeof raw.color === 'string') config.color = raw.color;
+  if (isSpeciesId(raw.species)) config.species = raw.species;
+  const palette = sanitizePalette(raw.palette);
+  if (palette !== undefined) config.palette = palette;
+  return clampConfig(config, fallback);
+};
+
+const sanitizePresets = (raw: unknown, fallback: RoseConfig): ConfigPreset[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((preset: unknown): ConfigPreset[] => {
+    if (!isRecord(preset) || typeof preset.name !== 'string') return [];
+    return [{
+      id: typeof preset.id === 'string' ? preset.id : createPresetId(),
+      name: preset.name,
+      config: sanitizeConfig(preset.config, fallback),
+    }];
+  });
+};
+
+export const loadPresets = (fallback: RoseConfig): ConfigPreset[] =>
+  loadSettings(STORAGE_KEY, (raw) => sanitizePresets(raw, fallback));
+
+export const savePresets = (presets: ConfigPreset[]) => saveSettings(STORAGE_KEY, presets, 'presets');
+
+export const exportPresets = (presets: ConfigPreset[]): string =>
+  JSON.stringify({ format: PRESET_FILE_FORMAT, version: PRESET_FILE_VERSION, presets }, null, 2);
+
+// Accepts an export file, a bare preset array or a single preset.
+// Imported presets get fresh ids so they never overwrite existing ones.
+export const importPresets = (text: string, fallback: RoseConfig): ConfigPreset[] => {
+  const data: unknown = JSON.parse(text);
+  if (isRecord(data) && data.format === PRESET_FILE_FORMAT && isFiniteNumber(data.version) && data.version > PRESET_FILE_VERSION) {
+    throw new Error(`Unsupported preset file version: ${data.version}`);
+  }
+  const raw = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.presets) ? data.presets : [data];
+  const presets = sanitizePresets(raw, fallback);
+  if (presets.length === 0) throw new Error('No presets found in file');
+  return presets.map((preset) => ({ ...preset, id: createPresetId() }));
+};
@@ -0,0 +1,154 @@
+import { QualitySetting, QualityTierId } from '../types';
+import { loadSettings, saveSettings } from './persistedSettings';
+
+const STORAGE_KEY = 'flora.quality';
+
+export interface QualityTier {
+  id: QualityTierId;
+  // Upper bound for the canvas device pixel ratio
+  maxDpr: number;
+  // Share of each flower's particle buffer that gets drawn
+  drawFraction: number;
+  environment: boolean;
+  contactShadows: boolean;
+  // Radial segments of each laser beam
+  beamSegments: number;
+  // Bloom, aberration and the rest of the post stack
+  postProcessing: boolean;
+}
+
+// Best first; the manager steps down this list and back up
+export const QUALITY_TIERS: QualityTier[] = [
+  { id: 'ultra', maxDpr: 2, drawFraction: 1, environment: true, contactShadows: true, beamSegments: 8, postProcessing: true },
+  { id: 'high', maxDpr: 1.5, drawFraction: 0.8, environment: true, contactShadows: false, beamSegments: 8, postProcessing: true },
+  { id: 'medium', maxDpr: 1, drawFraction: 0.55, environment: false, contactShadows: false, beamSegments: 6, postProcessing: false },
+  { id: 'low', maxDpr: 0.75, drawFraction: 0.35, environment: false, contactShadows: false, beamSegments: 4, postProcessing: false },
+];
+
+export const QUALITY_SETTINGS: QualitySetting[] = ['auto', ...QUALITY_TIERS.map((tier) => tier.id)];
+
+export const getQualityTier = (id: QualityTierId) => QUALITY_TIERS.find((tier) => tier.id === id) ?? QUALITY_TIERS[0];
+
+// Fewest radial segments a beam cylinder can have
+const MIN_BEAM_SEGMENTS = 3;
+
+// Beam segments for one of `flowers` flowers sharing the tier, like budgetCounts does for particles
+export const beamSegmentsFor = (tier: QualityTier, flowers = 1) =>
+  Math.max(MIN_BEAM_SEGMENTS, Math.floor(tier.beamSegments / Math.max(flowers, 1)));
+
+export const isQualitySetting = (value: unknown): value is QualitySetting =>
+  typeof value === 'string' && (QUALITY_SETTINGS as string[]).includes(value);
+
+export const sanitizeQualitySetting = (raw: unknown): QualitySetting => (isQualitySetting(raw) ? raw : 'auto');
+
+export const loadQualitySetting = (): QualitySetting => loadSettings(STORAGE_KEY, sanitizeQualitySetting);
+
+export const saveQualitySetting = (setting: QualitySetting) => saveSettings(STORAGE_KEY, setting, 'quality setting');
+
+export interface QualityManagerOptions {
+  // Frames averaged before any decision
+  windowSize: number;
+  // Step down when the average frame time rises above this (ms)
+  downgradeMs: number;
+  // Step up only while the average stays below this (ms)
+  upgradeMs: number;
+  // Minimum time between two tier changes
+  cooldownMs: number;
+  // How long headroom must last before stepping up; doubles each time an
+  // upgrade has to be undone, so a borderline machine settles instead of flapping
+  upgradeHoldMs: number;
+  maxUpgradeHoldMs: number;
+  // Longer frames (tab switches, GC pauses) are not counted
+  maxSampleMs: number;
+}
+
+export const DEFAULT_QUALITY_OPTIONS: QualityManagerOptions = {
+  windowSize: 60,
+  downgradeMs: 1000 / 45,
+  upgradeMs: 1000 / 58,
+  cooldownMs: 2000,
+  upgradeHoldMs: 4000,
+  maxUpgradeHoldMs: 60000,
+  maxSampleMs: 250,
+};
+
+/**
+ * Picks a quality tier from frame times sampled in the render loop.
+ * Separate up/down thresholds, a cooldown and a growing upgrade hold keep it
+ * from oscillating between two tiers.
+ */
+export class QualityManager {
+  readonly options: QualityManagerOptions;
+  private index = 0;
+  private samples: number[] = [];
+  private sum = 0;
+  private lastChange = -Infinity;
+  private lastUpgrade = -Infinity;
+  private headroomSince: number | null = null;
+  private upgradeHold: number;
+
+  constructor(options: Partial<QualityManagerOptions> = {}) {
+    this.options = { ...DEFAULT_QUALITY_OPTIONS, ...options };
+    this.upgradeHold = this.options.upgradeHoldMs;
+  }
+
+  get tier(): QualityTier {
+    return QUALITY_TIERS[this.index];
+  }
+
+  get averageMs() {
+    return this.samples.length ? this.sum / this.samples.length : 0;
+  }
+
+  reset(tier: QualityTierId = 'ultra') {
+    this.index = Math.max(0, QUALITY_TIERS.findIndex((t) => t.id === tier));
+    this.samples = [];
+    this.sum = 0;
+    this.lastChange = -Infinity;
+    this.lastUpgrade = -Infinity;
+    this.headroomSince = null;
+    this.upgradeHold = this.options.upgradeHoldMs;
+  }
+
+  // Feed one frame; returns true when the tier changed
+  sample(frameMs: number, now: number): boolean {
+    const { windowSize, downgradeMs, upgradeMs, cooldownMs, maxUpgradeHoldMs, maxSampleMs } = this.options;
+    if (!(frameMs > 0) || frameMs > maxSampleMs) return false;
+
+    this.samples.push(frameMs);
+    this.sum += frameMs;
+    if (this.samples.length > windowSize) this.sum -= this.samples.shift()!;
+    if (this.samples.length < windowSize || now - this.lastChange < cooldownMs) return false;
+
+    const average = this.averageMs;
+    if (average > downgradeMs && this.index < QUALITY_TIERS.length - 1) {
+      // Undoing a recent upgrade: wait longer before trying again
+      if (now - this.lastUpgrade < this.upgradeHold + cooldownMs) {
+        this.upgradeHold = Math.min(maxUpgradeHoldMs, this.upgradeHold * 2);
+      }
+      this.change(this.index + 1, now);
+      return true;
+    }
+
+    if (average < upgradeMs && this.index > 0) {
+      if (this.headroomSince === null) this.headroomSince = now;
+      if (now - this.headroomSince >= this.upgradeHold) {
+        this.lastUpgrade = now;
+        this.change(this.index - 1, now);
+        return true;
+      }
+    } else {
+      this.headroomSince = null;
+    }
+    return false;
+  }
+
+  private change(index: number, now: number) {
+    this.index = index;
+    this.lastChange = now;
+    this.headroomSince = null;
+    // Judge the new tier on its own frames
+    this.samples = [];
+    this.sum = 0;
+  }
+}
@@ -0,0 +1,80 @@
+import { RoseConfig } from '../types';
+import { isSpeciesId } from '../species';
+import { CONFIG_RANGES, clampConfig, isNumericKey } from './configSchema';
+import { decodePalette, encodePalette } from './palettes';
+
+// Hash layout: #v=1&c=7c00ff&p=3&t=0.8&...
+// Short keys keep links compact; fields missing from a link fall back to defaults.
+export const SCENE_URL_VERSION = 1;
+
+const SHORT_KEYS: Record<keyof RoseConfig, string> = {
+  species: 'f',
+  color: 'c',
+  petalCount: 'p',
+  twist: 't',
+  openness: 'o',
+  detail: 'd',
+  speed: 's',
+  particleSize: 'z',
+  seed: 'e',
+  whorls: 'w',
+  petalLength: 'l',
+  rayCount: 'r',
+  centerSize: 'k',
+  palette: 'q',
+};
+
+// Enough decimals to round-trip the slider step, no more
+const formatNumber = (value: number, step: number) => {
+  const decimals = Math.max(0, Math.ceil(-Math.log10(step)));
+  return String(Number(value.toFixed(decimals)));
+};
+
+export const encodeConfig = (config: RoseConfig): string => {
+  const params = new URLSearchParams({ v: String(SCENE_URL_VERSION) });
+  (Object.keys(SHORT_KEYS) as (keyof RoseConfig)[]).forEach((key) => {
+    const value = config[key];
+    if (key === 'palette') {
+      // The classic look is the default, so it needs no entry
+      if (config.palette) params.set(SHORT_KEYS.palette, encodePalette(config.palette));
+    } else if (typeof value === 'number' && isNumericKey(key)) {
+      params.set(SHORT_KEYS[key], formatNumber(value, CONFIG_RANGES[key].step));
+    } else {
+      params.set(SHORT_KEYS[key], String(value).replace(/^#/, ''));
+    }
+  });
+  return params.toString();
+};
+
+// Returns null when the hash holds no scene, so callers can keep their own default
+export const decodeConfig = (hash: string, fallback: RoseConfig): RoseConfig | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const version = Number(params.get('v'));
+  if (!version || version > SCENE_URL_VERSION) return null;
+
+  const config = { ...fallback };
+  (Object.keys(SHORT_KEYS) as (keyof RoseConfig)[]).forEach((key) => {
+    const raw = params.get(SHORT_KEYS[key]);
+    if (raw === null) return;
+    if (key === 'palette') {
+      config.palette = decodePalette(raw) ?? fallback.palette;
+    } else if (key === 'color') {
+      config.color = `#${raw}`;
+    } else if (key === 'species') {
+      if (isSpeciesId(raw)) config.species = raw;
+    } else {
+      const value = parseFloat(raw);
+      if (Number.isFinite(value)) config[key] = value;
+    }
+  });
+  return clampConfig(config, fallback);
+};
+
+export const readConfigFromUrl = (fallback: RoseConfig): RoseConfig | null =>
+  decodeConfig(window.location.hash, fallback);
+
+// replaceState keeps slider drags out of the browser history
+export const writeConfigToUrl = (config: RoseConfig) => {
+  const url = `${window.location.pathname}${window.location.search}#${encodeConfig(config)}`;
+  window.history.replaceState(window.history.state, '', url);
+};
@@ -0,0 +1,235 @@
+import { SoundSettings } from '../types';
+import { clampToRange } from './configSchema';
+import { isFiniteNumber, isRecord, loadSettings, saveSettings } from './persistedSettings';
+
+const STORAGE_KEY = 'flora.sound';
+
+export const DEFAULT_SOUND_SETTINGS: SoundSettings = { volume: 0.6, muted: false };
+
+export const VOLUME_RANGE = { min: 0, max: 1, step: 0.01 };
+
+export const sanitizeSoundSettings = (raw: unknown): SoundSettings => {
+  if (!isRecord(raw)) return { ...DEFAULT_SOUND_SETTINGS };
+  return {
+    volume: isFiniteNumber(raw.volume) ? clampToRange(raw.volume, VOLUME_RANGE) : DEFAULT_SOUND_SETTINGS.volume,
+    muted: raw.muted === true,
+  };
+};
+
+export const loadSoundSettings = (): SoundSettings => loadSettings(STORAGE_KEY, sanitizeSoundSettings);
+
+export const saveSoundSettings = (settings: SoundSettings) => saveSettings(STORAGE_KEY, settings, 'sound settings');
+
+export interface SoundLevels {
+  growth: number;
+  distortion: number;
+  // Height the lasers are building at (see scanHeight)
+  scanY: number;
+}
+
+// Laser hum pitch at the top (+10) and bottom (-12) of the scan
+const HUM_TOP_HZ = 330;
+const HUM_BOTTOM_HZ = 82;
+// Crackle grains per second at full build speed
+const MAX_GRAIN_RATE = 120;
+// Levels ramp with this time constant (s) so parameter jumps don't click
+const RAMP = 0.05;
+
+// Staircase transfer curve: 2^bits levels between -1 and 1
+const crushCurve = (bits: number) => {
+  const steps = Math.pow(2, bits);
+  const curve = new Float32Array(4096);
+  for (let i = 0; i < curve.length; i++) {
+    const x = (i / (curve.length - 1)) * 2 - 1;
+    curve[i] = Math.round(x * steps) / steps;
+  }
+  return curve;
+};
+
+/**
+ * Procedural sound for the construction and distortion effects, synthesized
+ * with WebAudio (no samples):
+ * - laser hum whose pitch follows the scan line
+ * - crackle grains while particles sinter in, denser the faster the build
+ * - detuned, bit-crushed glitch drone scaled by distortion
+ * - a soft chime when the build snaps to complete
+ *
+ * Browsers only allow audio after a user gesture, so nothing is created until
+ * `unlock()` runs from one; `update()` is a no-op before that.
+ */
+export class SoundEngine {
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private hum: { gain: GainNode; filter: BiquadFilterNode; oscillators: OscillatorNode[] } | null = null;
+  private glitch: { gain: GainNode; oscillators: OscillatorNode[] } | null = null;
+  private crackleBus: GainNode | null = null;
+  private noise: AudioBuffer | null = null;
+  private settings: SoundSettings;
+  private previous: SoundLevels | null = null;
+  private grainDebt = 0;
+
+  constructor(settings: SoundSettings = DEFAULT_SOUND_SETTINGS) {
+    this.settings = { ...settings };
+  }
+
+  // True once a user gesture has started the audio context
+  get unlocked() {
+    return this.context?.state === 'running';
+  }
+
+  // Call from a user gesture (click, key, touch)
+  unlock() {
+    if (!this.context) this.build();
+    this.context?.resume();
+  }
+
+  setSettings(settings: SoundSettings) {
+    this.settings = { ...settings };
+    if (this.context && this.master) {
+      this.master.gain.setTargetAtTime(settings.muted ? 0 : settings.volume, this.context.currentTime, RAMP);
+    }
+  }
+
+  update(levels: SoundLevels, deltaMs: number) {
+    const context = this.context;
+    if (!context || context.state !== 'running' || !this.hum || !this.glitch) return;
+    const now = context.currentTime;
+    const dt = deltaMs / 1000;
+    const previous = this.previous ?? levels;
+    this.previous = { ...levels };
+    const buildSpeed = dt > 0 ? Math.abs(levels.growth - previous.growth) / dt : 0;
+
+    // --- Laser hum: follows the scan line the beams aim at; silent once built ---
+    const height = Math.max(0, Math.min(1, (levels.scanY + 12) / 22));
+    const pitch = HUM_BOTTOM_HZ + (HUM_TOP_HZ - HUM_BOTTOM_HZ) * height;
+    const beamsOn = levels.growth > 0.005 && levels.growth < 0.99;
+    this.hum.oscillators.forEach((osc) => osc.frequency.setTargetAtTime(pitch, now, RAMP));
+    this.hum.filter.frequency.setTargetAtTime(pitch * (3 + Math.min(buildSpeed, 1) * 6), now, RAMP);
+    this.hum.gain.gain.setTargetAtTime(beamsOn ? 0.05 + Math.min(buildSpeed, 1) * 0.1 : 0, now, beamsOn ? RAMP : 0.3);
+
+    // --- Crackles: grains as particles land ---
+    this.grainDebt += Math.min(buildSpeed * 2, 1) * MAX_GRAIN_RATE * dt * (beamsOn ? 1 : 0);
+    while (this.grainDebt >= 1) {
+      this.grainDebt -= 1;
+      this.grain(now + Math.random() * dt);
+    }
+
+    // --- Glitch: louder, wider and wobblier with distortion ---
+    const d = Math.max(0, Math.min(1, levels.distortion));
+    this.glitch.gain.gain.setTargetAtTime(d * d * 0.12, now, RAMP);
+    this.glitch.oscillators.forEach((osc, i) => {
+      const wobble = (Math.random() - 0.5) * 60 * d;
+      osc.detune.setTargetAtTime((i - 1) * 35 * d + wobble, now, 0.02);
+    });
+
+    // --- Chime on snapping to complete ---
+    if (previous.growth < 0.99 && levels.growth >= 0.99) this.chime(now);
+  }
+
+  // Forgets the last levels, so the next update after a jump (a replay seek) starts from there
+  resetLevels() {
+    this.previous = null;
+  }
+
+  // Stops all sound and releases the context
+  dispose() {
+    this.context?.close();
+    this.context = null;
+    this.master = null;
+    this.hum = null;
+    this.glitch = null;
+    this.crackleBus = null;
+  }
+
+  private build() {
+    // Older Safari only has the prefixed constructor
+    const AudioContextClass =
+      window.AudioContext ?? (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioContextClass) return;
+    const context: AudioContext = new AudioContextClass();
+    this.context = context;
+
+    const master = context.createGain();
+    master.gain.value = this.settings.muted ? 0 : this.settings.volume;
+    const limiter = context.createDynamicsCompressor();
+    master.connect(limiter).connect(context.destination);
+    this.master = master;
+
+    // Hum: two slightly detuned saws through a lowpass
+    const humGain = context.createGain();
+    humGain.gain.value = 0;
+    const filter = context.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.Q.value = 4;
+    filter.connect(humGain).connect(master);
+    const humOscillators = [-6, 6].map((detune) => {
+      const osc = context.createOscillator();
+      osc.type = 'sawtooth';
+      osc.detune.value = detune;
+      osc.connect(filter);
+      osc.start();
+      return osc;
+    });
+    this.hum = { gain: humGain, filter, oscillators: humOscillators };
+
+    // Glitch: three detuned squares into a 3-bit waveshaper
+    const glitchGain = context.createGain();
+    glitchGain.gain.value = 0;
+    const crusher = context.createWaveShaper();
+    crusher.curve = crushCurve(3);
+    crusher.connect(glitchGain).connect(master);
+    const glitchOscillators = [55, 58, 110].map((frequency) => {
+      const osc = context.createOscillator();
+      osc.type = 'square';
+      osc.frequency.value = frequency;
+      osc.connect(crusher);
+      osc.start();
+      return osc;
+    });
+    this.glitch = { gain: glitchGain, oscillators: glitchOscillators };
+
+    // Crackle source: one second of white noise, sliced into grains
+    const noise = context.createBuffer(1, context.sampleRate, context.sampleRate);
+    const samples = noise.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+    this.noise = noise;
+    this.crackleBus = context.createGain();
+    this.crackleBus.gain.value = 0.25;
+    this.crackleBus.connect(master);
+  }
+
+  private grain(at: number) {
+    const context = this.context!;
+    const length = 0.004 + Math.random() * 0.02;
+    const source = context.createBufferSource();
+    source.buffer = this.noise;
+    const filter = context.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.frequency.value = 1500 + Math.random() * 6000;
+    filter.Q.value = 6;
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(0.2 + Math.random() * 0.8, at);
+    envelope.gain.exponentialRampToValueAtTime(0.001, at + length);
+    source.connect(filter).connect(envelope).connect(this.crackleBus!);
+    source.start(at, Math.random() * 0.9, length);
+  }
+
+  private chime(at: number) {
+    const context = this.context!;
+    // Slightly inharmonic partials for a bell-like tone
+    [1, 2.01, 3.02, 4.17].forEach((ratio, i) => {
+      const osc = context.createOscillator();
+      osc.type = 'sine';
+      osc.frequency.value = 660 * ratio;
+      const envelope = context.createGain();
+      const peak = 0.12 / (i + 1);
+      const decay = 2.5 / (i + 1);
+      envelope.gain.setValueAtTime(0, at);
+      envelope.gain.linearRampToValueAtTime(peak, at + 0.01);
+      envelope.gain.exponentialRampToValueAtTime(0.0001, at + decay);
+      osc.connect(envelope).connect(this.master!);
+      osc.start(at);
+      osc.stop(at + decay);
+    });
+  }
+}
@@ -0,0 +1,298 @@
+import * as THREE from 'three';
+import { RoseConfig } from '../types';
+import { isSpeciesId } from '../species';
+import { isHexColor, isNumericKey } from './configSchema';
+import { isFiniteNumber, isRecord } from './persistedSettings';
+
+// --- File Format ---
+// {
+//   "format": "digital-flora-sequence", "version": 1, "name": "Opening", "loop": true,
+//   "tracks": {
+//     "growth":     [{ "t": 0, "value": 0 }, { "t": 8, "value": 1, "easing": "easeInOut" }],
+//     "distortion": [...],
+//     "config":     { "twist": [...], "color": [{ "t": 0, "value": "#7c00ff" }, ...] },
+//     "camera":     { "position": [{ "t": 0, "value": [0, 5, 35] }], "target": [...] }
+//   }
+// }
+// Times are seconds. Each keyframe's easing shapes the segment that ends on it.
+export const SEQUENCE_FORMAT = 'digital-flora-sequence';
+export const SEQUENCE_VERSION = 1;
+
+export type Easing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'step';
+
+export const EASINGS: Record<Easing, (t: number) => number> = {
+  linear: (t) => t,
+  easeIn: (t) => t * t * t,
+  easeOut: (t) => 1 - Math.pow(1 - t, 3),
+  easeInOut: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  step: () => 0,
+};
+
+export type Vec3Tuple = [number, number, number];
+export type TrackValue = number | string | Vec3Tuple;
+
+export interface Keyframe<T extends TrackValue = TrackValue> {
+  t: number;
+  value: T;
+  easing?: Easing;
+}
+
+// Every config field except the palette, which has no in-between
+export type ConfigTrackKey = Exclude<keyof RoseConfig, 'palette'>;
+
+export interface SequenceTracks {
+  growth?: Keyframe<number>[];
+  distortion?: Keyframe<number>[];
+  config?: { [K in ConfigTrackKey]?: Keyframe<RoseConfig[K]>[] };
+  camera?: { position?: Keyframe<Vec3Tuple>[]; target?: Keyframe<Vec3Tuple>[] };
+}
+
+export interface Sequence {
+  format: typeof SEQUENCE_FORMAT;
+  version: number;
+  name: string;
+  loop: boolean;
+  tracks: SequenceTracks;
+}
+
+// Values of every track whose keyframes cover the current time
+export interface SequenceSample {
+  growth?: number;
+  distortion?: number;
+  config: Partial<RoseConfig>;
+  camera: { position?: Vec3Tuple; target?: Vec3Tuple };
+}
+
+export class SequenceFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SequenceFormatError';
+  }
+}
+
+const lerpColor = (a: string, b: string, t: number) =>
+  `#${new THREE.Color(a).lerp(new THREE.Color(b), t).getHexString()}`;
+
+const interpolate = <T extends TrackValue>(a: T, b: T, t: number): T => {
+  if (typeof a === 'number' && typeof b === 'number') return (a + (b - a) * t) as T;
+  if (Array.isArray(a) && Array.isArray(b)) return a.map((v, i) => v + (b[i] - v) * t) as T;
+  if (isHexColor(a) && isHexColor(b)) return lerpColor(a, b, t) as T;
+  // Anything else (species) switches when the next keyframe is reached
+  return (t < 1 ? a : b);
+};
+
+// Track value at `time`, or undefined when the track isn't active then
+export const sampleTrack = <T extends TrackValue>(keys: Keyframe<T>[] | undefined, time: number): T | undefined => {
+  if (!keys || keys.length === 0) return undefined;
+  if (time < keys[0].t || time > keys[keys.length - 1].t) return undefined;
+  let i = 1;
+  while (i < keys.length - 1 && keys[i].t < time) i++;
+  const from = keys[i - 1] ?? keys[0];
+  const to = keys[i] ?? from;
+  if (to.t <= from.t) return to.value;
+  const raw = (time - from.t) / (to.t - from.t);
+  return interpolate(from.value, to.value, EASINGS[to.easing ?? 'linear'](raw));
+};
+
+const trackEnd = (keys?: Keyframe[]) => (keys && keys.length ? keys[keys.length - 1].t : 0);
+
+export const sequenceDuration = (sequence: Sequence) => {
+  const { growth, distortion, config = {}, camera = {} } = sequence.tracks;
+  return Math.max(
+    trackEnd(growth),
+    trackEnd(distortion),
+    ...Object.values(config).map((keys) => trackEnd(keys as Keyframe[])),
+    trackEnd(camera.position),
+    trackEnd(camera.target)
+  );
+};
+
+export const sampleSequence = (sequence: Sequence, time: number): SequenceSample => {
+  const { growth, distortion, config = {}, camera = {} } = sequence.tracks;
+  const sample: SequenceSample = {
+    growth: sampleTrack(growth, time),
+    distortion: sampleTrack(distortion, time),
+    config: {},
+    camera: { position: sampleTrack(camera.position, time), target: sampleTrack(camera.target, time) },
+  };
+  const sampleConfig = <K extends ConfigTrackKey>(key: K) => {
+    const value = sampleTrack<RoseConfig[K]>(config[key], time);
+    if (value !== undefined) sample.config[key] = value;
+  };
+  (Object.keys(config) as ConfigTrackKey[]).forEach(sampleConfig);
+  return sample;
+};
+
+// --- Parsing ---
+const isEasing = (v: unknown): v is Easing => typeof v === 'string' && v in EASINGS;
+const isVec3 = (v: unknown): v is Vec3Tuple => Array.isArray(v) && v.length === 3 && v.every(isFiniteNumber);
+
+const checkKeys = <T extends TrackValue>(raw: unknown, path: string, isValue: (v: unknown) => v is T): Keyframe<T>[] => {
+  if (!Array.isArray(raw)) throw new SequenceFormatError(`${path} must be an array of keyframes`);
+  return raw
+    .map((key: unknown, i): Keyframe<T> => {
+      if (!isRecord(key) || !isFiniteNumber(key.t) || !isValue(key.value)) {
+        throw new SequenceFormatError(`Malformed keyframe ${i} in ${path}`);
+      }
+      return { t: Math.max(0, key.t), value: key.value, ...(isEasing(key.easing) ? { easing: key.easing } : {}) };
+    })
+    .sort((a, b) => a.t - b.t);
+};
+
+// Validates against the config schema; clamping happens where the config is applied
+export const parseSequence = (text: string): Sequence => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new SequenceFormatError('Sequence is not valid JSON');
+  }
+  if (!isRecord(raw) || raw.format !== SEQUENCE_FORMAT) throw new SequenceFormatError('Not a sequence file');
+  const { version } = raw;
+  if (typeof version !== 'number' || version > SEQUENCE_VERSION) {
+    throw new SequenceFormatError(`Unsupported sequence version: ${version}`);
+  }
+
+  const rawTracks = isRecord(raw.tracks) ? raw.tracks : {};
+  const tracks: SequenceTracks = {};
+  if (rawTracks.growth) tracks.growth = checkKeys(rawTracks.growth, 'growth', isFiniteNumber);
+  if (rawTracks.distortion) tracks.distortion = checkKeys(rawTracks.distortion, 'distortion', isFiniteNumber);
+
+  if (isRecord(rawTracks.config)) {
+    const rawConfig = rawTracks.config;
+    const config: NonNullable<SequenceTracks['config']> = {};
+    Object.keys(rawConfig).forEach((key) => {
+      const path = `config.${key}`;
+      if (key === 'species') config.species = checkKeys(rawConfig[key], path, isSpeciesId);
+      else if (key === 'color') config.color = checkKeys(rawConfig[key], path, isHexColor);
+      else if (isNumericKey(key)) config[key] = checkKeys(rawConfig[key], path, isFiniteNumber);
+      else throw new SequenceFormatError(`Unknown config track: ${key}`);
+    });
+    tracks.config = config;
+  }
+
+  if (isRecord(rawTracks.camera)) {
+    const { position, target } = rawTracks.camera;
+    tracks.camera = {};
+    if (position) tracks.camera.position = checkKeys(position, 'camera.position', isVec3);
+    if (target) tracks.camera.target = checkKeys(target, 'camera.target', isVec3);
+  }
+
+  return {
+    format: SEQUENCE_FORMAT,
+    version,
+    name: typeof raw.name === 'string' ? raw.name : 'Untitled',
+    loop: raw.loop !== false,
+    tracks,
+  };
+};
+
+export const serializeSequence = (sequence: Sequence) => JSON.stringify(sequence, null, 2);
+
+/**
+ * Plays a sequence against its own clock. Like ReplayDriver, the caller
+ * advances it each frame; `sample` returns only the tracks active right now,
+ * so everything else stays with live input.
+ */
+export class SequencePlayer {
+  readonly sequence: Sequence;
+  readonly duration: number;
+  loop: boolean;
+  private time = 0;
+  private playing = false;
+
+  constructor(sequence: Sequence) {
+    this.sequence = sequence;
+    this.duration = sequenceDuration(sequence);
+    this.loop = sequence.loop;
+  }
+
+  get currentTime() {
+    return this.time;
+  }
+
+  get isPlaying() {
+    return this.playing;
+  }
+
+  play() {
+    if (!this.loop && this.time >= this.duration) this.time = 0;
+    this.playing = true;
+  }
+
+  pause() {
+    this.playing = false;
+  }
+
+  seek(time: number) {
+    this.time = Math.max(0, Math.min(this.duration, time));
+  }
+
+  advance(deltaMs: number) {
+    if (!this.playing) return;
+    this.time += deltaMs / 1000;
+    if (this.time >= this.duration) {
+      if (this.loop && this.duration > 0) {
+        this.time %= this.duration;
+      } else {
+        this.time = this.duration;
+        this.playing = false;
+      }
+    }
+  }
+
+  sample(): SequenceSample {
+    return sampleSequence(this.sequence, this.time);
+  }
+}
+
+// Built-in exhibition loop: build, bloom and twist, a burst of distortion, fold away
+export const DEMO_SEQUENCE: Sequence = {
+  format: SEQUENCE_FORMAT,
+  version: SEQUENCE_VERSION,
+  name: 'Cinematic Show',
+  loop: true,
+  tracks: {
+    growth: [
+      { t: 0, value: 0 },
+      { t: 2, value: 0 },
+      { t: 10, value: 1, easing: 'easeInOut' },
+      { t: 26, value: 1 },
+      { t: 32, value: 0, easing: 'easeInOut' },
+      { t: 36, value: 0 },
+    ],
+    distortion: [
+      { t: 18, value: 0 },
+      { t: 19.5, value: 0.8, easing: 'easeOut' },
+      { t: 22, value: 0, easing: 'easeInOut' },
+    ],
+    config: {
+      twist: [
+        { t: 10, value: 0.8 },
+        { t: 16, value: 2.5, easing: 'easeInOut' },
+        { t: 24, value: 0.8, easing: 'easeInOut' },
+      ],
+      openness: [
+        { t: 10, value: 0.6 },
+        { t: 16, value: 1.4, easing: 'easeInOut' },
+        { t: 24, value: 0.6, easing: 'easeInOut' },
+      ],
+    },
+    camera: {
+      position: [
+        { t: 0, value: [0, 5, 35] },
+        { t: 10, value: [0, 8, 28], easing: 'easeInOut' },
+        { t: 18, value: [20, 6, 20], easing: 'easeInOut' },
+        { t: 26, value: [0, 5, 35], easing: 'easeInOut' },
+        { t: 36, value: [0, 5, 35] },
+      ],
+      target: [
+        { t: 0, value: [0, 5, 0] },
+        { t: 10, value: [0, 2, 0], easing: 'easeInOut' },
+        { t: 26, value: [0, 2, 0] },
+        { t: 32, value: [0, 5, 0], easing: 'easeInOut' },
+        { t: 36, value: [0, 5, 0] },
+      ],
+    },
+  },
+};
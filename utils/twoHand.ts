@@ -0,0 +1,101 @@
+import { HandGestureState } from './gestures';
+
+export interface TwoHandOptions {
+  // Both pinches must start within this window (ms) to count as one two-hand grab;
+  // a pinch added later to one already held stays a construct + distort combo
+  startWindowMs: number;
+  // Width/height of the camera frame, so spread and angle aren't skewed
+  aspectRatio: number;
+}
+
+export const DEFAULT_TWO_HAND_OPTIONS: TwoHandOptions = {
+  startWindowMs: 300,
+  aspectRatio: 640 / 480,
+};
+
+export interface TwoHandFrame {
+  // Distance between the two pinch points relative to the previous frame (>1 = spreading)
+  spread: number;
+  // Change in the angle of the line between the pinch points since the previous frame,
+  // radians, clockwise as the user sees it
+  rotation: number;
+  // Milliseconds since the previous frame
+  dt: number;
+}
+
+/**
+ * Recognizes a two-handed pinch grab and reports how the hands spread and
+ * turn from frame to frame. The first frame of a grab reports no change.
+ */
+export class TwoHandTracker {
+  readonly options: TwoHandOptions;
+  private pinchSince = new Map<number, number>();
+  private grab: { ids: [number, number]; spread: number; angle: number; timestamp: number } | null = null;
+
+  constructor(options: Partial<TwoHandOptions> = {}) {
+    this.options = { ...DEFAULT_TWO_HAND_OPTIONS, ...options };
+  }
+
+  get active() {
+    return this.grab !== null;
+  }
+
+  reset() {
+    this.pinchSince.clear();
+    this.grab = null;
+  }
+
+  step(hands: HandGestureState[], timestamp: number): TwoHandFrame | null {
+    // Remember when each hand's current pinch began
+    const seen = new Set<number>();
+    hands.forEach((hand) => {
+      if (!hand.gestures.pinch.active) return;
+      seen.add(hand.id);
+      if (!this.pinchSince.has(hand.id)) this.pinchSince.set(hand.id, timestamp);
+    });
+    for (const id of this.pinchSince.keys()) {
+      if (!seen.has(id)) this.pinchSince.delete(id);
+    }
+
+    const pinching = hands.filter((hand) => seen.has(hand.id));
+    if (this.grab) {
+      const [a, b] = this.grab.ids;
+      const first = pinching.find((hand) => hand.id === a);
+      const second = pinching.find((hand) => hand.id === b);
+      if (!first || !second) {
+        this.grab = null;
+        return null;
+      }
+      return this.measure(first, second, timestamp);
+    }
+
+    if (pinching.length < 2) return null;
+    const [first, second] = pinching;
+    const gap = Math.abs(this.pinchSince.get(first.id)! - this.pinchSince.get(second.id)!);
+    if (gap > this.options.startWindowMs) return null;
+    this.grab = { ids: [first.id, second.id], spread: 0, angle: 0, timestamp };
+    return this.measure(first, second, timestamp);
+  }
+
+  private measure(first: HandGestureState, second: HandGestureState, timestamp: number): TwoHandFrame {
+    const grab = this.grab!;
+    // The feed is mirrored, so flip x to match what the user sees
+    const dx = -(second.pinchPoint.x - first.pinchPoint.x) * this.options.aspectRatio;
+    const dy = second.pinchPoint.y - first.pinchPoint.y;
+    const spread = Math.max(Math.hypot(dx, dy), 1e-3);
+    const angle = Math.atan2(dy, dx);
+
+    const fresh = grab.spread === 0;
+    // Wrap so crossing ±π doesn't read as a full turn
+    const turn = Math.atan2(Math.sin(angle - grab.angle), Math.cos(angle - grab.angle));
+    const frame: TwoHandFrame = {
+      spread: fresh ? 1 : spread / grab.spread,
+      rotation: fresh ? 0 : turn,
+      dt: fresh ? 0 : timestamp - grab.timestamp,
+    };
+    grab.spread = spread;
+    grab.angle = angle;
+    grab.timestamp = timestamp;
+    return frame;
+  }
+}